@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { AttachmentProgress } from "@/lib/attachment-manager"
+import type { Attachment } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Download, FileText, Loader2 } from "lucide-react"
+
+export interface AttachmentPreviewProps {
+  senderId: string
+  attachment: Attachment
+  progress?: AttachmentProgress
+  getAttachmentData: (senderId: string, attachment: Attachment) => Promise<Uint8Array | null>
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Decrypted into an object URL once every chunk is here, tried again as more chunks arrive
+export function useAttachmentUrl(
+  senderId: string,
+  attachment: Attachment,
+  getAttachmentData: AttachmentPreviewProps["getAttachmentData"],
+  progress?: AttachmentProgress,
+): string | null {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let objectUrl: string | null = null
+    let cancelled = false
+
+    const load = async () => {
+      const data = await getAttachmentData(senderId, attachment)
+      if (!data || cancelled) return
+
+      objectUrl = URL.createObjectURL(new Blob([data], { type: attachment.mimeType }))
+      setUrl(objectUrl)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [senderId, attachment, getAttachmentData, progress?.received])
+
+  return url
+}
+
+export default function AttachmentPreview({
+  senderId,
+  attachment,
+  progress,
+  getAttachmentData,
+}: AttachmentPreviewProps) {
+  const url = useAttachmentUrl(senderId, attachment, getAttachmentData, progress)
+
+  if (url && attachment.mimeType.startsWith("image/")) {
+    return (
+      <a href={url} download={attachment.name}>
+        <img src={url} alt={attachment.name} className="max-h-64 rounded-md object-contain" />
+      </a>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-border/50 p-2">
+      <FileText className="h-5 w-5 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm truncate">{attachment.name}</p>
+        <p className="text-xs opacity-70">
+          {url
+            ? formatSize(attachment.size)
+            : progress
+              ? `Downloading ${Math.round((progress.received / progress.total) * 100)}%`
+              : `${formatSize(attachment.size)}, waiting for the sender`}
+        </p>
+      </div>
+      {url ? (
+        <Button asChild size="sm" variant="ghost">
+          <a href={url} download={attachment.name}>
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+      ) : (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      )}
+    </div>
+  )
+}
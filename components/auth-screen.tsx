@@ -39,19 +39,25 @@ export default function AuthScreen({ onUserAuthenticated }: AuthScreenProps) {
 
       // Generate new key pair
       const keyPair = crypto.generateKeyPair()
+      const signingKeyPair = crypto.generateSigningKeyPair()
       const userId = crypto.generateUserId(keyPair.publicKey)
 
       // Create user object
       const user: User = {
         id: userId,
         publicKey: keyPair.publicKey,
+        signingPublicKey: signingKeyPair.publicKey,
         username: username.trim(),
         isOnline: true,
         lastSeen: new Date(),
       }
 
       // Save to local storage
-      await storage.saveKeyPair(keyPair)
+      await storage.saveKeyPair({
+        ...keyPair,
+        signingPublicKey: signingKeyPair.publicKey,
+        signingPrivateKey: signingKeyPair.privateKey,
+      })
       await storage.saveCurrentUser(user)
 
       // Show generated keys for backup
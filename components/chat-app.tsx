@@ -1,7 +1,8 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import type { User, Contact, Group, Message } from "@/lib/types"
+import type { User, Contact, Group } from "@/lib/types"
+import type { SearchResult } from "@/lib/search-index"
 import { StorageManager } from "@/lib/storage"
 import { useP2PNetwork } from "@/hooks/use-p2p-network"
 import { Button } from "@/components/ui/button"
@@ -12,6 +13,9 @@ import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import ChatInterface from "./chat-interface"
 import ContactManager from "./contact-manager"
+import SecuritySettings from "./security-settings"
+import GroupManager from "./group-manager"
+import MessageSearchResults from "./message-search-results"
 import {
   MessageCircle,
   Users,
@@ -25,6 +29,7 @@ import {
   Copy,
   Check,
   UserPlus,
+  Server,
 } from "lucide-react"
 
 interface ChatAppProps {
@@ -34,38 +39,77 @@ interface ChatAppProps {
 
 export default function ChatApp({ user, onLogout }: ChatAppProps) {
   const [contacts, setContacts] = useState<Contact[]>([])
-  const [groups, setGroups] = useState<Group[]>([])
-  const [messages, setMessages] = useState<Message[]>([])
   const [activeView, setActiveView] = useState<"contacts" | "groups" | "settings">("contacts")
   const [activeChat, setActiveChat] = useState<Contact | Group | null>(null)
   const [chatType, setChatType] = useState<"contact" | "group">("contact")
   const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<(SearchResult & { chatId: string })[]>([])
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null)
   const [showContactManager, setShowContactManager] = useState(false)
+  const [showGroupManager, setShowGroupManager] = useState(false)
   const [copiedId, setCopiedId] = useState(false)
+  const [signalingUrlInput, setSignalingUrlInput] = useState("")
+  const [signalingError, setSignalingError] = useState("")
+  const [isSavingSignaling, setIsSavingSignaling] = useState(false)
 
-  const { networkStatus, messages: realtimeMessages } = useP2PNetwork(user)
+  const {
+    networkStatus,
+    messages: realtimeMessages,
+    setSignalingServer,
+    securitySettings,
+    updateSecuritySettings,
+    securityAlerts,
+    groups,
+    groupInvitations,
+    createGroup,
+    inviteToGroup,
+    createInviteCode,
+    joinGroupWithCode,
+    respondToInvitation,
+    changeGroup,
+    leaveGroup,
+    contactStatus,
+    searchMessages,
+  } = useP2PNetwork(user)
 
   useEffect(() => {
-    const loadData = async () => {
-      const storage = StorageManager.getInstance()
-      const [loadedContacts, loadedGroups, loadedMessages] = await Promise.all([
-        storage.getAllContacts(),
-        storage.getAllGroups(),
-        storage.getAllMessages(),
-      ])
-
-      setContacts(loadedContacts)
-      setGroups(loadedGroups)
-      setMessages(loadedMessages)
-    }
-
-    loadData()
+    StorageManager.getInstance().getAllContacts().then(setContacts)
   }, [])
 
-  // Update messages when new ones arrive
+  // Joining a group can introduce its members as new contacts
+  useEffect(() => {
+    StorageManager.getInstance().getAllContacts().then(setContacts)
+  }, [groups])
+
+  // Close the chat of a group we left or were removed from
+  useEffect(() => {
+    setActiveChat((current) =>
+      current && "members" in current && !groups.some((group) => group.id === current.id) ? null : current,
+    )
+  }, [groups])
+
   useEffect(() => {
-    setMessages((prev) => [...prev, ...realtimeMessages])
-  }, [realtimeMessages])
+    setSignalingUrlInput(networkStatus.signalingUrl ?? "")
+  }, [networkStatus.signalingUrl])
+
+  // Search messages once typing pauses, and again as messages arrive
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([])
+      return
+    }
+
+    let isCancelled = false
+    const timeout = setTimeout(async () => {
+      const results = await searchMessages(searchQuery)
+      if (!isCancelled) setSearchResults(results)
+    }, 250)
+
+    return () => {
+      isCancelled = true
+      clearTimeout(timeout)
+    }
+  }, [searchQuery, searchMessages, realtimeMessages])
 
   const handleLogout = async () => {
     const storage = StorageManager.getInstance()
@@ -84,6 +128,22 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
     setChatType("group")
   }
 
+  // Opens the chat of a search result at the message
+  const handleSearchResultClick = (chatId: string, messageId: string) => {
+    const group = groups.find((candidate) => candidate.id === chatId)
+    const contact = contacts.find((candidate) => candidate.id === chatId)
+    if (!group && !contact) return
+
+    setActiveChat(group ?? contact!)
+    setChatType(group ? "group" : "contact")
+    setFocusMessageId(messageId)
+  }
+
+  const handleCloseChat = () => {
+    setActiveChat(null)
+    setFocusMessageId(null)
+  }
+
   const copyUserId = async () => {
     try {
       await navigator.clipboard.writeText(user.id)
@@ -94,6 +154,19 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
     }
   }
 
+  const handleSaveSignalingServer = async () => {
+    setIsSavingSignaling(true)
+    setSignalingError("")
+
+    try {
+      await setSignalingServer(signalingUrlInput.trim() || null)
+    } catch (error) {
+      setSignalingError(error instanceof Error ? error.message : "Failed to update signaling server")
+    } finally {
+      setIsSavingSignaling(false)
+    }
+  }
+
   const getNetworkStatusDisplay = () => {
     if (!networkStatus.isConnected) {
       return {
@@ -128,7 +201,13 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
   if (activeChat) {
     return (
       <div className="min-h-screen bg-background flex">
-        <ChatInterface user={user} activeChat={activeChat} chatType={chatType} onBack={() => setActiveChat(null)} />
+        <ChatInterface
+          user={user}
+          activeChat={activeChat}
+          chatType={chatType}
+          focusMessageId={focusMessageId}
+          onBack={handleCloseChat}
+        />
       </div>
     )
   }
@@ -199,7 +278,7 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
               <div className="relative mb-4">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder={`Search ${activeView}...`}
+                  placeholder={`Search ${activeView} and messages...`}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -257,8 +336,11 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
                               </div>
                               <p className="text-xs text-muted-foreground truncate">{contact.id.slice(0, 16)}...</p>
                             </div>
-                            <Badge variant={contact.isOnline ? "default" : "secondary"} className="text-xs">
-                              {contact.isOnline ? "Online" : "Offline"}
+                            <Badge
+                              variant={(contactStatus[contact.id] ?? contact).isOnline ? "default" : "secondary"}
+                              className="text-xs"
+                            >
+                              {(contactStatus[contact.id] ?? contact).isOnline ? "Online" : "Offline"}
                             </Badge>
                           </div>
                         </CardContent>
@@ -266,6 +348,16 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
                     ))}
                   </div>
                 )}
+
+                {searchQuery.trim() && (
+                  <MessageSearchResults
+                    user={user}
+                    results={searchResults}
+                    contacts={contacts}
+                    groups={groups}
+                    onSelect={handleSearchResultClick}
+                  />
+                )}
               </div>
             )}
 
@@ -273,16 +365,45 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <h3 className="font-medium">Groups ({filteredGroups.length})</h3>
-                  <Button size="sm" variant="outline">
-                    <Plus className="h-4 w-4 mr-1" />
-                    Join
-                  </Button>
+                  <Dialog open={showGroupManager} onOpenChange={setShowGroupManager}>
+                    <DialogTrigger asChild>
+                      <Button size="sm" variant="outline">
+                        <Plus className="h-4 w-4 mr-1" />
+                        Manage
+                        {groupInvitations.length > 0 && (
+                          <Badge variant="destructive" className="ml-1 text-xs">
+                            {groupInvitations.length}
+                          </Badge>
+                        )}
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Group Management</DialogTitle>
+                      </DialogHeader>
+                      <GroupManager
+                        user={user}
+                        contacts={contacts}
+                        groups={groups}
+                        invitations={groupInvitations}
+                        actions={{
+                          createGroup,
+                          inviteToGroup,
+                          createInviteCode,
+                          joinGroupWithCode,
+                          respondToInvitation,
+                          changeGroup,
+                          leaveGroup,
+                        }}
+                      />
+                    </DialogContent>
+                  </Dialog>
                 </div>
                 {filteredGroups.length === 0 ? (
                   <Card>
                     <CardContent className="p-4 text-center">
                       <p className="text-sm text-muted-foreground">No groups yet</p>
-                      <p className="text-xs text-muted-foreground mt-1">Join groups by their public ID</p>
+                      <p className="text-xs text-muted-foreground mt-1">Create a group or join one with an invite code</p>
                     </CardContent>
                   </Card>
                 ) : (
@@ -308,6 +429,16 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
                     ))}
                   </div>
                 )}
+
+                {searchQuery.trim() && (
+                  <MessageSearchResults
+                    user={user}
+                    results={searchResults}
+                    contacts={contacts}
+                    groups={groups}
+                    onSelect={handleSearchResultClick}
+                  />
+                )}
               </div>
             )}
 
@@ -372,6 +503,52 @@ export default function ChatApp({ user, onLogout }: ChatAppProps) {
                   </CardContent>
                 </Card>
 
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Server className="h-4 w-4" />
+                      Signaling Server
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Mode</span>
+                      {networkStatus.signalingUrl ? (
+                        <Badge variant={networkStatus.isSignalingConnected ? "default" : "destructive"}>
+                          {networkStatus.isSignalingConnected ? "Connected" : "Unreachable"}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">This browser only</Badge>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="ws://192.168.1.10:8787"
+                      value={signalingUrlInput}
+                      onChange={(e) => setSignalingUrlInput(e.target.value)}
+                      className="font-mono text-xs"
+                    />
+                    {signalingError && <p className="text-xs text-destructive">{signalingError}</p>}
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={handleSaveSignalingServer}
+                      disabled={isSavingSignaling || signalingUrlInput.trim() === (networkStatus.signalingUrl ?? "")}
+                    >
+                      {isSavingSignaling ? "Connecting..." : "Save"}
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Run <code className="font-mono">npm run signaling</code> on a machine in your network. Leave empty
+                      to only find peers in other tabs of this browser.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <SecuritySettings
+                  settings={securitySettings}
+                  alerts={securityAlerts}
+                  onChange={updateSecuritySettings}
+                />
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-sm">Contact Statistics</CardTitle>
@@ -2,62 +2,364 @@
 
 import type React from "react"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useLayoutEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import type { User, Contact, Group, Message } from "@/lib/types"
 import { useP2PNetwork } from "@/hooks/use-p2p-network"
-import { Send, Shield, Clock, CheckCheck, AlertTriangle, Wifi, WifiOff } from "lucide-react"
-import { cn } from "@/lib/utils"
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder"
+import { isGroupAdmin } from "@/lib/group-manager"
+import { MAX_ATTACHMENT_SIZE } from "@/lib/attachment-manager"
+import AttachmentPreview from "./attachment-preview"
+import VoiceNotePlayer from "./voice-note-player"
+import MessageHistoryDialog from "./message-history-dialog"
+import MessageQuote from "./message-quote"
+import ThreadPanel from "./thread-panel"
+import ReactionChips from "./reaction-chips"
+import { getThreadRootId } from "@/lib/message-thread"
+import {
+  Send,
+  Shield,
+  Clock,
+  Check,
+  CheckCheck,
+  AlertTriangle,
+  Wifi,
+  WifiOff,
+  RotateCw,
+  X,
+  Timer,
+  Paperclip,
+  Mic,
+  Pencil,
+  Trash2,
+  Ban,
+  Reply,
+  MessageSquare,
+  SmilePlus,
+  History,
+} from "lucide-react"
+import { cn, mergeById } from "@/lib/utils"
+import { compareMessages } from "@/lib/message-clock"
+import type { MessageCursor } from "@/lib/message-index"
+
+const MESSAGE_PAGE_SIZE = 50
+
+const DISAPPEARING_TIMERS = [
+  { label: "Off", short: "", value: 0 },
+  { label: "30 seconds", short: "30s", value: 30 * 1000 },
+  { label: "5 minutes", short: "5m", value: 5 * 60 * 1000 },
+  { label: "1 hour", short: "1h", value: 60 * 60 * 1000 },
+  { label: "1 day", short: "1d", value: 24 * 60 * 60 * 1000 },
+  { label: "1 week", short: "1w", value: 7 * 24 * 60 * 60 * 1000 },
+]
+
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏"]
+
+// A group's messages, or the direct messages between us and the contact
+const isInChat = (msg: Message, chatId: string, chatType: "contact" | "group") =>
+  chatType === "group"
+    ? msg.groupId === chatId
+    : !msg.groupId && (msg.senderId === chatId || msg.recipientId === chatId)
 
 interface ChatInterfaceProps {
   user: User
   activeChat: Contact | Group | null
   chatType: "contact" | "group"
+  focusMessageId?: string | null // Opened from a search result, scrolled to once loaded
   onBack: () => void
 }
 
-export default function ChatInterface({ user, activeChat, chatType, onBack }: ChatInterfaceProps) {
+export default function ChatInterface({ user, activeChat, chatType, focusMessageId, onBack }: ChatInterfaceProps) {
   const [message, setMessage] = useState("")
   const [chatMessages, setChatMessages] = useState<Message[]>([])
   const [isTyping, setIsTyping] = useState(false)
+  const [now, setNow] = useState(Date.now())
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const { networkStatus, sendDirectMessage, sendGroupMessage, getMessagesForChat } = useP2PNetwork(user)
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [attachmentError, setAttachmentError] = useState("")
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null)
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+  const [threadRootId, setThreadRootId] = useState<string | null>(null)
+  const [threadReplies, setThreadReplies] = useState<Message[]>([])
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  const messageRefs = useRef<Map<string, HTMLDivElement>>(new Map())
+  const focusedIdRef = useRef<string | null>(null)
+  // A message to scroll to once it is loaded, from a search result, a quote or a thread
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null)
+  // Originals of replies whose page is not loaded, null when we do not have them
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message | null>>({})
+  const requestedQuoteIdsRef = useRef<Set<string>>(new Set())
+  // Where the loaded history of the chat starts, null once it reaches the first message
+  const olderCursorRef = useRef<{ chatId: string; cursor: MessageCursor | null } | null>(null)
+  const isLoadingOlderRef = useRef(false)
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const topSentinelRef = useRef<HTMLDivElement>(null)
+  const scrollRestoreRef = useRef<{ viewport: Element; scrollHeight: number } | null>(null)
+  const recorder = useVoiceRecorder()
+  const {
+    networkStatus,
+    onMessageEvent,
+    sendDirectMessage,
+    sendGroupMessage,
+    sendAttachment,
+    sendVoiceNote,
+    getAttachmentData,
+    attachmentProgress,
+    outbox,
+    retryMessage,
+    cancelMessage,
+    editMessage,
+    deleteMessage,
+    deleteMessageForEveryone,
+    toggleReaction,
+    securitySettings,
+    markChatRead,
+    typingByChat,
+    contactStatus,
+    setTyping,
+    setChatTimer,
+    groups,
+    getMessagePage,
+    getMessage,
+    getThread,
+  } = useP2PNetwork(user)
 
-  // Load messages for the active chat
+  // Load the newest page when a chat opens; older pages are loaded as the history is scrolled back
+  const activeChatId = activeChat?.id
   useEffect(() => {
-    if (!activeChat) return
+    if (!activeChatId) return
+    let isCancelled = false
+    olderCursorRef.current = null
+    setChatMessages([])
+    setHasOlderMessages(false)
+    setJumpTargetId(null)
 
     const loadMessages = async () => {
-      const messages = await getMessagesForChat(activeChat.id)
-      setChatMessages(messages)
+      const page = await getMessagePage(activeChatId, { limit: MESSAGE_PAGE_SIZE })
+      if (isCancelled) return
+
+      // Messages that arrived while the page loaded are kept
+      olderCursorRef.current = { chatId: activeChatId, cursor: page.nextCursor }
+      setChatMessages((prev) => mergeById(page.messages, prev).sort(compareMessages))
+      setHasOlderMessages(!!page.nextCursor)
     }
 
     loadMessages()
-  }, [activeChat, getMessagesForChat])
+    return () => {
+      isCancelled = true
+    }
+  }, [activeChatId, getMessagePage])
+
+  // Messages of the open chat that arrive, are sent, change or go are merged in one at a time
+  useEffect(() => {
+    if (!activeChatId) return
+
+    return onMessageEvent((event) => {
+      if (event.type === "removed") {
+        const { messageIds } = event
+        setChatMessages((prev) => prev.filter((existing) => !messageIds.includes(existing.id)))
+        setQuotedMessages((prev) => {
+          const removedIds = messageIds.filter((id) => prev[id])
+          return removedIds.length > 0 ? { ...prev, ...Object.fromEntries(removedIds.map((id) => [id, null])) } : prev
+        })
+        return
+      }
+
+      const changed = event.message
+      if (!isInChat(changed, activeChatId, chatType)) return
+
+      if (event.type === "added") {
+        setChatMessages((prev) => mergeById(prev, [changed]).sort(compareMessages))
+      } else {
+        setChatMessages((prev) => prev.map((existing) => (existing.id === changed.id ? changed : existing)))
+        setQuotedMessages((prev) => (prev[changed.id] ? { ...prev, [changed.id]: changed } : prev))
+        setHistoryMessage((prev) => (prev?.id === changed.id ? changed : prev))
+      }
+    })
+  }, [activeChatId, chatType, onMessageEvent])
+
+  // An edit, reply or thread in progress belongs to its chat
+  useEffect(() => {
+    setEditingMessage(null)
+    setReplyingTo(null)
+    setThreadRootId(null)
+  }, [activeChat])
+
+  // The open thread follows the chat as replies arrive
+  useEffect(() => {
+    if (!threadRootId) return
+
+    const loadThread = async () => setThreadReplies(await getThread(threadRootId))
+    loadThread()
+  }, [threadRootId, chatMessages, getThread])
+
+  // Messages count as read once they are on screen in a visible tab
+  useEffect(() => {
+    if (!activeChat) return
 
-  // Auto-scroll to bottom when new messages arrive
+    const markRead = () => {
+      const hasUnread = chatMessages.some((msg) => msg.senderId !== user.id && msg.status !== "read")
+      if (hasUnread && document.visibilityState === "visible") {
+        markChatRead(activeChat.id)
+      }
+    }
+
+    markRead()
+    document.addEventListener("visibilitychange", markRead)
+    return () => document.removeEventListener("visibilitychange", markRead)
+  }, [activeChat, chatMessages, markChatRead, user.id])
+
+  // Stop the typing signal when leaving the chat
+  useEffect(() => {
+    if (!activeChat) return
+
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+      setTyping(activeChat.id, false)
+    }
+  }, [activeChat, setTyping])
+
+  // Ticks the countdown of disappearing messages, and hides them as they expire
+  useEffect(() => {
+    if (!chatMessages.some((msg) => msg.expiresAt)) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [chatMessages])
+
+  // Auto-scroll to bottom when new messages arrive, not when older ones are loaded above
+  const newestMessageId = chatMessages[chatMessages.length - 1]?.id
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [newestMessageId])
+
+  // Older messages added above keep the ones on screen where they were
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current
+    if (!restore) return
+
+    restore.viewport.scrollTop += restore.viewport.scrollHeight - restore.scrollHeight
+    scrollRestoreRef.current = null
   }, [chatMessages])
 
+  // Loads older pages while the top of the history is in view
+  useEffect(() => {
+    const sentinel = topSentinelRef.current
+    if (!sentinel || !hasOlderMessages) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadOlderMessages()
+      },
+      { root: sentinel.closest("[data-slot=scroll-area-viewport]") },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasOlderMessages, chatMessages])
+
+  // A search result's message is jumped to once
+  useEffect(() => {
+    if (!focusMessageId || focusedIdRef.current === focusMessageId) return
+
+    focusedIdRef.current = focusMessageId
+    setJumpTargetId(focusMessageId)
+  }, [focusMessageId])
+
+  // Older pages are loaded until the message to jump to is found, or the history ends without it
+  useEffect(() => {
+    if (!jumpTargetId || !activeChat) return
+    if (!chatMessages.some((msg) => msg.id === jumpTargetId)) {
+      if (hasOlderMessages) {
+        loadOlderMessages()
+      } else if (olderCursorRef.current?.chatId === activeChat.id) {
+        setJumpTargetId(null)
+      }
+      return
+    }
+
+    setJumpTargetId(null)
+    scrollToMessage(jumpTargetId)
+  }, [jumpTargetId, activeChat, chatMessages, hasOlderMessages])
+
+  // Replies quote their original even when it is on a page not loaded yet
+  useEffect(() => {
+    if (!activeChatId) return
+    const loadedIds = new Set(chatMessages.map((msg) => msg.id))
+    const missingIds = [
+      ...new Set(chatMessages.map((msg) => msg.replyTo).filter((id): id is string => !!id && !loadedIds.has(id))),
+    ].filter((id) => !requestedQuoteIdsRef.current.has(id))
+    if (missingIds.length === 0) return
+
+    missingIds.forEach((id) => requestedQuoteIdsRef.current.add(id))
+    const loadQuotes = async () => {
+      // Only from this chat, a reply cannot quote another one
+      const originals = (await Promise.all(missingIds.map((id) => getMessage(id)))).map((original) =>
+        original && isInChat(original, activeChatId, chatType) ? original : null,
+      )
+      setQuotedMessages((prev) => ({ ...prev, ...Object.fromEntries(missingIds.map((id, i) => [id, originals[i]])) }))
+    }
+    loadQuotes()
+  }, [activeChatId, chatType, chatMessages, getMessage])
+
+  const loadOlderMessages = async () => {
+    const loaded = olderCursorRef.current
+    if (!activeChat || isLoadingOlderRef.current || loaded?.chatId !== activeChat.id || !loaded.cursor) return
+
+    isLoadingOlderRef.current = true
+    try {
+      const page = await getMessagePage(activeChat.id, { before: loaded.cursor, limit: MESSAGE_PAGE_SIZE })
+      if (olderCursorRef.current?.chatId !== activeChat.id) return
+
+      const viewport = topSentinelRef.current?.closest("[data-slot=scroll-area-viewport]")
+      if (viewport) {
+        scrollRestoreRef.current = { viewport, scrollHeight: viewport.scrollHeight }
+      }
+
+      olderCursorRef.current = { chatId: activeChat.id, cursor: page.nextCursor }
+      setChatMessages((prev) => mergeById(page.messages, prev).sort(compareMessages))
+      setHasOlderMessages(!!page.nextCursor)
+    } finally {
+      isLoadingOlderRef.current = false
+    }
+  }
+
   const handleSendMessage = async () => {
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage)
+      return
+    }
     if (!message.trim() || !activeChat) return
 
     setIsTyping(true)
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+    setTyping(activeChat.id, false)
 
     try {
       if (chatType === "contact") {
-        await sendDirectMessage(activeChat.id, message.trim())
+        await sendDirectMessage(activeChat.id, message.trim(), replyingTo?.id)
       } else {
-        await sendGroupMessage(activeChat.id, message.trim())
+        await sendGroupMessage(activeChat.id, message.trim(), replyingTo?.id)
       }
 
       setMessage("")
+      setReplyingTo(null)
     } catch (error) {
       console.error("Failed to send message:", error)
     } finally {
@@ -65,6 +367,146 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
     }
   }
 
+  // Captions can be edited away, a text message needs its text
+  const handleSaveEdit = async (original: Message) => {
+    const content = message.trim()
+    if (!content && !original.attachment) return
+
+    if (content !== original.content) {
+      setIsTyping(true)
+      try {
+        await editMessage(original.id, content)
+      } catch (error) {
+        console.error("Failed to edit message:", error)
+        return
+      } finally {
+        setIsTyping(false)
+      }
+    }
+
+    setEditingMessage(null)
+    setMessage("")
+  }
+
+  const startEditing = (msg: Message) => {
+    setReplyingTo(null)
+    setEditingMessage(msg)
+    setMessage(msg.content)
+  }
+
+  const startReplying = (msg: Message) => {
+    if (editingMessage) cancelEditing()
+    setReplyingTo(msg)
+  }
+
+  // The original is scrolled to once it is loaded, see the jump target effect
+  const jumpToMessage = (messageId: string) => setJumpTargetId(messageId)
+
+  // Scrolls the message into view and flashes it
+  const scrollToMessage = (messageId: string) => {
+    const element = messageRefs.current.get(messageId)
+    if (!element) return
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" })
+    setHighlightedId(messageId)
+    setTimeout(() => setHighlightedId((current) => (current === messageId ? null : current)), 1500)
+  }
+
+  const getSenderName = (senderId: string) => {
+    if (senderId === user.id) return "You"
+    return contactStatus[senderId]?.username ?? `${senderId.slice(0, 8)}...`
+  }
+
+  const handleDelete = async (msg: Message, forEveryone: boolean) => {
+    if (editingMessage?.id === msg.id) cancelEditing()
+    if (replyingTo?.id === msg.id) setReplyingTo(null)
+
+    try {
+      if (forEveryone) {
+        await deleteMessageForEveryone(msg.id)
+      } else {
+        await deleteMessage(msg.id)
+        setChatMessages((prev) => prev.filter((existing) => existing.id !== msg.id))
+      }
+    } catch (error) {
+      console.error("Failed to delete message:", error)
+    }
+  }
+
+  const handleToggleReaction = async (msg: Message, emoji: string) => {
+    try {
+      await toggleReaction(msg.id, emoji)
+    } catch (error) {
+      console.error("Failed to react to message:", error)
+    }
+  }
+
+  // Our messages within the time limit, and only once they are more than a tombstone
+  const canDeleteForEveryone = (msg: Message) =>
+    msg.senderId === user.id &&
+    !msg.retraction &&
+    !!securitySettings &&
+    now - new Date(msg.timestamp).getTime() <= securitySettings.deleteForEveryoneWindow
+
+  const cancelEditing = () => {
+    setEditingMessage(null)
+    setMessage("")
+  }
+
+  // The manager throttles the typing signal, a pause in typing sends the stop
+  const handleMessageChange = (value: string) => {
+    setMessage(value)
+    if (!activeChat) return
+
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+    setTyping(activeChat.id, value.length > 0)
+    typingTimeoutRef.current = setTimeout(() => setTyping(activeChat.id, false), 3000)
+  }
+
+  // The message text goes along as the caption
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file || !activeChat) return
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      setAttachmentError(`Files are limited to ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`)
+      return
+    }
+
+    setIsTyping(true)
+    setAttachmentError("")
+
+    try {
+      await sendAttachment(activeChat.id, file, message.trim(), replyingTo?.id)
+      setMessage("")
+      setReplyingTo(null)
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : "Failed to send file")
+    } finally {
+      setIsTyping(false)
+    }
+  }
+
+  const handleSendVoiceNote = async () => {
+    if (!activeChat) return
+
+    setIsTyping(true)
+    setAttachmentError("")
+
+    try {
+      const voiceNote = await recorder.stop()
+      if (voiceNote) {
+        await sendVoiceNote(activeChat.id, voiceNote, replyingTo?.id)
+        setReplyingTo(null)
+      }
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : "Failed to send voice note")
+    } finally {
+      setIsTyping(false)
+    }
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault()
@@ -72,6 +514,12 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
     }
   }
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== "Escape") return
+    if (editingMessage) cancelEditing()
+    setReplyingTo(null)
+  }
+
   const formatMessageTime = (timestamp: Date) => {
     const now = new Date()
     const messageDate = new Date(timestamp)
@@ -83,17 +531,82 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
     }
   }
 
+  const formatTimeLeft = (expiresAt: Date) => {
+    const seconds = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000))
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+    return `${Math.floor(seconds / 86400)}d`
+  }
+
+  const handleChatTimerChange = async (value: string) => {
+    if (!activeChat) return
+
+    try {
+      await setChatTimer(activeChat.id, Number(value))
+    } catch (error) {
+      console.error("Failed to set disappearing message timer:", error)
+    }
+  }
+
   const getMessageStatus = (message: Message) => {
     if (message.senderId === user.id) {
       // Sent by current user
-      if (message.isEncrypted) {
-        return <CheckCheck className="h-3 w-3 text-primary" />
+      const entry = outbox.find((candidate) => candidate.messageId === message.id)
+      if (message.status === "sending") {
+        return (
+          <span title={entry?.lastError ? `Waiting to retry: ${entry.lastError}` : "Sending"}>
+            <Clock className="h-3 w-3" />
+          </span>
+        )
+      }
+      if (message.status === "failed") {
+        return (
+          <div className="flex items-center gap-1">
+            <span title={entry?.lastError ?? "Not delivered"}>
+              <AlertTriangle className="h-3 w-3 text-destructive" />
+            </span>
+            {entry && (
+              <>
+                <button onClick={() => retryMessage(message.id)} title="Retry">
+                  <RotateCw className="h-3 w-3" />
+                </button>
+                <button onClick={() => cancelMessage(message.id)} title="Cancel">
+                  <X className="h-3 w-3" />
+                </button>
+              </>
+            )}
+          </div>
+        )
+      }
+      if (message.status === "sent") {
+        return (
+          <span title="Sent">
+            <Check className="h-3 w-3" />
+          </span>
+        )
+      }
+      if (message.status === "delivered" || message.status === "read") {
+        return (
+          <span title={getReceiptSummary(message)}>
+            <CheckCheck className={cn("h-3 w-3", message.status === "read" && "text-blue-300")} />
+          </span>
+        )
       }
-      return <Clock className="h-3 w-3 text-muted-foreground" />
     }
     return null
   }
 
+  const getReceiptSummary = (message: Message) => {
+    if (!message.groupId) {
+      return message.status === "read" ? "Read" : "Delivered"
+    }
+
+    const receipts = Object.values(message.receipts ?? {})
+    const readCount = receipts.filter((receipt) => receipt === "read").length
+    return `Delivered to ${receipts.length}, read by ${readCount}`
+  }
+
   const getNetworkStatusDisplay = () => {
     if (!networkStatus.isConnected) {
       return {
@@ -116,6 +629,21 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
     }
   }
 
+  const getTypingText = () => {
+    const typingUserIds = activeChat ? (typingByChat[activeChat.id] ?? []) : []
+    if (typingUserIds.length === 0) return null
+    if (chatType === "contact") return "typing…"
+    if (typingUserIds.length > 1) return `${typingUserIds.length} people are typing…`
+
+    return `${contactStatus[typingUserIds[0]]?.username ?? "Someone"} is typing…`
+  }
+
+  const getPresenceText = (contact: Contact) => {
+    if (contact.presence === "away") return "Away"
+    if (contact.isOnline) return "Online"
+    return contact.lastSeen ? `Last seen ${formatMessageTime(contact.lastSeen)}` : "Offline"
+  }
+
   if (!activeChat) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -131,9 +659,33 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
   }
 
   const networkDisplay = getNetworkStatusDisplay()
+  const contact = chatType === "contact" ? (contactStatus[activeChat.id] ?? (activeChat as Contact)) : null
+  const group = chatType === "group" ? (groups.find((g) => g.id === activeChat.id) ?? (activeChat as Group)) : null
+  const typingText = getTypingText()
+  const chatTimer = DISAPPEARING_TIMERS.find((timer) => timer.value === ((contact ?? group)?.messageTTL ?? 0))
+  const canSetChatTimer = !!contact || (!!group && isGroupAdmin(group, user.id))
+  const visibleMessages = chatMessages.filter((msg) => !msg.expiresAt || new Date(msg.expiresAt).getTime() > now)
+  const messagesById = new Map(visibleMessages.map((msg) => [msg.id, msg]))
+
+  // Group chats count the replies below each thread's root
+  const replyCounts = new Map<string, number>()
+  if (group) {
+    for (const msg of visibleMessages) {
+      if (!msg.replyTo) continue
+      const rootId = getThreadRootId(msg, messagesById)
+      if (rootId !== msg.id) replyCounts.set(rootId, (replyCounts.get(rootId) ?? 0) + 1)
+    }
+  }
+  const threadRoot = threadRootId ? messagesById.get(threadRootId) : undefined
+
+  // Loaded or fetched on its own, and only while it has not expired
+  const getQuotedMessage = (messageId: string) => {
+    const quoted = messagesById.get(messageId) ?? quotedMessages[messageId]
+    return quoted && (!quoted.expiresAt || new Date(quoted.expiresAt).getTime() > now) ? quoted : undefined
+  }
 
   return (
-    <div className="flex-1 flex flex-col">
+    <div className="relative flex-1 flex flex-col">
       {/* Chat Header */}
       <header className="border-b border-border bg-card p-4">
         <div className="flex items-center justify-between">
@@ -151,10 +703,12 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
                 {chatType === "contact" ? (activeChat as Contact).username : (activeChat as Group).name}
               </h2>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                {chatType === "contact" ? (
+                {typingText ? (
+                  <span className="text-primary">{typingText}</span>
+                ) : contact ? (
                   <>
-                    <Badge variant={activeChat.isOnline ? "default" : "secondary"} className="text-xs px-1 py-0">
-                      {activeChat.isOnline ? "Online" : "Offline"}
+                    <Badge variant={contact.isOnline ? "default" : "secondary"} className="text-xs px-1 py-0">
+                      {getPresenceText(contact)}
                     </Badge>
                     <span>•</span>
                     <span>{activeChat.id.slice(0, 8)}...</span>
@@ -170,6 +724,25 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={!canSetChatTimer} className="gap-1 px-2">
+                  <Timer className="h-4 w-4" />
+                  {chatTimer?.short && <span className="text-xs">{chatTimer.short}</span>}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup value={String(chatTimer?.value ?? 0)} onValueChange={handleChatTimerChange}>
+                  {DISAPPEARING_TIMERS.map((timer) => (
+                    <DropdownMenuRadioItem key={timer.value} value={String(timer.value)}>
+                      {timer.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Badge variant={networkDisplay.variant} className="text-xs flex items-center gap-1">
               {networkDisplay.icon}
               {networkDisplay.text}
@@ -182,7 +755,12 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
       {/* Messages Area */}
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-4">
-          {chatMessages.length === 0 ? (
+          {hasOlderMessages && (
+            <div ref={topSentinelRef} className="text-center text-xs text-muted-foreground">
+              Loading earlier messages...
+            </div>
+          )}
+          {visibleMessages.length === 0 ? (
             <div className="text-center py-8">
               <div className="p-3 bg-muted/20 rounded-full w-fit mx-auto mb-3">
                 <Shield className="h-8 w-8 text-muted-foreground" />
@@ -191,13 +769,19 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
               <p className="text-sm text-muted-foreground mt-1">Start a secure conversation</p>
             </div>
           ) : (
-            chatMessages.map((msg, index) => {
+            visibleMessages.map((msg, index) => {
               const isOwnMessage = msg.senderId === user.id
-              const showAvatar = !isOwnMessage && (index === 0 || chatMessages[index - 1].senderId !== msg.senderId)
+              const showAvatar = !isOwnMessage && (index === 0 || visibleMessages[index - 1].senderId !== msg.senderId)
+
+              const replyCount = replyCounts.get(msg.id) ?? 0
 
               return (
                 <div
                   key={msg.id}
+                  ref={(element) => {
+                    if (element) messageRefs.current.set(msg.id, element)
+                    else messageRefs.current.delete(msg.id)
+                  }}
                   className={cn("flex gap-3", isOwnMessage ? "justify-end" : "justify-start", {
                     "ml-12": !isOwnMessage && !showAvatar,
                   })}
@@ -220,23 +804,132 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
                         "relative",
                         isOwnMessage ? "bg-primary text-primary-foreground ml-auto" : "bg-muted text-muted-foreground",
                         msg.isEphemeral && "border-dashed border-destructive/50",
+                        highlightedId === msg.id && "ring-2 ring-ring",
                       )}
                     >
                       <CardContent className="p-3">
                         <div className="space-y-2">
-                          <p className="text-sm leading-relaxed break-words">{msg.content}</p>
+                          {msg.replyTo && (
+                            <MessageQuote
+                              message={getQuotedMessage(msg.replyTo)}
+                              senderName={getSenderName(getQuotedMessage(msg.replyTo)?.senderId ?? "")}
+                              onClick={() => jumpToMessage(msg.replyTo!)}
+                            />
+                          )}
+                          {msg.retraction && (
+                            <p className="flex items-center gap-1 text-sm italic opacity-70">
+                              <Ban className="h-3 w-3" />
+                              This message was deleted
+                            </p>
+                          )}
+                          {msg.attachment && msg.messageType === "voice" && (
+                            <VoiceNotePlayer
+                              senderId={msg.senderId}
+                              attachment={msg.attachment}
+                              progress={attachmentProgress[msg.attachment.id]}
+                              getAttachmentData={getAttachmentData}
+                            />
+                          )}
+                          {msg.attachment && msg.messageType !== "voice" && (
+                            <AttachmentPreview
+                              senderId={msg.senderId}
+                              attachment={msg.attachment}
+                              progress={attachmentProgress[msg.attachment.id]}
+                              getAttachmentData={getAttachmentData}
+                            />
+                          )}
+                          {msg.content && <p className="text-sm leading-relaxed break-words">{msg.content}</p>}
 
                           <div className="flex items-center justify-between gap-2 text-xs opacity-70">
                             <div className="flex items-center gap-1">
                               <span>{formatMessageTime(msg.timestamp)}</span>
-                              {msg.isEphemeral && <Clock className="h-3 w-3" title="Ephemeral message" />}
+                              {msg.isEphemeral && msg.expiresAt && (
+                                <span title="Disappearing message" className="flex items-center gap-1">
+                                  <Clock className="h-3 w-3" />
+                                  {formatTimeLeft(msg.expiresAt)}
+                                </span>
+                              )}
                               {msg.isEncrypted && <Shield className="h-3 w-3" title="Encrypted" />}
+                              {msg.hasMissingPredecessors && (
+                                <span title="Arrived before earlier messages that are still missing">
+                                  <History className="h-3 w-3" />
+                                </span>
+                              )}
+                              {msg.edit && (
+                                <button onClick={() => setHistoryMessage(msg)} className="italic hover:underline">
+                                  edited
+                                </button>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              {!msg.retraction && (
+                                <>
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <button title="React">
+                                        <SmilePlus className="h-3 w-3" />
+                                      </button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end" className="flex min-w-0 gap-1 p-1">
+                                      {REACTION_EMOJIS.map((emoji) => (
+                                        <DropdownMenuItem
+                                          key={emoji}
+                                          onClick={() => handleToggleReaction(msg, emoji)}
+                                          className="px-1.5 text-base"
+                                        >
+                                          {emoji}
+                                        </DropdownMenuItem>
+                                      ))}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                  <button onClick={() => startReplying(msg)} title="Reply">
+                                    <Reply className="h-3 w-3" />
+                                  </button>
+                                </>
+                              )}
+                              {isOwnMessage && !msg.retraction && (
+                                <button onClick={() => startEditing(msg)} title="Edit">
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                              )}
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <button title="Delete">
+                                    <Trash2 className="h-3 w-3" />
+                                  </button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => handleDelete(msg, false)}>
+                                    Delete for me
+                                  </DropdownMenuItem>
+                                  {canDeleteForEveryone(msg) && (
+                                    <DropdownMenuItem onClick={() => handleDelete(msg, true)}>
+                                      Delete for everyone
+                                    </DropdownMenuItem>
+                                  )}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                              {getMessageStatus(msg)}
                             </div>
-                            {getMessageStatus(msg)}
                           </div>
                         </div>
                       </CardContent>
                     </Card>
+                    <ReactionChips
+                      message={msg}
+                      currentUserId={user.id}
+                      onToggle={(emoji) => handleToggleReaction(msg, emoji)}
+                      getReactorName={group ? getSenderName : undefined}
+                    />
+                    {replyCount > 0 && (
+                      <button
+                        onClick={() => setThreadRootId(msg.id)}
+                        className="flex items-center gap-1 px-3 text-xs text-primary hover:underline"
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                        {replyCount} {replyCount === 1 ? "reply" : "replies"}
+                      </button>
+                    )}
                   </div>
                 </div>
               )
@@ -266,19 +959,85 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
           </div>
         )}
 
-        <div className="flex gap-2">
-          <Input
-            placeholder={`Message ${chatType === "contact" ? (activeChat as Contact).username : (activeChat as Group).name}...`}
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            disabled={isTyping}
-            className="flex-1"
-          />
-          <Button onClick={handleSendMessage} disabled={!message.trim() || isTyping} size="sm">
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
+        {(attachmentError || recorder.error) && (
+          <p className="mb-2 text-xs text-destructive">{attachmentError || recorder.error}</p>
+        )}
+
+        {replyingTo && (
+          <div className="mb-2 flex items-center gap-2">
+            <Reply className="h-3 w-3 shrink-0 text-muted-foreground" />
+            <MessageQuote
+              message={replyingTo}
+              senderName={getSenderName(replyingTo.senderId)}
+              onClick={() => jumpToMessage(replyingTo.id)}
+              className="flex-1"
+            />
+            <button onClick={() => setReplyingTo(null)} title="Cancel reply">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {editingMessage && (
+          <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <Pencil className="h-3 w-3" />
+            <span className="flex-1 truncate">
+              Editing: {editingMessage.content || editingMessage.attachment?.name}
+            </span>
+            <button onClick={cancelEditing} title="Cancel editing">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {recorder.isRecording ? (
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={recorder.cancel} title="Discard recording">
+              <X className="h-4 w-4" />
+            </Button>
+            <div className="flex flex-1 items-center gap-2 text-sm">
+              <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+              <span className="tabular-nums">
+                {Math.floor(recorder.elapsed / 60)}:{String(Math.floor(recorder.elapsed % 60)).padStart(2, "0")}
+              </span>
+              <span className="text-muted-foreground">Recording voice note</span>
+            </div>
+            <Button onClick={handleSendVoiceNote} size="sm">
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelected} />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isTyping}
+              title="Attach a file"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <Input
+              placeholder={`Message ${chatType === "contact" ? (activeChat as Contact).username : (activeChat as Group).name}...`}
+              value={message}
+              onChange={(e) => handleMessageChange(e.target.value)}
+              onKeyPress={handleKeyPress}
+              onKeyDown={handleKeyDown}
+              disabled={isTyping}
+              className="flex-1"
+            />
+            {message.trim() || editingMessage ? (
+              <Button onClick={handleSendMessage} disabled={isTyping} size="sm">
+                {editingMessage ? <Check className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+              </Button>
+            ) : (
+              <Button onClick={recorder.start} disabled={isTyping} size="sm" title="Record a voice note">
+                <Mic className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
 
         <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
           <div className="flex items-center gap-2">
@@ -288,6 +1047,19 @@ export default function ChatInterface({ user, activeChat, chatType, onBack }: Ch
           {isTyping && <span>Sending...</span>}
         </div>
       </div>
+
+      <MessageHistoryDialog message={historyMessage} onClose={() => setHistoryMessage(null)} />
+
+      {threadRoot && (
+        <ThreadPanel
+          root={threadRoot}
+          replies={threadReplies}
+          getSenderName={getSenderName}
+          onJumpTo={jumpToMessage}
+          onReply={startReplying}
+          onClose={() => setThreadRootId(null)}
+        />
+      )}
     </div>
   )
 }
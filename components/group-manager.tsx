@@ -0,0 +1,309 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { useP2PNetwork } from "@/hooks/use-p2p-network"
+import { canAddMembers, isGroupAdmin } from "@/lib/group-manager"
+import type { Contact, Group, GroupInvitation, User } from "@/lib/types"
+import GroupSettings from "./group-settings"
+import { Users, UserPlus, Copy, Check, LogOut, Mail, AlertTriangle, CheckCircle } from "lucide-react"
+
+type GroupActions = Pick<
+  ReturnType<typeof useP2PNetwork>,
+  "createGroup" | "inviteToGroup" | "createInviteCode" | "joinGroupWithCode" | "respondToInvitation" | "changeGroup" | "leaveGroup"
+>
+
+interface GroupManagerProps {
+  user: User
+  contacts: Contact[]
+  groups: Group[]
+  invitations: GroupInvitation[]
+  actions: GroupActions
+}
+
+export default function GroupManager({ user, contacts, groups, invitations, actions }: GroupManagerProps) {
+  const [newGroupName, setNewGroupName] = useState("")
+  const [newGroupDescription, setNewGroupDescription] = useState("")
+  const [inviteCode, setInviteCode] = useState("")
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null)
+  const [generatedCode, setGeneratedCode] = useState("")
+  const [copiedCode, setCopiedCode] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState("")
+  const [success, setSuccess] = useState("")
+
+  const selectedGroup = groups.find((group) => group.id === selectedGroupId) ?? null
+  const invitableContacts = contacts.filter(
+    (contact) => !contact.isBlocked && selectedGroup && !selectedGroup.members.includes(contact.id),
+  )
+
+  const run = async (task: () => Promise<void>, successMessage: string) => {
+    setIsWorking(true)
+    setError("")
+
+    try {
+      await task()
+      setSuccess(successMessage)
+      setTimeout(() => setSuccess(""), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong")
+      console.error("Group action error:", err)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCreateGroup = () =>
+    run(async () => {
+      const group = await actions.createGroup(newGroupName, newGroupDescription)
+      setNewGroupName("")
+      setNewGroupDescription("")
+      setSelectedGroupId(group.id)
+    }, "Group created")
+
+  const handleJoinWithCode = () =>
+    run(async () => {
+      await actions.joinGroupWithCode(inviteCode)
+      setInviteCode("")
+    }, "Join request sent, you are added once the inviter is online")
+
+  const handleCreateInviteCode = (groupId: string) =>
+    run(async () => {
+      setGeneratedCode(await actions.createInviteCode(groupId))
+    }, "Invite code created")
+
+  const copyInviteCode = async () => {
+    try {
+      await navigator.clipboard.writeText(generatedCode)
+      setCopiedCode(true)
+      setTimeout(() => setCopiedCode(false), 2000)
+    } catch (err) {
+      console.error("Failed to copy invite code:", err)
+    }
+  }
+
+  const getContactName = (contactId: string) =>
+    contactId === user.id ? "You" : (contacts.find((contact) => contact.id === contactId)?.username ?? contactId.slice(0, 8))
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue={invitations.length > 0 ? "invitations" : "manage"} className="w-full">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="manage">My Groups</TabsTrigger>
+          <TabsTrigger value="create">Create</TabsTrigger>
+          <TabsTrigger value="join">Join</TabsTrigger>
+          <TabsTrigger value="invitations">
+            Invitations
+            {invitations.length > 0 && (
+              <Badge variant="secondary" className="ml-1 text-xs">
+                {invitations.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="manage" className="space-y-3">
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Create a group or join one with a code</p>
+          ) : (
+            groups.map((group) => (
+              <Card
+                key={group.id}
+                className={`cursor-pointer ${group.id === selectedGroupId ? "border-primary" : ""}`}
+                onClick={() => {
+                  setSelectedGroupId(group.id)
+                  setGeneratedCode("")
+                }}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Users className="h-4 w-4" />
+                    {group.name}
+                    <Badge variant="outline" className="text-xs">
+                      {group.members.length} members
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                {group.id === selectedGroupId && (
+                  <CardContent className="space-y-3" onClick={(e) => e.stopPropagation()}>
+                    {group.description && <p className="text-xs text-muted-foreground">{group.description}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {group.members.map((memberId) => getContactName(memberId)).join(", ")}
+                    </p>
+
+                    {canAddMembers(group, user.id) && (
+                      <div className="space-y-2">
+                        <Label className="text-xs">Invite a contact</Label>
+                        {invitableContacts.length === 0 ? (
+                          <p className="text-xs text-muted-foreground">All your contacts are already members</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-2">
+                            {invitableContacts.map((contact) => (
+                              <Button
+                                key={contact.id}
+                                size="sm"
+                                variant="outline"
+                                disabled={isWorking}
+                                onClick={() =>
+                                  run(
+                                    () => actions.inviteToGroup(group.id, contact.id),
+                                    `Invite sent to ${contact.username}`,
+                                  )
+                                }
+                              >
+                                <UserPlus className="h-3 w-3 mr-1" />
+                                {contact.username}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {canAddMembers(group, user.id) && !group.isPrivate && (
+                      <div className="space-y-2">
+                        <Label className="text-xs">Invite code</Label>
+                        {generatedCode ? (
+                          <div className="flex items-center gap-2">
+                            <p className="text-xs font-mono break-all flex-1">{generatedCode.slice(0, 48)}...</p>
+                            <Button size="sm" variant="ghost" onClick={copyInviteCode}>
+                              {copiedCode ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isWorking}
+                            onClick={() => handleCreateInviteCode(group.id)}
+                          >
+                            Create invite code
+                          </Button>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          Anyone who has you as a contact can join with the code for the next 7 days.
+                        </p>
+                      </div>
+                    )}
+
+                    {isGroupAdmin(group, user.id) && (
+                      <GroupSettings
+                        user={user}
+                        group={group}
+                        contacts={contacts}
+                        onChange={(change) => actions.changeGroup(group.id, change)}
+                      />
+                    )}
+
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={isWorking}
+                      onClick={() =>
+                        run(async () => {
+                          await actions.leaveGroup(group.id)
+                          setSelectedGroupId(null)
+                        }, `Left ${group.name}`)
+                      }
+                    >
+                      <LogOut className="h-3 w-3 mr-1" />
+                      Leave group
+                    </Button>
+                  </CardContent>
+                )}
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="create" className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Name</Label>
+            <Input id="group-name" value={newGroupName} onChange={(e) => setNewGroupName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="group-description">Description (optional)</Label>
+            <Input
+              id="group-description"
+              value={newGroupDescription}
+              onChange={(e) => setNewGroupDescription(e.target.value)}
+            />
+          </div>
+          <Button className="w-full" onClick={handleCreateGroup} disabled={isWorking || !newGroupName.trim()}>
+            Create Group
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="join" className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="invite-code">Invite code</Label>
+            <Input
+              id="invite-code"
+              placeholder="securechat-invite:..."
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+          <Button className="w-full" onClick={handleJoinWithCode} disabled={isWorking || !inviteCode.trim()}>
+            Join Group
+          </Button>
+          <p className="text-xs text-muted-foreground">The person who shared the code must be one of your contacts.</p>
+        </TabsContent>
+
+        <TabsContent value="invitations" className="space-y-3">
+          {invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No pending invitations</p>
+          ) : (
+            invitations.map(({ invite }) => (
+              <Card key={invite.id}>
+                <CardContent className="p-3 flex items-center gap-3">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{invite.groupName}</p>
+                    <p className="text-xs text-muted-foreground">From {getContactName(invite.inviterId)}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    disabled={isWorking}
+                    onClick={() => run(() => actions.respondToInvitation(invite.id, true), "Invitation accepted")}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isWorking}
+                    onClick={() => run(() => actions.respondToInvitation(invite.id, false), "Invitation declined")}
+                  >
+                    Decline
+                  </Button>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
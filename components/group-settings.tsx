@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getMemberRole, isOperationAllowed, type GroupChange } from "@/lib/group-manager"
+import type { Contact, Group, User } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Crown, Shield, UserMinus } from "lucide-react"
+
+interface GroupSettingsProps {
+  user: User
+  group: Group
+  contacts: Contact[]
+  onChange: (change: GroupChange) => Promise<void>
+}
+
+type ToggleSetting = "requiresInvite" | "isPrivate"
+
+const toggles: { key: ToggleSetting; type: GroupChange["type"]; label: string; description: string }[] = [
+  {
+    key: "requiresInvite",
+    type: "set_invite_only",
+    label: "Invite only",
+    description: "Only admins can invite new members.",
+  },
+  {
+    key: "isPrivate",
+    type: "set_private",
+    label: "Private",
+    description: "New members must be invited by name, invite codes stop working.",
+  },
+]
+
+export default function GroupSettings({ user, group, contacts, onChange }: GroupSettingsProps) {
+  const [name, setName] = useState(group.name)
+  const [description, setDescription] = useState(group.description ?? "")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setName(group.name)
+    setDescription(group.description ?? "")
+  }, [group.name, group.description])
+
+  // The same check every other member runs when the change reaches them
+  const isAllowed = (change: GroupChange) =>
+    isOperationAllowed(group, {
+      ...change,
+      id: "",
+      groupId: group.id,
+      actorId: user.id,
+      version: group.version ?? 0,
+      timestamp: Date.now(),
+      signature: "",
+    })
+
+  const update = async (change: GroupChange) => {
+    setIsSaving(true)
+    setError("")
+
+    try {
+      await onChange(change)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to change group")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const getMemberName = (memberId: string) =>
+    memberId === user.id ? "You" : (contacts.find((contact) => contact.id === memberId)?.username ?? memberId.slice(0, 8))
+
+  return (
+    <div className="space-y-3 pt-2 border-t">
+      <Label className="text-xs">Group settings</Label>
+
+      <div className="flex gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-sm" />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isSaving || name.trim() === group.name || !isAllowed({ type: "rename", value: name })}
+          onClick={() => update({ type: "rename", value: name })}
+        >
+          Rename
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="h-8 text-sm"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isSaving || description.trim() === (group.description ?? "")}
+          onClick={() => update({ type: "set_description", value: description })}
+        >
+          Save
+        </Button>
+      </div>
+
+      {toggles.map(({ key, type, label, description }) => (
+        <div key={key} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm">{label}</span>
+            <Button
+              size="sm"
+              variant={group[key] ? "default" : "outline"}
+              disabled={isSaving}
+              onClick={() => update({ type, value: !group[key] })}
+            >
+              {group[key] ? "On" : "Off"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label className="text-xs">Members</Label>
+        {group.members.map((memberId) => {
+          const role = getMemberRole(group, memberId)
+          const roleChange: GroupChange = { type: role === "admin" ? "demote" : "promote", targetId: memberId }
+
+          return (
+            <div key={memberId} className="flex items-center gap-2">
+              <span className="text-sm flex-1 truncate">{getMemberName(memberId)}</span>
+              {role === "owner" && (
+                <Badge variant="default" className="text-xs">
+                  <Crown className="h-3 w-3 mr-1" />
+                  Owner
+                </Badge>
+              )}
+              {role === "admin" && (
+                <Badge variant="secondary" className="text-xs">
+                  <Shield className="h-3 w-3 mr-1" />
+                  Admin
+                </Badge>
+              )}
+              {memberId !== user.id && isAllowed(roleChange) && (
+                <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => update(roleChange)}>
+                  {roleChange.type === "promote" ? "Make admin" : "Remove admin"}
+                </Button>
+              )}
+              {memberId !== user.id && isAllowed({ type: "remove", targetId: memberId }) && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isSaving}
+                  onClick={() => update({ type: "remove", targetId: memberId })}
+                >
+                  <UserMinus className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
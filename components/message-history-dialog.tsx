@@ -0,0 +1,46 @@
+"use client"
+
+import type { Message } from "@/lib/types"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+interface MessageHistoryDialogProps {
+  message: Message | null
+  onClose: () => void
+}
+
+const formatRevisionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+
+// Every text an edited message has had, the current one first
+export default function MessageHistoryDialog({ message, onClose }: MessageHistoryDialogProps) {
+  const revisions = message
+    ? [
+        { content: message.content, timestamp: message.edit?.editedAt ?? new Date(message.timestamp).getTime() },
+        ...[...(message.revisions ?? [])].reverse(),
+      ]
+    : []
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Every edit is signed by the sender</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {revisions.map((revision, index) => (
+            <div key={index} className="rounded-md border border-border p-3">
+              <p className="text-sm break-words whitespace-pre-wrap">
+                {revision.content || <span className="italic text-muted-foreground">No text</span>}
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {index === 0 ? "Current, " : ""}
+                {formatRevisionTime(revision.timestamp)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import type { Message } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface MessageQuoteProps {
+  message?: Message // Undefined when the original is not on this device
+  senderName?: string
+  onClick?: () => void
+  className?: string
+}
+
+export const getQuoteText = (message: Message) => {
+  if (message.retraction) return "This message was deleted"
+  if (message.content) return message.content
+  if (message.messageType === "voice") return "Voice note"
+  return message.attachment?.name ?? ""
+}
+
+// The start of the message replied to, clicking it jumps to the original
+export default function MessageQuote({ message, senderName, onClick, className }: MessageQuoteProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!message || !onClick}
+      className={cn(
+        "block w-full rounded border-l-2 border-current bg-black/5 px-2 py-1 text-left text-xs opacity-80 dark:bg-white/5",
+        className,
+      )}
+    >
+      {message ? (
+        <>
+          <span className="block font-medium">{senderName}</span>
+          <span className="line-clamp-2 break-words">{getQuoteText(message)}</span>
+        </>
+      ) : (
+        <span className="italic">Original message not available</span>
+      )}
+    </button>
+  )
+}
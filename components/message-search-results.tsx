@@ -0,0 +1,68 @@
+"use client"
+
+import type { Contact, Group, User } from "@/lib/types"
+import type { SearchResult } from "@/lib/search-index"
+import { Card, CardContent } from "@/components/ui/card"
+
+interface MessageSearchResultsProps {
+  user: User
+  results: (SearchResult & { chatId: string })[]
+  contacts: Contact[]
+  groups: Group[]
+  onSelect: (chatId: string, messageId: string) => void
+}
+
+const formatResultTime = (timestamp: Date) =>
+  new Date(timestamp).toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" })
+
+// Messages matching the search, with the words found marked; clicking one opens its chat at the message
+export default function MessageSearchResults({ user, results, contacts, groups, onSelect }: MessageSearchResultsProps) {
+  const getChatName = (chatId: string) =>
+    groups.find((group) => group.id === chatId)?.name ??
+    contacts.find((contact) => contact.id === chatId)?.username ??
+    `${chatId.slice(0, 8)}...`
+
+  const getSenderName = (senderId: string) =>
+    senderId === user.id ? "You" : (contacts.find((contact) => contact.id === senderId)?.username ?? "Unknown")
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium">Messages ({results.length})</h3>
+      {results.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No messages found. Use "quotes" for phrases, from:name, after:2024-01-31 and before:2024-01-31.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {results.map(({ message, snippet, chatId }) => (
+            <Card
+              key={message.id}
+              className="cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => onSelect(chatId, message.id)}
+            >
+              <CardContent className="p-3">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">
+                    {getChatName(chatId)} · {getSenderName(message.senderId)}
+                  </span>
+                  <span className="shrink-0">{formatResultTime(message.timestamp)}</span>
+                </div>
+                <p className="mt-1 text-sm line-clamp-2 break-words">
+                  {snippet.map((part, index) =>
+                    part.isMatch ? (
+                      <mark key={index} className="rounded bg-primary/20 text-foreground">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    ),
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
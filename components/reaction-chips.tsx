@@ -0,0 +1,38 @@
+"use client"
+
+import type { Message } from "@/lib/types"
+import { getReactionSummary } from "@/lib/message-reactions"
+import { cn } from "@/lib/utils"
+
+interface ReactionChipsProps {
+  message: Message
+  currentUserId: string
+  onToggle: (emoji: string) => void
+  getReactorName?: (userId: string) => string // Groups show who reacted
+}
+
+export default function ReactionChips({ message, currentUserId, onToggle, getReactorName }: ReactionChipsProps) {
+  const summary = getReactionSummary(message)
+  if (summary.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 px-1">
+      {summary.map(({ emoji, userIds }) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => onToggle(emoji)}
+          title={getReactorName ? userIds.map(getReactorName).join(", ") : undefined}
+          aria-pressed={userIds.includes(currentUserId)}
+          className={cn(
+            "flex items-center gap-1 rounded-full border border-border bg-card px-2 py-0.5 text-xs",
+            userIds.includes(currentUserId) && "border-primary bg-primary/10",
+          )}
+        >
+          <span>{emoji}</span>
+          <span className="tabular-nums">{userIds.length}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
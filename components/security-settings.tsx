@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import type { SecuritySettings as SecuritySettingsValues } from "@/lib/security-utils"
+import type { SecurityAlert } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, Lock } from "lucide-react"
+
+interface SecuritySettingsProps {
+  settings: SecuritySettingsValues | null
+  alerts: SecurityAlert[]
+  onChange: (settings: Partial<SecuritySettingsValues>) => Promise<void>
+}
+
+type ToggleSetting = "enableForwardSecrecy" | "requireMessageSigning" | "sendReadReceipts"
+
+const toggles: { key: ToggleSetting; label: string; description: string }[] = [
+  {
+    key: "enableForwardSecrecy",
+    label: "Forward secrecy",
+    description:
+      "Direct messages use a Double Ratchet session per contact, so a leaked key cannot decrypt earlier messages. Messages from contacts with forward secrecy on are always accepted.",
+  },
+  {
+    key: "requireMessageSigning",
+    label: "Require signatures",
+    description: "Drop every message that is not signed by the sender's pinned signing key.",
+  },
+  {
+    key: "sendReadReceipts",
+    label: "Read receipts",
+    description: "Let contacts see when you have read their messages. Delivery receipts are always sent.",
+  },
+]
+
+const deleteForEveryoneWindows = [
+  { label: "1 hour", value: 60 * 60 * 1000 },
+  { label: "1 day", value: 24 * 60 * 60 * 1000 },
+  { label: "1 week", value: 7 * 24 * 60 * 60 * 1000 },
+]
+
+export default function SecuritySettings({ settings, alerts, onChange }: SecuritySettingsProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const update = async (changes: Partial<SecuritySettingsValues>) => {
+    setIsSaving(true)
+    setError("")
+
+    try {
+      await onChange(changes)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update security settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Security
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {toggles.map(({ key, label, description }) => (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">{label}</span>
+              <Button
+                size="sm"
+                variant={settings?.[key] ? "default" : "outline"}
+                disabled={!settings || isSaving}
+                onClick={() => update({ [key]: !settings?.[key] })}
+              >
+                {settings?.[key] ? "On" : "Off"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+        ))}
+        <div className="space-y-1">
+          <span className="text-sm">Delete for everyone</span>
+          <div className="flex gap-1">
+            {deleteForEveryoneWindows.map(({ label, value }) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={settings?.deleteForEveryoneWindow === value ? "default" : "outline"}
+                disabled={!settings || isSaving}
+                onClick={() => update({ deleteForEveryoneWindow: value })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            How long after sending a message can still be deleted for everyone. Contacts&apos; deletions are honored
+            within the same time.
+          </p>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {alerts.length > 0 && (
+          <div className="space-y-2 pt-2 border-t">
+            <div className="flex items-center justify-between">
+              <span className="text-sm flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3 text-destructive" />
+                Alerts
+              </span>
+              <Badge variant="destructive">{alerts.length}</Badge>
+            </div>
+            {alerts.slice(0, 5).map((alert) => (
+              <div key={alert.id} className="text-xs">
+                <p>{alert.message}</p>
+                <p className="text-muted-foreground">
+                  {alert.severity} · {new Date(alert.timestamp).toLocaleTimeString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
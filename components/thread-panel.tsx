@@ -0,0 +1,63 @@
+"use client"
+
+import type { Message } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import MessageQuote from "./message-quote"
+import { MessageSquare, X } from "lucide-react"
+
+interface ThreadPanelProps {
+  root: Message
+  replies: Message[]
+  getSenderName: (senderId: string) => string
+  onJumpTo: (messageId: string) => void
+  onReply: (message: Message) => void
+  onClose: () => void
+}
+
+// A group message and every reply below it, in the order they were sent
+export default function ThreadPanel({ root, replies, getSenderName, onJumpTo, onReply, onClose }: ThreadPanelProps) {
+  return (
+    <aside className="absolute inset-y-0 right-0 z-10 flex w-80 max-w-full flex-col border-l border-border bg-card">
+      <div className="flex items-center justify-between border-b border-border p-4">
+        <h3 className="flex items-center gap-2 font-semibold">
+          <MessageSquare className="h-4 w-4" />
+          Thread
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close thread">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-3">
+          <MessageQuote message={root} senderName={getSenderName(root.senderId)} onClick={() => onJumpTo(root.id)} />
+          <p className="text-xs text-muted-foreground">
+            {replies.length} {replies.length === 1 ? "reply" : "replies"}
+          </p>
+          {replies.map((reply) => (
+            <div key={reply.id} className="space-y-1">
+              <MessageQuote
+                message={reply}
+                senderName={getSenderName(reply.senderId)}
+                onClick={() => onJumpTo(reply.id)}
+                className="border-primary"
+              />
+              <button
+                type="button"
+                onClick={() => onReply(reply)}
+                className="text-xs text-muted-foreground hover:underline"
+              >
+                Reply
+              </button>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+      <div className="border-t border-border p-4">
+        <Button size="sm" className="w-full" onClick={() => onReply(root)}>
+          Reply in thread
+        </Button>
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useAttachmentUrl, type AttachmentPreviewProps } from "./attachment-preview"
+import { Loader2, Pause, Play } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+const formatDuration = (seconds: number) => {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`
+}
+
+export default function VoiceNotePlayer({ senderId, attachment, progress, getAttachmentData }: AttachmentPreviewProps) {
+  const url = useAttachmentUrl(senderId, attachment, getAttachmentData, progress)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+
+  // The sender's duration, the browser may not know it for a recording until it has played
+  const duration = attachment.duration ?? 0
+  const waveform = attachment.waveform ?? []
+  const playedFraction = duration > 0 ? currentTime / duration : 0
+
+  const togglePlay = () => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error("Failed to play voice note:", error))
+    } else {
+      audio.pause()
+    }
+  }
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current
+    if (!audio || !url) return
+
+    audio.currentTime = Math.min(duration, Math.max(0, seconds))
+    setCurrentTime(audio.currentTime)
+  }
+
+  // Clicking or dragging along the waveform scrubs
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    seekTo(((e.clientX - rect.left) / rect.width) * duration)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowLeft") seekTo(currentTime - 5)
+    if (e.key === "ArrowRight") seekTo(currentTime + 5)
+  }
+
+  return (
+    <div className="flex min-w-48 items-center gap-2">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onEnded={() => setCurrentTime(0)}
+        />
+      )}
+      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={!url} onClick={togglePlay}>
+        {!url ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : isPlaying ? (
+          <Pause className="h-4 w-4" />
+        ) : (
+          <Play className="h-4 w-4" />
+        )}
+      </Button>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Voice note position"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        className="flex h-8 flex-1 cursor-pointer touch-none items-center gap-px"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          seekToPointer(e)
+        }}
+        onPointerMove={(e) => e.buttons === 1 && seekToPointer(e)}
+        onKeyDown={handleKeyDown}
+      >
+        {waveform.map((level, index) => (
+          <div
+            key={index}
+            className={cn("flex-1 rounded-full bg-current", {
+              "opacity-40": index / waveform.length >= playedFraction,
+            })}
+            style={{ height: `${Math.max(10, level * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-xs tabular-nums">
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+    </div>
+  )
+}
@@ -1,27 +1,88 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { MessageManager } from "@/lib/message-manager"
-import type { User, Message } from "@/lib/types"
+import type { SecuritySettings } from "@/lib/security-utils"
+import { mergeById } from "@/lib/utils"
+import type { MessagePage, MessagePageOptions } from "@/lib/message-index"
+import type { GroupChange } from "@/lib/group-manager"
+import type { AttachmentFile, AttachmentProgress } from "@/lib/attachment-manager"
+import type {
+  User,
+  Message,
+  SecurityAlert,
+  Group,
+  GroupInvitation,
+  OutboxEntry,
+  Contact,
+  Attachment,
+} from "@/lib/types"
 
 interface NetworkStatus {
   isConnected: boolean
   peerCount: number
+  signalingUrl: string | null
+  isSignalingConnected: boolean
   isInitializing: boolean
   error: string | null
 }
 
+// A message added, changed or removed, for views that keep part of a chat loaded
+export type ChatMessageEvent =
+  | { type: "added" | "updated"; message: Message }
+  | { type: "removed"; messageIds: string[] }
+
 export function useP2PNetwork(user: User | null) {
   const [networkStatus, setNetworkStatus] = useState<NetworkStatus>({
     isConnected: false,
     peerCount: 0,
+    signalingUrl: null,
+    isSignalingConnected: false,
     isInitializing: false,
     error: null,
   })
   const [messages, setMessages] = useState<Message[]>([])
+  const messageEventListenersRef = useRef<Set<(event: ChatMessageEvent) => void>>(new Set())
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings | null>(null)
+  const [securityAlerts, setSecurityAlerts] = useState<SecurityAlert[]>([])
+  const [groups, setGroups] = useState<Group[]>([])
+  const [groupInvitations, setGroupInvitations] = useState<GroupInvitation[]>([])
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([])
+  const [typingByChat, setTypingByChat] = useState<Record<string, string[]>>({})
+  const [contactStatus, setContactStatus] = useState<Record<string, Contact>>({})
+  const [attachmentProgress, setAttachmentProgress] = useState<Record<string, AttachmentProgress>>({})
 
   const [messageManager, setMessageManager] = useState<MessageManager | null>(null)
 
+  // Only reads the ref, so it stays the same across renders
+  const emitMessageEvent = useCallback((event: ChatMessageEvent) => {
+    messageEventListenersRef.current.forEach((listener) => listener(event))
+  }, [])
+
+  const addMessage = useCallback(
+    (message: Message) => {
+      setMessages((prev) => mergeById(prev, [message]))
+      emitMessageEvent({ type: "added", message })
+    },
+    [emitMessageEvent],
+  )
+
+  const removeMessages = useCallback(
+    (messageIds: string[]) => {
+      setMessages((prev) => prev.filter((message) => !messageIds.includes(message.id)))
+      emitMessageEvent({ type: "removed", messageIds })
+    },
+    [emitMessageEvent],
+  )
+
+  // Returns the function that removes the listener again
+  const onMessageEvent = useCallback((listener: (event: ChatMessageEvent) => void) => {
+    messageEventListenersRef.current.add(listener)
+    return () => {
+      messageEventListenersRef.current.delete(listener)
+    }
+  }, [])
+
   useEffect(() => {
     if (typeof window !== "undefined") {
       setMessageManager(MessageManager.getInstance())
@@ -64,21 +125,68 @@ export function useP2PNetwork(user: User | null) {
       try {
         console.log("[v0] Initializing P2P network for user:", user.username)
         await messageManager.initialize(user)
+        setSecuritySettings(messageManager.getSecuritySettings())
 
         // Set up message listener
         const handleNewMessage = (message: Message) => {
           console.log("[v0] Received new message:", message)
-          setMessages((prev) => [...prev, message])
+          addMessage(message)
         }
 
         messageManager.onMessage(handleNewMessage)
 
+        // Status changes of messages we already have, from the outbox and receipts
+        const handleMessageUpdated = (message: Message) => {
+          setMessages((prev) => prev.map((existing) => (existing.id === message.id ? message : existing)))
+          emitMessageEvent({ type: "updated", message })
+        }
+
+        messageManager.onMessageUpdated(handleMessageUpdated)
+
+        const handleSecurityAlert = () => setSecurityAlerts(messageManager.getSecurityAlerts())
+        setSecurityAlerts(messageManager.getSecurityAlerts())
+        messageManager.onSecurityAlert(handleSecurityAlert)
+
+        const handleGroupsChanged = async () => {
+          const [loadedGroups, loadedInvitations] = await Promise.all([
+            messageManager.getGroups(),
+            messageManager.getGroupInvitations(),
+          ])
+          setGroups(loadedGroups)
+          setGroupInvitations(loadedInvitations)
+        }
+        await handleGroupsChanged()
+        messageManager.onGroupsChanged(handleGroupsChanged)
+
+        const handleOutboxChanged = async () => setOutbox(await messageManager.getOutbox())
+        await handleOutboxChanged()
+        messageManager.onOutboxChanged(handleOutboxChanged)
+
+        const handleTypingChanged = (chatId: string, userIds: string[]) =>
+          setTypingByChat((prev) => ({ ...prev, [chatId]: userIds }))
+        messageManager.onTypingChanged(handleTypingChanged)
+
+        // Contacts as they changed since the app loaded them: presence, last seen, disappearing message timer
+        const handleContactUpdated = (contact: Contact) =>
+          setContactStatus((prev) => ({ ...prev, [contact.id]: contact }))
+        messageManager.onContactUpdated(handleContactUpdated)
+
+        const handleMessagesExpired = (messageIds: string[]) => removeMessages(messageIds)
+        messageManager.onMessagesExpired(handleMessagesExpired)
+
+        const handleAttachmentProgress = (attachmentId: string, progress: AttachmentProgress) =>
+          setAttachmentProgress((prev) => ({ ...prev, [attachmentId]: progress }))
+        messageManager.onAttachmentProgress(handleAttachmentProgress)
+
+        const handleVisibilityChange = () => messageManager.setPresence(document.hidden ? "away" : "online")
+        handleVisibilityChange()
+        document.addEventListener("visibilitychange", handleVisibilityChange)
+
         // Update network status
         const status = messageManager.getNetworkStatus()
         console.log("[v0] Network status after initialization:", status)
         setNetworkStatus({
-          isConnected: status.isConnected,
-          peerCount: status.peerCount,
+          ...status,
           isInitializing: false,
           error: null,
         })
@@ -88,58 +196,212 @@ export function useP2PNetwork(user: User | null) {
           const currentStatus = messageManager.getNetworkStatus()
           setNetworkStatus((prev) => ({
             ...prev,
-            isConnected: currentStatus.isConnected,
-            peerCount: currentStatus.peerCount,
+            ...currentStatus,
           }))
         }, 5000)
 
         return () => {
           clearInterval(statusInterval)
           messageManager.removeMessageListener(handleNewMessage)
+          messageManager.removeMessageUpdatedListener(handleMessageUpdated)
+          messageManager.removeSecurityAlertListener(handleSecurityAlert)
+          messageManager.removeGroupsListener(handleGroupsChanged)
+          messageManager.removeOutboxListener(handleOutboxChanged)
+          messageManager.removeTypingListener(handleTypingChanged)
+          messageManager.removeContactListener(handleContactUpdated)
+          messageManager.removeMessagesExpiredListener(handleMessagesExpired)
+          messageManager.removeAttachmentProgressListener(handleAttachmentProgress)
+          document.removeEventListener("visibilitychange", handleVisibilityChange)
         }
       } catch (error) {
         console.error("Failed to initialize P2P network:", error)
-        setNetworkStatus({
+        setNetworkStatus((prev) => ({
+          ...prev,
           isConnected: false,
           peerCount: 0,
           isInitializing: false,
           error: error instanceof Error ? error.message : "Network initialization failed",
-        })
+        }))
       }
     }
 
-    initializeNetwork()
-  }, [user, messageManager])
+    // Listeners are only registered once initialization finishes; unmounting before that removes them right away
+    let isCancelled = false
+    let cleanup: (() => void) | undefined
+    initializeNetwork().then((removeListeners) => {
+      if (isCancelled) {
+        removeListeners?.()
+      } else {
+        cleanup = removeListeners
+      }
+    })
+
+    return () => {
+      isCancelled = true
+      cleanup?.()
+    }
+  }, [user, messageManager, addMessage, removeMessages, emitMessageEvent])
 
   const sendDirectMessage = useCallback(
-    async (recipientId: string, content: string) => {
+    async (recipientId: string, content: string, replyTo?: string) => {
       if (!messageManager) throw new Error("Message manager not initialized")
 
       try {
-        const message = await messageManager.sendDirectMessage(recipientId, content)
-        setMessages((prev) => [...prev, message])
+        const message = await messageManager.sendDirectMessage(recipientId, content, undefined, replyTo)
+        addMessage(message)
         return message
       } catch (error) {
         console.error("Failed to send direct message:", error)
         throw error
       }
     },
-    [messageManager],
+    [messageManager, addMessage],
   )
 
   const sendGroupMessage = useCallback(
-    async (groupId: string, content: string) => {
+    async (groupId: string, content: string, replyTo?: string) => {
       if (!messageManager) throw new Error("Message manager not initialized")
 
       try {
-        const message = await messageManager.sendGroupMessage(groupId, content)
-        setMessages((prev) => [...prev, message])
+        const message = await messageManager.sendGroupMessage(groupId, content, undefined, replyTo)
+        addMessage(message)
         return message
       } catch (error) {
         console.error("Failed to send group message:", error)
         throw error
       }
     },
+    [messageManager, addMessage],
+  )
+
+  const sendAttachment = useCallback(
+    async (chatId: string, file: File, caption?: string, replyTo?: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+
+      try {
+        const upload = { name: file.name, mimeType: file.type, data: new Uint8Array(await file.arrayBuffer()) }
+        const message = await messageManager.sendAttachment(chatId, upload, caption, replyTo)
+        addMessage(message)
+        return message
+      } catch (error) {
+        console.error("Failed to send attachment:", error)
+        throw error
+      }
+    },
+    [messageManager, addMessage],
+  )
+
+  const sendVoiceNote = useCallback(
+    async (chatId: string, voiceNote: AttachmentFile, replyTo?: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+
+      try {
+        const message = await messageManager.sendAttachment(chatId, voiceNote, undefined, replyTo)
+        addMessage(message)
+        return message
+      } catch (error) {
+        console.error("Failed to send voice note:", error)
+        throw error
+      }
+    },
+    [messageManager, addMessage],
+  )
+
+  const getAttachmentData = useCallback(
+    async (senderId: string, attachment: Attachment) => {
+      if (!messageManager) return null
+
+      try {
+        return await messageManager.getAttachmentData(senderId, attachment)
+      } catch (error) {
+        console.error("Failed to read attachment:", error)
+        return null
+      }
+    },
+    [messageManager],
+  )
+
+  const retryMessage = useCallback(
+    async (messageId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.retryMessage(messageId)
+    },
+    [messageManager],
+  )
+
+  const cancelMessage = useCallback(
+    async (messageId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.cancelMessage(messageId)
+      removeMessages([messageId])
+    },
+    [messageManager, removeMessages],
+  )
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      return await messageManager.editMessage(messageId, content)
+    },
+    [messageManager],
+  )
+
+  const deleteMessage = useCallback(
+    async (messageId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.deleteMessage(messageId)
+      removeMessages([messageId])
+    },
+    [messageManager, removeMessages],
+  )
+
+  const deleteMessageForEveryone = useCallback(
+    async (messageId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      return await messageManager.deleteMessageForEveryone(messageId)
+    },
+    [messageManager],
+  )
+
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      return await messageManager.toggleReaction(messageId, emoji)
+    },
+    [messageManager],
+  )
+
+  const markChatRead = useCallback(
+    async (chatId: string) => {
+      if (!messageManager) return
+
+      try {
+        await messageManager.markChatRead(chatId)
+      } catch (error) {
+        console.error("Failed to mark chat read:", error)
+      }
+    },
+    [messageManager],
+  )
+
+  const setTyping = useCallback(
+    async (chatId: string, isTyping: boolean) => {
+      if (!messageManager) return
+
+      try {
+        await messageManager.setTyping(chatId, isTyping)
+      } catch (error) {
+        console.error("Failed to send typing status:", error)
+      }
+    },
+    [messageManager],
+  )
+
+  const setChatTimer = useCallback(
+    async (chatId: string, messageTTL: number) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.setChatTimer(chatId, messageTTL)
+    },
     [messageManager],
   )
 
@@ -157,11 +419,177 @@ export function useP2PNetwork(user: User | null) {
     [messageManager],
   )
 
+  const getMessagePage = useCallback(
+    async (chatId: string, options?: MessagePageOptions): Promise<MessagePage> => {
+      if (!messageManager) return { messages: [], nextCursor: null }
+
+      try {
+        return await messageManager.getMessagePage(chatId, options)
+      } catch (error) {
+        console.error("Failed to get message page:", error)
+        return { messages: [], nextCursor: null }
+      }
+    },
+    [messageManager],
+  )
+
+  const searchMessages = useCallback(
+    async (query: string) => {
+      if (!messageManager) return []
+
+      try {
+        return await messageManager.searchMessages(query)
+      } catch (error) {
+        console.error("Failed to search messages:", error)
+        return []
+      }
+    },
+    [messageManager],
+  )
+
+  const getMessage = useCallback(
+    async (messageId: string) => {
+      if (!messageManager) return null
+
+      try {
+        return await messageManager.getMessage(messageId)
+      } catch (error) {
+        console.error("Failed to get message:", error)
+        return null
+      }
+    },
+    [messageManager],
+  )
+
+  const getThread = useCallback(
+    async (rootId: string) => {
+      if (!messageManager) return []
+
+      try {
+        return await messageManager.getThread(rootId)
+      } catch (error) {
+        console.error("Failed to get thread:", error)
+        return []
+      }
+    },
+    [messageManager],
+  )
+
+  const setSignalingServer = useCallback(
+    async (url: string | null) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+
+      await messageManager.setSignalingServer(url)
+      setNetworkStatus((prev) => ({ ...prev, ...messageManager.getNetworkStatus() }))
+    },
+    [messageManager],
+  )
+
+  const updateSecuritySettings = useCallback(
+    async (settings: Partial<SecuritySettings>) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+
+      setSecuritySettings(await messageManager.updateSecuritySettings(settings))
+    },
+    [messageManager],
+  )
+
+  // Group lifecycle, the groups and invitations state follows through onGroupsChanged
+  const createGroup = useCallback(
+    async (name: string, description?: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      return await messageManager.createGroup(name, description)
+    },
+    [messageManager],
+  )
+
+  const inviteToGroup = useCallback(
+    async (groupId: string, contactId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.inviteToGroup(groupId, contactId)
+    },
+    [messageManager],
+  )
+
+  const createInviteCode = useCallback(
+    async (groupId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      return await messageManager.createInviteCode(groupId)
+    },
+    [messageManager],
+  )
+
+  const joinGroupWithCode = useCallback(
+    async (code: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.joinGroupWithCode(code)
+    },
+    [messageManager],
+  )
+
+  const respondToInvitation = useCallback(
+    async (inviteId: string, accept: boolean) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.respondToInvitation(inviteId, accept)
+    },
+    [messageManager],
+  )
+
+  const changeGroup = useCallback(
+    async (groupId: string, change: GroupChange) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.changeGroup(groupId, change)
+    },
+    [messageManager],
+  )
+
+  const leaveGroup = useCallback(
+    async (groupId: string) => {
+      if (!messageManager) throw new Error("Message manager not initialized")
+      await messageManager.leaveGroup(groupId)
+    },
+    [messageManager],
+  )
+
   return {
     networkStatus,
     messages,
+    onMessageEvent,
     sendDirectMessage,
     sendGroupMessage,
+    sendAttachment,
+    sendVoiceNote,
+    getAttachmentData,
+    attachmentProgress,
+    outbox,
+    retryMessage,
+    cancelMessage,
+    editMessage,
+    deleteMessage,
+    deleteMessageForEveryone,
+    toggleReaction,
+    markChatRead,
+    typingByChat,
+    contactStatus,
+    setTyping,
+    setChatTimer,
     getMessagesForChat,
+    getMessage,
+    getThread,
+    getMessagePage,
+    searchMessages,
+    setSignalingServer,
+    securitySettings,
+    updateSecuritySettings,
+    securityAlerts,
+    groups,
+    groupInvitations,
+    createGroup,
+    inviteToGroup,
+    createInviteCode,
+    joinGroupWithCode,
+    respondToInvitation,
+    changeGroup,
+    leaveGroup,
   }
 }
@@ -0,0 +1,98 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { AttachmentFile } from "@/lib/attachment-manager"
+import { createVoiceNote, MAX_VOICE_NOTE_DURATION } from "@/lib/voice-note"
+
+// Records from the microphone with MediaRecorder. The recording is decoded again for its duration and waveform.
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // Stops the recorder and the microphone, resolves once the last data is in
+  const finish = useCallback(async (): Promise<MediaRecorder | null> => {
+    const recorder = recorderRef.current
+    recorderRef.current = null
+    if (timerRef.current) clearInterval(timerRef.current)
+    setIsRecording(false)
+    if (!recorder) return null
+
+    if (recorder.state !== "inactive") {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener("stop", () => resolve(), { once: true })
+        recorder.stop()
+      })
+    }
+    recorder.stream.getTracks().forEach((track) => track.stop())
+    return recorder
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      finish()
+    }
+  }, [finish])
+
+  const start = useCallback(async () => {
+    setError(null)
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const recorder = new MediaRecorder(stream)
+      chunksRef.current = []
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data)
+      }
+      recorder.start()
+      recorderRef.current = recorder
+
+      const startedAt = Date.now()
+      setElapsed(0)
+      setIsRecording(true)
+      timerRef.current = setInterval(() => {
+        const seconds = (Date.now() - startedAt) / 1000
+        setElapsed(seconds)
+        // Leave room for the recorder to flush, longer recordings would be refused
+        if (seconds >= MAX_VOICE_NOTE_DURATION - 1 && recorder.state === "recording") {
+          recorder.pause()
+        }
+      }, 250)
+    } catch (err) {
+      console.error("Failed to start recording:", err)
+      setError("Microphone unavailable or access denied")
+    }
+  }, [])
+
+  // The voice note to send, null when nothing was recorded
+  const stop = useCallback(async (): Promise<AttachmentFile | null> => {
+    const recorder = await finish()
+    if (!recorder || chunksRef.current.length === 0) return null
+
+    const blob = new Blob(chunksRef.current, { type: recorder.mimeType })
+    const data = new Uint8Array(await blob.arrayBuffer())
+    const context = new AudioContext()
+
+    try {
+      // decodeAudioData takes over the buffer it is given, the original bytes are the ones sent
+      const buffer = await context.decodeAudioData(data.slice().buffer)
+      return createVoiceNote(buffer, { data, mimeType: recorder.mimeType })
+    } catch (err) {
+      console.error("Failed to process recording:", err)
+      setError(err instanceof Error ? err.message : "Failed to process recording")
+      return null
+    } finally {
+      context.close()
+    }
+  }, [finish])
+
+  const cancel = useCallback(async () => {
+    await finish()
+    chunksRef.current = []
+  }, [finish])
+
+  return { isRecording, elapsed, error, start, stop, cancel }
+}
@@ -0,0 +1,126 @@
+import type { CryptoManager } from "./crypto"
+import type { StorageManager } from "./storage"
+import type { Attachment } from "./types"
+
+// Content of a file_chunk network message: a request for chunks of one of the recipient's attachments, or one
+// chunk. Chunks are encrypted with the attachment key, which only travels inside the encrypted message.
+export interface FileChunkContent {
+  messageId: string
+  attachmentId: string
+  request?: number[]
+  chunk?: { index: number; data: string }
+}
+
+export interface AttachmentProgress {
+  received: number // Chunks
+  total: number
+}
+
+// A file to send, voice notes come with their duration and waveform
+export type AttachmentFile = { data: Uint8Array } & Pick<Attachment, "name" | "mimeType" | "duration" | "waveform">
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+const CHUNK_SIZE = 64 * 1024
+const MAX_WAVEFORM_BARS = 256
+
+// Attachments described by a peer are only fetched when they are consistent, a forged one could ask for any size
+export function isValidAttachment(attachment: Attachment): boolean {
+  return (
+    typeof attachment.id === "string" &&
+    typeof attachment.name === "string" &&
+    typeof attachment.mimeType === "string" &&
+    typeof attachment.key === "string" &&
+    Number.isInteger(attachment.size) &&
+    attachment.size > 0 &&
+    attachment.size <= MAX_ATTACHMENT_SIZE &&
+    attachment.chunkSize === CHUNK_SIZE &&
+    Array.isArray(attachment.chunkHashes) &&
+    attachment.chunkHashes.length === Math.ceil(attachment.size / attachment.chunkSize) &&
+    (attachment.duration === undefined || (typeof attachment.duration === "number" && attachment.duration >= 0)) &&
+    (attachment.waveform === undefined ||
+      (Array.isArray(attachment.waveform) &&
+        attachment.waveform.length <= MAX_WAVEFORM_BARS &&
+        attachment.waveform.every((level) => typeof level === "number" && level >= 0 && level <= 1)))
+  )
+}
+
+// Encrypted chunks of the attachments we sent and received, kept under the sender's id; transferring them is up to
+// the MessageManager
+export class AttachmentManager {
+  constructor(
+    private crypto: CryptoManager,
+    private storage: StorageManager,
+  ) {}
+
+  // Encrypts the file chunk by chunk under a new key, and keeps the chunks to serve recipients later
+  async createAttachment(senderId: string, file: AttachmentFile): Promise<Attachment> {
+    if (file.data.length === 0) {
+      throw new Error("File is empty")
+    }
+    if (file.data.length > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Files are limited to ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`)
+    }
+
+    const id = this.crypto.generateSecureId()
+    const key = this.crypto.generateSymmetricKey()
+    const chunkHashes: string[] = []
+
+    for (let index = 0; index * CHUNK_SIZE < file.data.length; index++) {
+      const plaintext = file.data.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+      // The position is bound to each chunk, chunks cannot be reordered
+      const chunk = this.crypto.encryptBytes(plaintext, key, `${id}:${index}`)
+      chunkHashes.push(this.crypto.hashHexData(chunk))
+      await this.storage.saveAttachmentChunk(senderId, id, index, chunk)
+    }
+
+    return {
+      id,
+      name: file.name,
+      mimeType: file.mimeType || "application/octet-stream",
+      size: file.data.length,
+      key,
+      chunkSize: CHUNK_SIZE,
+      chunkHashes,
+      ...(file.duration !== undefined && { duration: file.duration, waveform: file.waveform }),
+    }
+  }
+
+  async getMissingChunks(senderId: string, attachment: Attachment): Promise<number[]> {
+    const stored = new Set(await this.storage.getAttachmentChunkIndexes(senderId, attachment.id))
+    return attachment.chunkHashes.map((_, index) => index).filter((index) => !stored.has(index))
+  }
+
+  async getChunk(senderId: string, attachment: Attachment, index: number): Promise<string | null> {
+    return await this.storage.getAttachmentChunk(senderId, attachment.id, index)
+  }
+
+  // Returns whether the chunk was kept, chunks that do not match their hash are dropped
+  async receiveChunk(senderId: string, attachment: Attachment, index: number, data: string): Promise<boolean> {
+    const expectedHash = attachment.chunkHashes[index]
+    if (!expectedHash || !/^[0-9a-f]*$/.test(data) || this.crypto.hashHexData(data) !== expectedHash) {
+      return false
+    }
+
+    await this.storage.saveAttachmentChunk(senderId, attachment.id, index, data)
+    return true
+  }
+
+  // The decrypted file, null while chunks are missing
+  async readAttachment(senderId: string, attachment: Attachment): Promise<Uint8Array | null> {
+    const data = new Uint8Array(attachment.size)
+
+    for (let index = 0; index < attachment.chunkHashes.length; index++) {
+      const chunk = await this.storage.getAttachmentChunk(senderId, attachment.id, index)
+      if (!chunk) return null
+
+      const plaintext = this.crypto.decryptBytes(chunk, attachment.key, `${attachment.id}:${index}`)
+      data.set(plaintext, index * attachment.chunkSize)
+    }
+
+    return data
+  }
+
+  async removeAttachment(senderId: string, attachment: Attachment): Promise<void> {
+    await this.storage.removeAttachmentChunks(senderId, attachment.id)
+  }
+}
@@ -0,0 +1,143 @@
+import type { AttachmentManager, AttachmentProgress, FileChunkContent } from "./attachment-manager"
+import type { MessageContext } from "./message-context"
+import type { NetworkMessage } from "./p2p-network"
+import type { Attachment, Message } from "./types"
+
+// Attachment chunks are requested a few at a time, requests without an answer are repeated after the timeout
+const ATTACHMENT_REQUEST_WINDOW = 8
+const CHUNK_REQUEST_TIMEOUT = 15 * 1000
+
+// Fetches the chunks of received attachments from their senders, and serves the chunks of ours to recipients
+export class AttachmentTransferManager {
+  // Attachments being fetched by message id, with the time each chunk was last requested
+  private downloads: Map<string, { message: Message; requested: Map<number, number> }> = new Map()
+  private progressListeners: ((attachmentId: string, progress: AttachmentProgress) => void)[] = []
+
+  constructor(
+    private context: MessageContext,
+    private attachments: AttachmentManager,
+  ) {}
+
+  async getProgress(senderId: string, attachment: Attachment): Promise<AttachmentProgress> {
+    const missing = await this.attachments.getMissingChunks(senderId, attachment)
+    return { received: attachment.chunkHashes.length - missing.length, total: attachment.chunkHashes.length }
+  }
+
+  onProgress(listener: (attachmentId: string, progress: AttachmentProgress) => void): void {
+    this.progressListeners.push(listener)
+  }
+
+  removeProgressListener(listener: (attachmentId: string, progress: AttachmentProgress) => void): void {
+    const index = this.progressListeners.indexOf(listener)
+    if (index > -1) {
+      this.progressListeners.splice(index, 1)
+    }
+  }
+
+  // Requests missing chunks of a received attachment from its sender, keeping a window of requests open
+  async download(message: Message): Promise<void> {
+    const attachment = message.attachment
+    if (!attachment || message.senderId === this.context.getCurrentUser()?.id) return
+
+    const { storage } = this.context
+    const missing = await this.attachments.getMissingChunks(message.senderId, attachment)
+    if (missing.length === 0) {
+      this.downloads.delete(message.id)
+      await storage.removePendingDownload(message.senderId, message.id)
+      return
+    }
+
+    const download = this.downloads.get(message.id) ?? { message, requested: new Map<number, number>() }
+    if (!this.downloads.has(message.id)) {
+      this.downloads.set(message.id, download)
+      await storage.addPendingDownload(message.senderId, message.id)
+    }
+
+    const now = Date.now()
+    const inFlight = missing.filter((index) => now - (download.requested.get(index) ?? 0) < CHUNK_REQUEST_TIMEOUT)
+    const request = missing
+      .filter((index) => !inFlight.includes(index))
+      .slice(0, ATTACHMENT_REQUEST_WINDOW - inFlight.length)
+    if (request.length === 0) return
+
+    request.forEach((index) => download.requested.set(index, now))
+    const content: FileChunkContent = { messageId: message.id, attachmentId: attachment.id, request }
+    if (!(await this.context.network.sendControl("file_chunk", message.senderId, JSON.stringify(content)))) {
+      // Sender unreachable, resumeDownloads asks again once they are back
+      request.forEach((index) => download.requested.delete(index))
+    }
+  }
+
+  async continueDownloads(): Promise<void> {
+    for (const { message } of Array.from(this.downloads.values())) {
+      await this.download(message)
+    }
+  }
+
+  // Downloads from a sender continue where they stopped once the sender is back online, after a restart too
+  async resumeDownloads(senderId: string): Promise<void> {
+    const { storage } = this.context
+    try {
+      for (const messageId of await storage.getPendingDownloads(senderId)) {
+        const message = await storage.getMessage(messageId)
+        if (!message?.attachment) {
+          await storage.removePendingDownload(senderId, messageId)
+          continue
+        }
+
+        this.downloads.get(message.id)?.requested.clear()
+        await this.download(message)
+      }
+    } catch (error) {
+      console.error("[v0] Error resuming attachment downloads:", error)
+    }
+  }
+
+  // The message's attachment chunks go, and a download of them stops
+  async removeAttachment(message: Message): Promise<void> {
+    if (!message.attachment) return
+
+    this.downloads.delete(message.id)
+    await this.context.storage.removePendingDownload(message.senderId, message.id)
+    await this.attachments.removeAttachment(message.senderId, message.attachment)
+  }
+
+  async handleFileChunk(networkMessage: NetworkMessage): Promise<void> {
+    const { storage } = this.context
+    const content: FileChunkContent = JSON.parse(networkMessage.content)
+    const message = await storage.getMessage(content.messageId)
+    const attachment = message?.attachment
+    if (!message || !attachment || attachment.id !== content.attachmentId) return
+
+    if (content.request) {
+      // Chunks of our own messages, only for their recipients
+      const requesterId = networkMessage.senderId
+      const isRecipient = message.groupId
+        ? !!(await storage.getGroup(message.groupId))?.members.includes(requesterId)
+        : message.recipientId === requesterId
+      if (message.senderId !== this.context.getCurrentUser()?.id || !isRecipient) return
+
+      for (const index of content.request.slice(0, ATTACHMENT_REQUEST_WINDOW)) {
+        const data = await this.attachments.getChunk(message.senderId, attachment, index)
+        if (data) {
+          const reply: FileChunkContent = { messageId: message.id, attachmentId: attachment.id, chunk: { index, data } }
+          await this.context.network.sendControl("file_chunk", requesterId, JSON.stringify(reply))
+        }
+      }
+    } else if (content.chunk && message.senderId === networkMessage.senderId) {
+      const { index, data } = content.chunk
+      if (!(await this.attachments.receiveChunk(message.senderId, attachment, index, data))) {
+        const contact = await storage.getContact(networkMessage.senderId)
+        const sender = contact?.username ?? networkMessage.senderId
+        const alert = `Dropped a corrupted attachment chunk from ${sender}`
+        this.context.security.raiseAlert("message_tampering", alert, "medium")
+        return
+      }
+
+      this.downloads.get(message.id)?.requested.delete(index)
+      const progress = await this.getProgress(message.senderId, attachment)
+      this.progressListeners.forEach((listener) => listener(attachment.id, progress))
+      await this.download(message)
+    }
+  }
+}
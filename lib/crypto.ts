@@ -1,4 +1,5 @@
 import sodium from "libsodium-wrappers"
+import type { OneTimePreKey, PreKeyBundle, SignedPreKey } from "./types"
 
 export class CryptoManager {
   private static instance: CryptoManager
@@ -38,6 +39,36 @@ export class CryptoManager {
     }
   }
 
+  // Prekeys are crypto_box key pairs like the identity key, the signed one is vouched for by the signing key
+  generateSignedPreKey(signingPrivateKey: string): SignedPreKey {
+    const keyPair = this.generateKeyPair()
+    return {
+      id: this.generateSecureId(),
+      ...keyPair,
+      signature: this.signMessage(`signed-prekey:${keyPair.publicKey}`, signingPrivateKey),
+      createdAt: new Date(),
+    }
+  }
+
+  generateOneTimePreKeys(count: number): OneTimePreKey[] {
+    return Array.from({ length: count }, () => ({
+      id: this.generateSecureId(),
+      ...this.generateKeyPair(),
+      createdAt: new Date(),
+    }))
+  }
+
+  verifyPreKeyBundle(bundle: PreKeyBundle, signingPublicKey: string): boolean {
+    return (
+      this.generateUserId(bundle.identityKey) === bundle.userId &&
+      this.verifySignature(
+        `signed-prekey:${bundle.signedPreKey.publicKey}`,
+        bundle.signedPreKey.signature,
+        signingPublicKey,
+      )
+    )
+  }
+
   // Generate user ID from public key using secure hash
   generateUserId(publicKey: string): string {
     const hash = sodium.crypto_generichash(32, sodium.from_hex(publicKey))
@@ -71,6 +102,14 @@ export class CryptoManager {
     return sodium.to_string(decrypted)
   }
 
+  // Start of a sender key chain for group messages, the id tells members which chain a message belongs to
+  generateSenderKey(): { keyId: string; chainKey: string } {
+    return {
+      keyId: this.generateSecureId(),
+      chainKey: sodium.to_hex(sodium.randombytes_buf(32)),
+    }
+  }
+
   // Generate symmetric key for group chat
   generateSymmetricKey(): string {
     const key = sodium.crypto_secretbox_keygen()
@@ -102,6 +141,117 @@ export class CryptoManager {
     return sodium.to_string(decrypted)
   }
 
+  // X25519 Diffie-Hellman, crypto_box key pairs double as ratchet key pairs
+  computeSharedSecret(privateKey: string, publicKey: string): string {
+    const shared = sodium.crypto_scalarmult(sodium.from_hex(privateKey), sodium.from_hex(publicKey))
+    return sodium.to_hex(shared)
+  }
+
+  // HKDF-style extract-and-expand on keyed BLAKE2b, returns `count` independent 32-byte keys
+  deriveKeys(inputKeyMaterial: string, salt: string, info: string, count: number): string[] {
+    const prk = sodium.crypto_generichash(32, sodium.from_hex(inputKeyMaterial), sodium.from_hex(salt))
+    const infoBytes = sodium.from_string(info)
+    const keys: string[] = []
+
+    let previous = new Uint8Array(0)
+    for (let i = 1; i <= count; i++) {
+      const block = new Uint8Array(previous.length + infoBytes.length + 1)
+      block.set(previous)
+      block.set(infoBytes, previous.length)
+      block[block.length - 1] = i
+
+      previous = sodium.crypto_generichash(32, block, prk)
+      keys.push(sodium.to_hex(previous))
+    }
+
+    return keys
+  }
+
+  // Symmetric ratchet step: the message key and the next chain key both come from HMAC(chainKey)
+  ratchetChainKey(chainKey: string): { chainKey: string; messageKey: string } {
+    const key = sodium.from_hex(chainKey)
+    return {
+      messageKey: sodium.to_hex(sodium.crypto_auth(new Uint8Array([0x01]), key)),
+      chainKey: sodium.to_hex(sodium.crypto_auth(new Uint8Array([0x02]), key)),
+    }
+  }
+
+  // Authenticated encryption under a 32-byte key, associated data is bound but not encrypted
+  encryptWithKey(plaintext: string, key: string, associatedData = ""): string {
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+    const encrypted = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      sodium.from_string(plaintext),
+      associatedData,
+      null,
+      nonce,
+      sodium.from_hex(key),
+    )
+
+    // Combine nonce and encrypted data
+    const combined = new Uint8Array(nonce.length + encrypted.length)
+    combined.set(nonce)
+    combined.set(encrypted, nonce.length)
+
+    return sodium.to_hex(combined)
+  }
+
+  decryptWithKey(ciphertext: string, key: string, associatedData = ""): string {
+    const combined = sodium.from_hex(ciphertext)
+    const nonce = combined.slice(0, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+    const encrypted = combined.slice(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+
+    const decrypted = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      encrypted,
+      associatedData,
+      nonce,
+      sodium.from_hex(key),
+    )
+    return sodium.to_string(decrypted)
+  }
+
+  // Attachment chunks: bytes in, hex out, like encryptWithKey
+  encryptBytes(data: Uint8Array, key: string, associatedData = ""): string {
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+    const encrypted = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      data,
+      associatedData,
+      null,
+      nonce,
+      sodium.from_hex(key),
+    )
+
+    const combined = new Uint8Array(nonce.length + encrypted.length)
+    combined.set(nonce)
+    combined.set(encrypted, nonce.length)
+
+    return sodium.to_hex(combined)
+  }
+
+  decryptBytes(ciphertext: string, key: string, associatedData = ""): Uint8Array {
+    const combined = sodium.from_hex(ciphertext)
+    const nonce = combined.slice(0, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+    const encrypted = combined.slice(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES)
+
+    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      encrypted,
+      associatedData,
+      nonce,
+      sodium.from_hex(key),
+    )
+  }
+
+  // Integrity hash of hex encoded data, e.g. an encrypted attachment chunk
+  hashHexData(data: string): string {
+    return sodium.to_hex(sodium.crypto_generichash(32, sodium.from_hex(data)))
+  }
+
+  // Keyed BLAKE2b of a text, to look an entry up by a value without storing the value
+  hashWithKey(data: string, key: string): string {
+    return sodium.to_hex(sodium.crypto_generichash(32, sodium.from_string(data), sodium.from_hex(key)))
+  }
+
   // Sign message for authenticity
   signMessage(message: string, privateKey: string): string {
     const messageBytes = sodium.from_string(message)
@@ -0,0 +1,262 @@
+import type { CryptoManager } from "./crypto"
+
+// Double Ratchet with header encryption, following the Signal specification:
+// https://signal.org/docs/specifications/doubleratchet/#double-ratchet-with-header-encryption
+// Functions never mutate their input; they return the next state so callers can persist it
+// only once a message has been processed successfully.
+
+export interface RatchetState {
+  DHs: { publicKey: string; privateKey: string } // Our current ratchet key pair
+  DHr: string | null // Their current ratchet public key
+  RK: string // Root key
+  CKs: string | null // Sending chain key
+  CKr: string | null // Receiving chain key
+  Ns: number // Messages sent in the current sending chain
+  Nr: number // Messages received in the current receiving chain
+  PN: number // Messages sent in the previous sending chain
+  HKs: string | null // Header keys for the current chains
+  HKr: string | null
+  NHKs: string // Header keys for the next chains
+  NHKr: string
+  skipped: Record<string, string> // `${headerKey}:${n}` -> message key, oldest first
+  associatedData: string // Identity keys of both parties, bound to every message
+}
+
+export interface RatchetHeader {
+  dh: string
+  pn: number
+  n: number
+}
+
+export interface RatchetMessage {
+  header: string // Encrypted RatchetHeader
+  body: string
+}
+
+const MAX_SKIP = 1000 // Most message keys we derive ahead for a single chain
+const MAX_SKIPPED_KEYS = 2000 // Most message keys cached across all chains
+const ZERO_SALT = "00".repeat(32)
+
+function kdfRootKey(
+  crypto: CryptoManager,
+  rootKey: string,
+  dhOutput: string,
+): { rootKey: string; chainKey: string; headerKey: string } {
+  const [nextRootKey, chainKey, headerKey] = crypto.deriveKeys(dhOutput, rootKey, "SecureChat-ratchet", 3)
+  return { rootKey: nextRootKey, chainKey, headerKey }
+}
+
+// Shared secret and the two initial header keys, derived identically on both sides
+export function deriveInitialKeys(
+  crypto: CryptoManager,
+  sharedSecret: string,
+): { rootKey: string; headerKeyA: string; nextHeaderKeyB: string } {
+  const [rootKey, headerKeyA, nextHeaderKeyB] = crypto.deriveKeys(sharedSecret, ZERO_SALT, "SecureChat-session", 3)
+  return { rootKey, headerKeyA, nextHeaderKeyB }
+}
+
+export function initializeSender(
+  crypto: CryptoManager,
+  sharedSecret: string,
+  remoteRatchetKey: string,
+  associatedData: string,
+): RatchetState {
+  const { rootKey, headerKeyA, nextHeaderKeyB } = deriveInitialKeys(crypto, sharedSecret)
+  const DHs = crypto.generateKeyPair()
+  const derived = kdfRootKey(crypto, rootKey, crypto.computeSharedSecret(DHs.privateKey, remoteRatchetKey))
+
+  return {
+    DHs,
+    DHr: remoteRatchetKey,
+    RK: derived.rootKey,
+    CKs: derived.chainKey,
+    CKr: null,
+    Ns: 0,
+    Nr: 0,
+    PN: 0,
+    HKs: headerKeyA,
+    HKr: null,
+    NHKs: derived.headerKey,
+    NHKr: nextHeaderKeyB,
+    skipped: {},
+    associatedData,
+  }
+}
+
+export function initializeReceiver(
+  crypto: CryptoManager,
+  sharedSecret: string,
+  ratchetKeyPair: { publicKey: string; privateKey: string },
+  associatedData: string,
+): RatchetState {
+  const { rootKey, headerKeyA, nextHeaderKeyB } = deriveInitialKeys(crypto, sharedSecret)
+
+  return {
+    DHs: ratchetKeyPair,
+    DHr: null,
+    RK: rootKey,
+    CKs: null,
+    CKr: null,
+    Ns: 0,
+    Nr: 0,
+    PN: 0,
+    HKs: null,
+    HKr: null,
+    NHKs: nextHeaderKeyB,
+    NHKr: headerKeyA,
+    skipped: {},
+    associatedData,
+  }
+}
+
+export function canSend(state: RatchetState): boolean {
+  return state.CKs !== null && state.HKs !== null
+}
+
+export function ratchetEncrypt(
+  crypto: CryptoManager,
+  current: RatchetState,
+  plaintext: string,
+): { state: RatchetState; message: RatchetMessage } {
+  if (!canSend(current)) {
+    throw new Error("Ratchet session cannot send before receiving")
+  }
+
+  const state = cloneState(current)
+  const { chainKey, messageKey } = crypto.ratchetChainKey(state.CKs!)
+  state.CKs = chainKey
+
+  const header: RatchetHeader = { dh: state.DHs.publicKey, pn: state.PN, n: state.Ns }
+  const encryptedHeader = crypto.encryptWithKey(JSON.stringify(header), state.HKs!)
+  state.Ns += 1
+
+  return {
+    state,
+    message: {
+      header: encryptedHeader,
+      body: crypto.encryptWithKey(plaintext, messageKey, state.associatedData + encryptedHeader),
+    },
+  }
+}
+
+export function ratchetDecrypt(
+  crypto: CryptoManager,
+  current: RatchetState,
+  message: RatchetMessage,
+): { state: RatchetState; plaintext: string } {
+  const state = cloneState(current)
+  const associatedData = state.associatedData + message.header
+
+  const skippedPlaintext = trySkippedMessageKeys(crypto, state, message, associatedData)
+  if (skippedPlaintext !== null) {
+    return { state, plaintext: skippedPlaintext }
+  }
+
+  const { header, isNextChain } = decryptHeader(crypto, state, message.header)
+  if (isNextChain) {
+    skipMessageKeys(crypto, state, header.pn)
+    dhRatchet(crypto, state, header)
+  }
+
+  skipMessageKeys(crypto, state, header.n)
+
+  const { chainKey, messageKey } = crypto.ratchetChainKey(state.CKr!)
+  state.CKr = chainKey
+  state.Nr += 1
+
+  return { state, plaintext: crypto.decryptWithKey(message.body, messageKey, associatedData) }
+}
+
+function trySkippedMessageKeys(
+  crypto: CryptoManager,
+  state: RatchetState,
+  message: RatchetMessage,
+  associatedData: string,
+): string | null {
+  const headerKeys = new Set(Object.keys(state.skipped).map((key) => key.slice(0, key.lastIndexOf(":"))))
+
+  for (const headerKey of headerKeys) {
+    const header = tryDecryptHeader(crypto, headerKey, message.header)
+    if (!header) continue
+
+    const key = `${headerKey}:${header.n}`
+    const messageKey = state.skipped[key]
+    if (!messageKey) return null
+
+    const plaintext = crypto.decryptWithKey(message.body, messageKey, associatedData)
+    delete state.skipped[key]
+    return plaintext
+  }
+
+  return null
+}
+
+function decryptHeader(
+  crypto: CryptoManager,
+  state: RatchetState,
+  encryptedHeader: string,
+): { header: RatchetHeader; isNextChain: boolean } {
+  if (state.HKr) {
+    const header = tryDecryptHeader(crypto, state.HKr, encryptedHeader)
+    if (header) return { header, isNextChain: false }
+  }
+
+  const header = tryDecryptHeader(crypto, state.NHKr, encryptedHeader)
+  if (header) return { header, isNextChain: true }
+
+  throw new Error("Cannot decrypt ratchet header")
+}
+
+function tryDecryptHeader(crypto: CryptoManager, headerKey: string, encryptedHeader: string): RatchetHeader | null {
+  try {
+    return JSON.parse(crypto.decryptWithKey(encryptedHeader, headerKey))
+  } catch {
+    return null
+  }
+}
+
+function skipMessageKeys(crypto: CryptoManager, state: RatchetState, until: number): void {
+  if (state.Nr + MAX_SKIP < until) {
+    throw new Error("Too many skipped messages")
+  }
+
+  if (!state.CKr || !state.HKr) return
+
+  while (state.Nr < until) {
+    const { chainKey, messageKey } = crypto.ratchetChainKey(state.CKr)
+    state.CKr = chainKey
+    state.skipped[`${state.HKr}:${state.Nr}`] = messageKey
+    state.Nr += 1
+  }
+
+  // Forget the oldest keys first, those messages are most likely lost for good
+  const keys = Object.keys(state.skipped)
+  for (let i = 0; i < keys.length - MAX_SKIPPED_KEYS; i++) {
+    delete state.skipped[keys[i]]
+  }
+}
+
+function dhRatchet(crypto: CryptoManager, state: RatchetState, header: RatchetHeader): void {
+  state.PN = state.Ns
+  state.Ns = 0
+  state.Nr = 0
+  state.HKs = state.NHKs
+  state.HKr = state.NHKr
+  state.DHr = header.dh
+
+  const receiving = kdfRootKey(crypto, state.RK, crypto.computeSharedSecret(state.DHs.privateKey, state.DHr))
+  state.RK = receiving.rootKey
+  state.CKr = receiving.chainKey
+  state.NHKr = receiving.headerKey
+
+  state.DHs = crypto.generateKeyPair()
+
+  const sending = kdfRootKey(crypto, state.RK, crypto.computeSharedSecret(state.DHs.privateKey, state.DHr))
+  state.RK = sending.rootKey
+  state.CKs = sending.chainKey
+  state.NHKs = sending.headerKey
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return { ...state, DHs: { ...state.DHs }, skipped: { ...state.skipped } }
+}
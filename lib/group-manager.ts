@@ -0,0 +1,530 @@
+import type { CryptoManager } from "./crypto"
+import type { StorageManager } from "./storage"
+import { canonicalJson, createLock } from "./utils"
+import type {
+  Contact,
+  Group,
+  GroupInvitation,
+  GroupInvite,
+  GroupLog,
+  GroupOperation,
+  GroupRole,
+  KeyPair,
+  User,
+} from "./types"
+
+// Content of a group_event network message, sent pairwise to one member or invitee
+export interface GroupEvent {
+  invite?: GroupInvite // Inviter -> invitee
+  join?: GroupInvite // Invitee -> inviter, accepting the invite
+  decline?: GroupInvite // Invitee -> inviter
+  update?: GroupLog // Inviter -> new member, the group's log as it was when they were added
+  operation?: GroupOperation // Actor -> members, including the member removed
+  sync?: GroupSync // Member -> member, asking for the operations it misses
+  missed?: GroupOperation[] // Member -> member, the answer to a sync, made by any member
+  members?: MemberProfile[] // Members the receiver may not know yet, to introduce them
+}
+
+// The operations of the group the sender has, the receiver answers with the others
+export interface GroupSync {
+  groupId: string
+  operationIds: string[]
+}
+
+// No signing key: a member could vouch for another's with its own, members announce theirs to each other instead
+export type MemberProfile = Pick<User, "id" | "username" | "publicKey">
+
+export type GroupChange = Pick<GroupOperation, "type" | "targetId" | "value">
+
+const INVITE_LIFETIME = 7 * 24 * 60 * 60 * 1000 // Invites and invite codes expire after a week
+const INVITE_CODE_PREFIX = "securechat-invite:"
+
+// Operations waiting for their actor's signing key are held for this many actors, and this many each; the oldest
+// make way
+const MAX_HELD_OPERATIONS = 100
+
+const ROLE_RANK: Record<GroupRole, number> = { member: 0, admin: 1, owner: 2 }
+
+export function getSignedInviteData(invite: GroupInvite): string {
+  const data: Partial<GroupInvite> = { ...invite }
+  delete data.signature
+  return canonicalJson(data)
+}
+
+export function getSignedOperationData(operation: GroupOperation): string {
+  const data: Partial<GroupOperation> = { ...operation }
+  delete data.signature
+  return canonicalJson(data)
+}
+
+export function getMemberRole(group: Group, memberId: string): GroupRole | null {
+  if (!group.members.includes(memberId)) return null
+  return group.roles?.[memberId] ?? (memberId === group.createdBy ? "owner" : "member")
+}
+
+export function isGroupAdmin(group: Group, memberId: string): boolean {
+  const role = getMemberRole(group, memberId)
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK.admin
+}
+
+export function canAddMembers(group: Group, memberId: string): boolean {
+  return isGroupAdmin(group, memberId) || (!group.requiresInvite && group.members.includes(memberId))
+}
+
+// Operations made on the same version are concurrent, every member applies them in the order of their actors' ids
+export function compareOperations(a: GroupOperation, b: GroupOperation): number {
+  if (a.version !== b.version) return a.version - b.version
+  if (a.actorId !== b.actorId) return a.actorId < b.actorId ? -1 : 1
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+// Made on a version we have not reached, the operations in between have to be fetched before it is applied
+export function hasMissedOperations(group: Group, operation: GroupOperation): boolean {
+  return operation.version > (group.version ?? 0)
+}
+
+// Admins manage members and settings, only the owner hands out and takes back the admin role.
+// Anyone may remove themselves, removing others needs a higher role than theirs.
+export function isOperationAllowed(group: Group, operation: GroupOperation): boolean {
+  if (operation.groupId !== group.id) return false
+
+  const role = getMemberRole(group, operation.actorId)
+  if (!role) return false
+
+  const targetRole = operation.targetId ? getMemberRole(group, operation.targetId) : null
+  const isAdmin = ROLE_RANK[role] >= ROLE_RANK.admin
+
+  switch (operation.type) {
+    case "add":
+      return !!operation.targetId && !targetRole && canAddMembers(group, operation.actorId)
+    case "remove":
+      return (
+        !!targetRole &&
+        (operation.targetId === operation.actorId || (isAdmin && ROLE_RANK[role] > ROLE_RANK[targetRole]))
+      )
+    case "promote":
+      return role === "owner" && targetRole === "member"
+    case "demote":
+      return role === "owner" && targetRole === "admin"
+    case "rename":
+      return isAdmin && typeof operation.value === "string" && operation.value.trim().length > 0
+    case "set_description":
+      return isAdmin && typeof operation.value === "string"
+    case "set_invite_only":
+    case "set_private":
+      return isAdmin && typeof operation.value === "boolean"
+    case "set_message_ttl":
+      return isAdmin && typeof operation.value === "number" && operation.value >= 0
+    default:
+      return false
+  }
+}
+
+// Assumes the operation was allowed
+function applyGroupOperation(group: Group, operation: GroupOperation): Group {
+  const roles: Record<string, GroupRole> = {}
+  for (const memberId of group.members) {
+    roles[memberId] = getMemberRole(group, memberId)!
+  }
+
+  const updated: Group = { ...group, roles, version: Math.max(group.version ?? 0, operation.version) + 1 }
+  const targetId = operation.targetId!
+
+  switch (operation.type) {
+    case "add":
+      updated.members = [...group.members, targetId]
+      roles[targetId] = "member"
+      break
+    case "remove": {
+      const wasOwner = roles[targetId] === "owner"
+      updated.members = group.members.filter((id) => id !== targetId)
+      delete roles[targetId]
+
+      // A leaving owner hands the group to the first admin, or the first member when there is none
+      if (wasOwner) {
+        const successor = updated.members.find((id) => roles[id] === "admin") ?? updated.members[0]
+        if (successor) roles[successor] = "owner"
+      }
+      break
+    }
+    case "promote":
+      roles[targetId] = "admin"
+      break
+    case "demote":
+      roles[targetId] = "member"
+      break
+    case "rename":
+      updated.name = (operation.value as string).trim()
+      break
+    case "set_description":
+      updated.description = (operation.value as string).trim() || undefined
+      break
+    case "set_invite_only":
+      updated.requiresInvite = operation.value as boolean
+      break
+    case "set_private":
+      updated.isPrivate = operation.value as boolean
+      break
+    case "set_message_ttl":
+      updated.messageTTL = (operation.value as number) || undefined
+      break
+  }
+
+  return updated
+}
+
+// The log's operations applied to its base in order, each checked against the group as it is at that point.
+// Those no longer allowed there, after a concurrent operation ordered before them, are left out.
+function replayLog(log: GroupLog): GroupLog & { group: Group } {
+  let group = log.base
+  const operations: GroupOperation[] = []
+  for (const operation of [...log.operations].sort(compareOperations)) {
+    if (!isOperationAllowed(group, operation)) continue
+
+    group = applyGroupOperation(group, operation)
+    operations.push(operation)
+  }
+  return { base: log.base, operations, group }
+}
+
+// Group state and invites; sending them to other members is up to the MessageManager
+export class GroupManager {
+  // Logs are read, replayed and written back one operation at a time per group
+  private withLock = createLock()
+  // Operations from a sync by members we have no signing key for yet, by actor id
+  private heldOperations: Map<string, GroupOperation[]> = new Map()
+
+  constructor(
+    private crypto: CryptoManager,
+    private storage: StorageManager,
+  ) {}
+
+  async createGroup(user: User, name: string, description?: string): Promise<Group> {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      throw new Error("Group name is required")
+    }
+
+    const group: Group = {
+      id: this.crypto.generateSecureId(),
+      name: trimmedName,
+      description: description?.trim() || undefined,
+      publicKey: this.crypto.generateSecureId(),
+      members: [user.id],
+      createdBy: user.id,
+      createdAt: new Date(),
+      isPrivate: false,
+      requiresInvite: true,
+      roles: { [user.id]: "owner" },
+      version: 0,
+    }
+
+    await this.storage.saveGroup(group)
+    await this.storage.saveGroupLog(group.id, { base: group, operations: [] })
+    return group
+  }
+
+  // Groups from before operation logs, or restored from a backup, start theirs from the group as it is
+  async getLog(group: Group): Promise<GroupLog> {
+    return (await this.storage.getGroupLog(group.id)) ?? { base: group, operations: [] }
+  }
+
+  // Without an invitee the invite is an open code any contact of ours can use until it expires
+  createInvite(group: Group, user: User, keyPair: KeyPair, inviteeId?: string): GroupInvite {
+    if (!keyPair.signingPrivateKey) {
+      throw new Error("Signing key required for invites")
+    }
+
+    if (!group.members.includes(user.id)) {
+      throw new Error("Only members can invite to a group")
+    }
+
+    if (!canAddMembers(group, user.id)) {
+      throw new Error("Only admins can invite to this group")
+    }
+
+    if (!inviteeId && group.isPrivate) {
+      throw new Error("Private groups only accept invites to a contact, not invite codes")
+    }
+
+    const invite: GroupInvite = {
+      id: this.crypto.generateSecureId(),
+      groupId: group.id,
+      groupName: group.name,
+      inviterId: user.id,
+      inviteeId,
+      expiresAt: Date.now() + INVITE_LIFETIME,
+      signature: "",
+    }
+
+    return { ...invite, signature: this.crypto.signMessage(getSignedInviteData(invite), keyPair.signingPrivateKey) }
+  }
+
+  // Base64 of the UTF-8 JSON, group names may contain any character
+  encodeInviteCode(invite: GroupInvite): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(invite))
+    return INVITE_CODE_PREFIX + btoa(String.fromCharCode(...bytes))
+  }
+
+  decodeInviteCode(code: string): GroupInvite {
+    const trimmedCode = code.trim()
+    if (!trimmedCode.startsWith(INVITE_CODE_PREFIX)) {
+      throw new Error("Not a group invite code")
+    }
+
+    try {
+      const binary = atob(trimmedCode.slice(INVITE_CODE_PREFIX.length))
+      return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))))
+    } catch {
+      throw new Error("Invite code is damaged")
+    }
+  }
+
+  isInviteValid(invite: GroupInvite, inviterSigningKey: string): boolean {
+    return (
+      invite.expiresAt > Date.now() &&
+      this.crypto.verifySignature(getSignedInviteData(invite), invite.signature, inviterSigningKey)
+    )
+  }
+
+  // An invite received from a contact, kept until we accept or decline it
+  async receiveInvite(invite: GroupInvite, inviter: Contact): Promise<GroupInvitation | null> {
+    if (invite.inviterId !== inviter.id || !inviter.signingPublicKey) return null
+    if (!this.isInviteValid(invite, inviter.signingPublicKey)) return null
+    if (await this.storage.getGroup(invite.groupId)) return null
+
+    const invitation: GroupInvitation = { invite, status: "pending", receivedAt: new Date() }
+    await this.storage.saveGroupInvitation(invitation)
+    return invitation
+  }
+
+  async setInvitationStatus(inviteId: string, status: GroupInvitation["status"]): Promise<GroupInvitation> {
+    const invitation = await this.storage.getGroupInvitation(inviteId)
+    if (!invitation) {
+      throw new Error("Invitation not found")
+    }
+
+    const updated = { ...invitation, status }
+    await this.storage.saveGroupInvitation(updated)
+    return updated
+  }
+
+  // A join request for an invite we signed. Returns our signed operation adding the member, or null if refused.
+  async admitMember(
+    invite: GroupInvite,
+    user: User,
+    keyPair: KeyPair,
+    memberId: string,
+  ): Promise<{ group: Group; operation: GroupOperation } | null> {
+    if (invite.inviterId !== user.id || !keyPair.signingPublicKey) return null
+    if (!this.isInviteValid(invite, keyPair.signingPublicKey)) return null
+    if (invite.inviteeId && invite.inviteeId !== memberId) return null
+
+    // Permissions are checked again, they may have changed since the invite was made
+    const group = await this.storage.getGroup(invite.groupId)
+    if (!group || !canAddMembers(group, user.id) || group.members.includes(memberId)) return null
+    if (!invite.inviteeId && group.isPrivate) return null
+
+    const operation = this.createOperation(group, user, keyPair, { type: "add", targetId: memberId })
+    const updated = await this.applyOperation(operation, keyPair.signingPublicKey, user)
+    return updated ? { group: updated, operation } : null
+  }
+
+  createOperation(group: Group, user: User, keyPair: KeyPair, change: GroupChange): GroupOperation {
+    if (!keyPair.signingPrivateKey) {
+      throw new Error("Signing key required for group operations")
+    }
+
+    const operation: GroupOperation = {
+      id: this.crypto.generateSecureId(),
+      groupId: group.id,
+      actorId: user.id,
+      ...change,
+      version: group.version ?? 0,
+      timestamp: Date.now(),
+      signature: "",
+    }
+
+    return {
+      ...operation,
+      signature: this.crypto.signMessage(getSignedOperationData(operation), keyPair.signingPrivateKey),
+    }
+  }
+
+  // Checks the actor's signature, then replays our log with the operation. Returns the new group, or null if the
+  // operation was refused, is one we have, or follows operations we missed. Groups we were removed from are deleted.
+  async applyOperation(operation: GroupOperation, actorSigningKey: string, user: User): Promise<Group | null> {
+    if (!this.crypto.verifySignature(getSignedOperationData(operation), operation.signature, actorSigningKey)) {
+      return null
+    }
+
+    return this.withLock(operation.groupId, async () => {
+      const group = await this.storage.getGroup(operation.groupId)
+      if (!group || hasMissedOperations(group, operation)) return null
+      return await this.mergeOperations(group, [operation], user)
+    })
+  }
+
+  // Operations a member sent for our sync, each checked against the signing key its actor gave us itself. Those of
+  // actors whose key we do not have yet are held until it arrives, see releaseHeldOperations.
+  async applyMissedOperations(operations: GroupOperation[], user: User): Promise<Group | null> {
+    const groupId = operations[0]?.groupId
+    if (!groupId) return null
+
+    const verified: GroupOperation[] = []
+    for (const operation of operations) {
+      const signingKey =
+        operation.actorId === user.id
+          ? user.signingPublicKey
+          : (await this.storage.getContact(operation.actorId))?.signingPublicKey
+      if (!signingKey) {
+        this.holdOperation(operation)
+      } else if (this.crypto.verifySignature(getSignedOperationData(operation), operation.signature, signingKey)) {
+        verified.push(operation)
+      }
+    }
+
+    return this.withLock(groupId, async () => {
+      const group = await this.storage.getGroup(groupId)
+      return group ? await this.mergeOperations(group, verified, user) : null
+    })
+  }
+
+  private holdOperation(operation: GroupOperation): void {
+    if (!this.heldOperations.has(operation.actorId) && this.heldOperations.size >= MAX_HELD_OPERATIONS) {
+      this.heldOperations.delete(this.heldOperations.keys().next().value!)
+    }
+    const held = (this.heldOperations.get(operation.actorId) ?? []).filter((item) => item.id !== operation.id)
+    this.heldOperations.set(operation.actorId, [...held, operation].slice(-MAX_HELD_OPERATIONS))
+  }
+
+  // Once we have the actor's signing key, its held operations are checked and applied. Returns the groups changed.
+  async releaseHeldOperations(actorId: string, user: User): Promise<Group[]> {
+    const held = this.heldOperations.get(actorId) ?? []
+    this.heldOperations.delete(actorId)
+
+    const changed: Group[] = []
+    for (const groupId of new Set(held.map((operation) => operation.groupId))) {
+      const group = await this.applyMissedOperations(
+        held.filter((operation) => operation.groupId === groupId),
+        user,
+      )
+      if (group) changed.push(group)
+    }
+    return changed
+  }
+
+  // Replays the log with the operations we do not have yet added. Null when none of them could be applied.
+  private async mergeOperations(group: Group, operations: GroupOperation[], user: User): Promise<Group | null> {
+    const log = await this.getLog(group)
+    const knownIds = new Set(log.operations.map((operation) => operation.id))
+    const added = operations.filter((operation) => operation.groupId === group.id && !knownIds.has(operation.id))
+
+    const replayed = replayLog({ base: log.base, operations: [...log.operations, ...added] })
+    if (!added.some((operation) => replayed.operations.includes(operation))) return null
+
+    if (replayed.group.members.includes(user.id)) {
+      await this.storage.saveGroup(replayed.group)
+      await this.storage.saveGroupLog(group.id, { base: log.base, operations: replayed.operations })
+    } else {
+      await this.storage.removeGroup(group.id)
+    }
+
+    return replayed.group
+  }
+
+  async createSync(group: Group): Promise<GroupSync> {
+    const log = await this.getLog(group)
+    return { groupId: group.id, operationIds: log.operations.map((operation) => operation.id) }
+  }
+
+  // The operations the sync shows the member misses. A removed member gets those up to its removal, to learn of it.
+  async getMissedOperations(sync: GroupSync, memberId: string): Promise<GroupOperation[]> {
+    const group = await this.storage.getGroup(sync.groupId)
+    if (!group) return []
+
+    const { operations } = await this.getLog(group)
+    const removal = [...operations]
+      .reverse()
+      .find((operation) => operation.type === "remove" && operation.targetId === memberId)
+    const isMember = group.members.includes(memberId)
+    if (!isMember && !removal) return []
+
+    const knownIds = new Set(sync.operationIds)
+    return operations.filter(
+      (operation) => !knownIds.has(operation.id) && (isMember || compareOperations(operation, removal!) <= 0),
+    )
+  }
+
+  // Takes the group's log from the member who admitted us, only for an invite we accepted
+  async applyUpdate(update: GroupLog, senderId: string, user: User): Promise<boolean> {
+    const { base: sent } = update
+    if (await this.storage.getGroup(sent.id)) return false
+
+    const invitation = (await this.storage.getAllGroupInvitations()).find(
+      (candidate) => candidate.invite.groupId === sent.id && candidate.status === "accepted",
+    )
+    if (!invitation || invitation.invite.inviterId !== senderId) return false
+
+    const base: Group = {
+      id: sent.id,
+      name: sent.name,
+      description: sent.description,
+      publicKey: sent.publicKey,
+      members: sent.members,
+      createdBy: sent.createdBy,
+      createdAt: new Date(sent.createdAt),
+      isPrivate: sent.isPrivate,
+      requiresInvite: sent.requiresInvite,
+      roles: sent.roles,
+      version: sent.version,
+      messageTTL: sent.messageTTL,
+    }
+    const { operations, group } = replayLog({ base, operations: update.operations })
+    if (!group.members.includes(user.id)) return false
+
+    await this.storage.saveGroup(group)
+    await this.storage.saveGroupLog(group.id, { base, operations })
+    await this.storage.removeGroupInvitation(invitation.invite.id)
+    return true
+  }
+
+  // Keys of the members we know, ourselves included, so the receivers of an update can reach each other
+  async getMemberProfiles(group: Group, user: User): Promise<MemberProfile[]> {
+    const profiles: MemberProfile[] = [{ id: user.id, username: user.username, publicKey: user.publicKey }]
+
+    for (const memberId of group.members) {
+      const contact = memberId !== user.id ? await this.storage.getContact(memberId) : null
+      if (contact) {
+        profiles.push({ id: contact.id, username: contact.username, publicKey: contact.publicKey })
+      }
+    }
+
+    return profiles
+  }
+
+  // Members we have no contact for are added as unverified contacts, vouched for by the member who sent them, without
+  // a signing key until they announce it themselves. Contacts we already have keep their keys. Returns those added.
+  async introduceMembers(group: Group, profiles: MemberProfile[], user: User): Promise<Contact[]> {
+    const introduced: Contact[] = []
+    for (const profile of profiles) {
+      if (profile.id === user.id || !group.members.includes(profile.id)) continue
+      if (this.crypto.generateUserId(profile.publicKey) !== profile.id) continue
+      if (await this.storage.getContact(profile.id)) continue
+
+      const contact: Contact = {
+        id: profile.id,
+        username: profile.username,
+        publicKey: profile.publicKey,
+        isOnline: false,
+        lastSeen: new Date(),
+        isBlocked: false,
+        addedAt: new Date(),
+        isVerified: false,
+      }
+      await this.storage.saveContact(contact)
+      introduced.push(contact)
+    }
+    return introduced
+  }
+}
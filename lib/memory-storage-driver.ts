@@ -0,0 +1,103 @@
+import localforage from "localforage"
+
+export const MEMORY_DRIVER = "memoryStorageDriver"
+
+// database name -> store name -> key -> value
+const databases: Map<string, Map<string, Map<string, unknown>>> = new Map()
+
+function getStore(instance: unknown): Map<string, unknown> {
+  const { name, storeName } = (instance as { _dbInfo: LocalForageDbInstanceOptions })._dbInfo
+  const dbName = name ?? "localforage"
+  const store = storeName ?? "keyvaluepairs"
+
+  if (!databases.has(dbName)) {
+    databases.set(dbName, new Map())
+  }
+
+  const database = databases.get(dbName)!
+  if (!database.has(store)) {
+    database.set(store, new Map())
+  }
+
+  return database.get(store)!
+}
+
+// Values are cloned on the way in and out, like IndexedDB's structured clone
+function clone<T>(value: T): T {
+  return value === undefined || value === null ? value : structuredClone(value)
+}
+
+// localforage driver keeping everything in process memory, used where no browser storage exists.
+// Only the promise API is implemented, callbacks are ignored.
+const memoryStorageDriver: LocalForageDriver = {
+  _driver: MEMORY_DRIVER,
+  _support: true,
+
+  _initStorage(options: LocalForageOptions) {
+    ;(this as unknown as { _dbInfo: LocalForageDbInstanceOptions })._dbInfo = {
+      name: options.name,
+      storeName: options.storeName,
+    }
+  },
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const store = getStore(this)
+    return store.has(key) ? clone(store.get(key) as T) : null
+  },
+
+  async setItem<T>(key: string, value: T): Promise<T> {
+    getStore(this).set(key, clone(value))
+    return value
+  },
+
+  async removeItem(key: string): Promise<void> {
+    getStore(this).delete(key)
+  },
+
+  async clear(): Promise<void> {
+    getStore(this).clear()
+  },
+
+  async length(): Promise<number> {
+    return getStore(this).size
+  },
+
+  async key(keyIndex: number): Promise<string> {
+    return Array.from(getStore(this).keys())[keyIndex]
+  },
+
+  async keys(): Promise<string[]> {
+    return Array.from(getStore(this).keys())
+  },
+
+  async iterate<T, U>(iteratee: (value: T, key: string, iterationNumber: number) => U): Promise<U> {
+    let iterationNumber = 1
+    // Snapshot first so the iteratee may modify the store
+    for (const [key, value] of Array.from(getStore(this).entries())) {
+      const result = iteratee(clone(value as T), key, iterationNumber++)
+      if (result !== undefined) {
+        return result
+      }
+    }
+    return undefined as U
+  },
+
+  async dropInstance(options?: LocalForageDbInstanceOptions): Promise<void> {
+    if (!options?.name) return
+
+    if (options.storeName) {
+      databases.get(options.name)?.delete(options.storeName)
+    } else {
+      databases.delete(options.name)
+    }
+  },
+}
+
+let definePromise: Promise<void> | null = null
+
+export function defineMemoryStorageDriver(): Promise<void> {
+  if (!definePromise) {
+    definePromise = localforage.defineDriver(memoryStorageDriver)
+  }
+  return definePromise
+}
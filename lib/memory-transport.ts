@@ -0,0 +1,229 @@
+import type { NetworkMessage } from "./p2p-network"
+import { BaseTransport } from "./transport"
+
+export interface MemoryNetworkOptions {
+  latency?: { min: number; max: number } // Per-frame delivery delay in ms, drawn uniformly
+  lossRate?: number // Probability [0, 1] that a frame is silently dropped
+  reorderRate?: number // Probability [0, 1] that a frame is held back and overtaken by later ones
+  reorderDelay?: number // Extra delay in ms for held back frames
+  seed?: number // Seed for loss and reordering decisions, for reproducible runs
+}
+
+export interface MemoryNetworkStats {
+  sent: number
+  delivered: number
+  dropped: number
+  blocked: number // Refused because sender and receiver are partitioned
+}
+
+// Small deterministic PRNG (mulberry32) so simulated loss is reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Shared medium for MemoryTransports living in the same process
+export class MemoryNetwork {
+  private endpoints: Map<string, MemoryTransport> = new Map()
+  private partitions: Map<string, number> = new Map()
+  private options: Required<MemoryNetworkOptions>
+  private random: () => number
+  private inFlight = 0
+  private stats: MemoryNetworkStats = { sent: 0, delivered: 0, dropped: 0, blocked: 0 }
+
+  constructor(options: MemoryNetworkOptions = {}) {
+    this.options = {
+      latency: { min: 0, max: 0 },
+      lossRate: 0,
+      reorderRate: 0,
+      reorderDelay: 50,
+      seed: Date.now(),
+      ...options,
+    }
+    this.random = createRandom(this.options.seed)
+  }
+
+  createTransport(): MemoryTransport {
+    return new MemoryTransport(this)
+  }
+
+  configure(options: Omit<MemoryNetworkOptions, "seed">): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  attach(peerId: string, transport: MemoryTransport): void {
+    if (this.endpoints.has(peerId)) {
+      throw new Error(`Peer ${peerId} is already attached to this network`)
+    }
+
+    this.endpoints.set(peerId, transport)
+    this.endpoints.forEach((other, otherId) => {
+      if (otherId === peerId || !this.canReach(peerId, otherId)) return
+      other.handlePeerUp(peerId)
+      transport.handlePeerUp(otherId)
+    })
+  }
+
+  detach(peerId: string): void {
+    if (!this.endpoints.delete(peerId)) return
+
+    this.endpoints.forEach((other, otherId) => {
+      if (this.canReach(peerId, otherId)) other.handlePeerDown(peerId)
+    })
+    this.partitions.delete(peerId)
+  }
+
+  // Splits the network, peers can only reach peers in the same group. Unlisted peers share one group.
+  partition(groups: string[][]): void {
+    const before = this.getLinks()
+
+    this.partitions.clear()
+    groups.forEach((group, index) => group.forEach((peerId) => this.partitions.set(peerId, index + 1)))
+
+    this.notifyLinkChanges(before)
+  }
+
+  heal(): void {
+    this.partition([])
+  }
+
+  canReach(from: string, to: string): boolean {
+    return (this.partitions.get(from) ?? 0) === (this.partitions.get(to) ?? 0)
+  }
+
+  getPeerIds(): string[] {
+    return Array.from(this.endpoints.keys())
+  }
+
+  getStats(): MemoryNetworkStats {
+    return { ...this.stats }
+  }
+
+  // Resolves once no frame is waiting for delivery
+  async drain(): Promise<void> {
+    while (this.inFlight > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 1))
+    }
+  }
+
+  deliver(from: string, to: string, message: NetworkMessage): boolean {
+    const target = this.endpoints.get(to)
+    if (!target || !this.endpoints.has(from)) return false
+
+    if (!this.canReach(from, to)) {
+      this.stats.blocked++
+      return false
+    }
+
+    this.stats.sent++
+
+    // A lost frame looks sent to the sender, like on a real lossy link
+    if (this.random() < this.options.lossRate) {
+      this.stats.dropped++
+      return true
+    }
+
+    const { min, max } = this.options.latency
+    let delay = min + this.random() * (max - min)
+    if (this.random() < this.options.reorderRate) {
+      delay += this.options.reorderDelay
+    }
+
+    // Serialize like a real wire would, so receivers never share objects with the sender
+    const frame = JSON.stringify(message)
+    this.inFlight++
+    setTimeout(() => {
+      this.inFlight--
+
+      // The link may have been cut or the peer gone while the frame was travelling
+      if (this.endpoints.get(to) !== target || !this.canReach(from, to)) {
+        this.stats.dropped++
+        return
+      }
+
+      this.stats.delivered++
+      target.handleFrame(JSON.parse(frame), from)
+    }, delay)
+
+    return true
+  }
+
+  private getLinks(): Set<string> {
+    const links = new Set<string>()
+    const peerIds = this.getPeerIds()
+    peerIds.forEach((a) =>
+      peerIds.forEach((b) => {
+        if (a !== b && this.canReach(a, b)) links.add(`${a}|${b}`)
+      }),
+    )
+    return links
+  }
+
+  private notifyLinkChanges(before: Set<string>): void {
+    const after = this.getLinks()
+
+    before.forEach((link) => {
+      if (after.has(link)) return
+      const [a, b] = link.split("|")
+      this.endpoints.get(a)?.handlePeerDown(b)
+    })
+
+    after.forEach((link) => {
+      if (before.has(link)) return
+      const [a, b] = link.split("|")
+      this.endpoints.get(a)?.handlePeerUp(b)
+    })
+  }
+}
+
+export class MemoryTransport extends BaseTransport {
+  readonly name = "memory"
+
+  constructor(private network: MemoryNetwork) {
+    super()
+  }
+
+  async start(localPeerId: string): Promise<void> {
+    await super.start(localPeerId)
+    this.network.attach(localPeerId, this)
+  }
+
+  send(peerId: string, message: NetworkMessage): boolean {
+    if (!this.localPeerId) return false
+    return this.network.deliver(this.localPeerId, peerId, message)
+  }
+
+  broadcast(message: NetworkMessage): number {
+    return this.getPeers().filter((peerId) => this.send(peerId, message)).length
+  }
+
+  getPeers(): string[] {
+    return this.network
+      .getPeerIds()
+      .filter((peerId) => peerId !== this.localPeerId && this.network.canReach(this.localPeerId!, peerId))
+  }
+
+  close(): void {
+    if (this.localPeerId) {
+      this.network.detach(this.localPeerId)
+    }
+  }
+
+  handleFrame(message: NetworkMessage, fromPeerId: string): void {
+    this.emitFrame(message, fromPeerId)
+  }
+
+  handlePeerUp(peerId: string): void {
+    this.emitPeerUp(peerId)
+  }
+
+  handlePeerDown(peerId: string): void {
+    this.emitPeerDown(peerId)
+  }
+}
@@ -0,0 +1,148 @@
+import type { StorageManager } from "./storage"
+import type { Message, VectorClock } from "./types"
+import { createLock } from "./utils"
+
+// What we know of a chat's history: per member, the latest message up to which nothing is missing, and the
+// messages that arrived before one of their predecessors
+export interface ChatClock {
+  chatId: string
+  delivered: VectorClock
+  pending: { messageId: string; senderId: string; clock: VectorClock }[]
+}
+
+const MAX_CLOCK_ENTRIES = 1024
+
+export function isValidClock(value: unknown): value is VectorClock {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false
+
+  const entries = Object.values(value)
+  return entries.length <= MAX_CLOCK_ENTRIES && entries.every((count) => Number.isInteger(count) && count >= 0)
+}
+
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged = { ...a }
+  for (const [memberId, count] of Object.entries(b)) {
+    merged[memberId] = Math.max(merged[memberId] ?? 0, count)
+  }
+  return merged
+}
+
+// Grows with every message a sender had seen, so it is larger for any message sent after another was seen
+export function getLogicalTime(clock: VectorClock): number {
+  return Object.values(clock).reduce((sum, count) => sum + count, 0)
+}
+
+// Causal order for messages with clocks, concurrent ones by logical time and then sender id. Messages from
+// older clients without a clock fall back to the sender's wall clock.
+export function compareMessages(a: Message, b: Message): number {
+  const byTimestamp = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  if (!a.clock || !b.clock) return byTimestamp
+
+  const byLogicalTime = getLogicalTime(a.clock) - getLogicalTime(b.clock)
+  if (byLogicalTime !== 0) return byLogicalTime
+  if (a.senderId !== b.senderId) return a.senderId < b.senderId ? -1 : 1
+  return byTimestamp
+}
+
+export class MessageClockManager {
+  // Clock updates read and write the stored clock, one at a time per chat so none is lost
+  private withLock = createLock()
+
+  constructor(private storage: StorageManager) {}
+
+  // The clock of our next message in the chat: everything we have seen, and one more of ours
+  async tick(chatId: string, userId: string): Promise<VectorClock> {
+    return this.withLock(chatId, async () => {
+      const chatClock = await this.getChatClock(chatId)
+      chatClock.delivered = { ...chatClock.delivered, [userId]: (chatClock.delivered[userId] ?? 0) + 1 }
+      await this.storage.saveChatClock(chatClock)
+      return { ...chatClock.delivered }
+    })
+  }
+
+  // Records a received message. Returns whether it arrived before one of its predecessors, and the ids of earlier
+  // such messages that are no longer missing anything.
+  async receive(chatId: string, message: Message): Promise<{ isEarly: boolean; completedIds: string[] }> {
+    const clock = message.clock
+    if (!clock?.[message.senderId]) return { isEarly: false, completedIds: [] }
+
+    return this.withLock(chatId, () => this.receiveClock(chatId, message.id, message.senderId, clock))
+  }
+
+  private async receiveClock(
+    chatId: string,
+    messageId: string,
+    senderId: string,
+    clock: VectorClock,
+  ): Promise<{ isEarly: boolean; completedIds: string[] }> {
+    const chatClock = await this.getChatClock(chatId)
+    const { delivered } = chatClock
+
+    // Members we first hear of now: what they sent before is history from before we were in the chat
+    for (const [memberId, count] of Object.entries(clock)) {
+      if (delivered[memberId] === undefined) {
+        delivered[memberId] = memberId === senderId ? count - 1 : count
+      }
+    }
+
+    const completedIds: string[] = []
+    let isEarly = false
+
+    if (clock[senderId] > delivered[senderId]) {
+      if (isDeliverable(delivered, senderId, clock)) {
+        delivered[senderId] = clock[senderId]
+        completedIds.push(...this.deliverPending(chatClock))
+      } else {
+        isEarly = true
+        chatClock.pending.push({ messageId, senderId, clock })
+      }
+    }
+
+    await this.storage.saveChatClock(chatClock)
+    return { isEarly, completedIds }
+  }
+
+  // Pending messages whose predecessors are all here now, repeated since each one may complete others
+  private deliverPending(chatClock: ChatClock): string[] {
+    const completedIds: string[] = []
+    let progressed = true
+
+    while (progressed) {
+      progressed = false
+      for (const pending of [...chatClock.pending]) {
+        const isStale = pending.clock[pending.senderId] <= chatClock.delivered[pending.senderId]
+        if (!isStale && !isDeliverable(chatClock.delivered, pending.senderId, pending.clock)) continue
+
+        chatClock.delivered[pending.senderId] = Math.max(
+          chatClock.delivered[pending.senderId],
+          pending.clock[pending.senderId],
+        )
+        chatClock.pending = chatClock.pending.filter((candidate) => candidate !== pending)
+        completedIds.push(pending.messageId)
+        progressed = true
+      }
+    }
+    return completedIds
+  }
+
+  // Chats from before clocks were kept, or restored from a backup, start from the clocks of their messages
+  private async getChatClock(chatId: string): Promise<ChatClock> {
+    const stored = await this.storage.getChatClock(chatId)
+    if (stored) return stored
+
+    const messages = await this.storage.getMessagesForChat(chatId)
+    const delivered = messages.reduce<VectorClock>(
+      (clock, message) => (message.clock ? mergeClocks(clock, message.clock) : clock),
+      {},
+    )
+    return { chatId, delivered, pending: [] }
+  }
+}
+
+// The sender's next message, after everything the sender had seen from the others
+function isDeliverable(delivered: VectorClock, senderId: string, clock: VectorClock): boolean {
+  return (
+    clock[senderId] === (delivered[senderId] ?? 0) + 1 &&
+    Object.entries(clock).every(([memberId, count]) => memberId === senderId || count <= (delivered[memberId] ?? 0))
+  )
+}
@@ -0,0 +1,42 @@
+import type { CryptoManager } from "./crypto"
+import type { ControlMessageType, NetworkMessage, P2PNetworkManager } from "./p2p-network"
+import type { SecurityManager } from "./security-utils"
+import type { StorageManager } from "./storage"
+import type { Contact, KeyPair, Message, User } from "./types"
+
+// A control message encrypted for us pairwise, from a contact we have not blocked, with its content decrypted
+export interface ControlMessage<T> {
+  type: ControlMessageType
+  contact: Contact
+  keyPair: KeyPair
+  content: T
+  isQueued: boolean // Held back by the sender while we were unreachable
+}
+
+// What the MessageManager shares with the managers handling receipts, message updates and attachment transfers
+export interface MessageContext {
+  crypto: CryptoManager
+  storage: StorageManager
+  security: SecurityManager
+  network: P2PNetworkManager
+  getCurrentUser(): User | null
+  // The direct chat's contact or the group
+  getChatId(message: Message): string
+  // Encrypted pairwise; false when the contact is unknown, blocked or unreachable
+  sendToContact(
+    contactId: string,
+    type: ControlMessageType,
+    content: unknown,
+    options?: Pick<NetworkMessage, "queued">,
+  ): Promise<boolean>
+  notifyMessageUpdated(message: Message): void
+  notifyOutboxChanged(): void
+}
+
+// Members of the message's chat, for a direct chat its two sides
+export async function isInChat(storage: StorageManager, message: Message, userId: string): Promise<boolean> {
+  if (message.groupId) {
+    return !!(await storage.getGroup(message.groupId))?.members.includes(userId)
+  }
+  return message.senderId === userId || message.recipientId === userId
+}
@@ -0,0 +1,36 @@
+import type { CryptoManager } from "./crypto"
+import type { Message, MessageEdit } from "./types"
+import { canonicalJson } from "./utils"
+
+export function getSignedEditData(edit: MessageEdit): string {
+  const data: Partial<MessageEdit> = { ...edit }
+  delete data.signature
+  return canonicalJson(data)
+}
+
+// Valid when signed with the message's sender's key
+export function isEditValid(crypto: CryptoManager, edit: MessageEdit, senderSigningKey: string): boolean {
+  return (
+    typeof edit.messageId === "string" &&
+    typeof edit.content === "string" &&
+    typeof edit.editedAt === "number" &&
+    typeof edit.signature === "string" &&
+    crypto.verifySignature(getSignedEditData(edit), edit.signature, senderSigningKey)
+  )
+}
+
+// The message with the edit's text; the text it replaces joins the revisions. Edits older than the message's latest
+// change nothing, and an edit the message already shows, sent again, adds no revision.
+export function applyEdit(message: Message, edit: MessageEdit): Message {
+  if (message.retraction) return message
+  if (message.edit && edit.editedAt <= message.edit.editedAt) return message
+  if (edit.content === message.content) return { ...message, edit }
+
+  const writtenAt = message.edit?.editedAt ?? new Date(message.timestamp).getTime()
+  return {
+    ...message,
+    content: edit.content,
+    edit,
+    revisions: [...(message.revisions ?? []), { content: message.content, timestamp: writtenAt }],
+  }
+}
@@ -0,0 +1,357 @@
+import type LocalForage from "localforage"
+import type { CryptoManager } from "./crypto"
+import type { KeyPair, Message } from "./types"
+import { createLock } from "./utils"
+
+// Where a message is in its chat's history, by the sender's time and then id
+export interface MessageCursor {
+  timestamp: number
+  id: string
+}
+
+export interface MessagePageOptions {
+  before?: MessageCursor // Only messages older than this one
+  since?: MessageCursor // Only this message and newer ones
+  limit?: number // The newest this many, all when left out
+}
+
+export interface MessagePage {
+  messages: Message[] // Oldest first
+  nextCursor: MessageCursor | null // Where the next older page starts, null when there is none
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const INDEX_KEY_SALT = "00".repeat(32)
+const INDEX_VERSION_KEY = "version"
+const INDEX_VERSION = 4
+const INDEX_LOCK = "index"
+const CHATS_KEY = "chats"
+const EXPIRY_KEY = "expiry"
+
+// A disappearing message and when it is due
+interface ExpiryEntry {
+  expiresAt: number
+  id: string
+}
+
+// Direct messages belong to the chats of both sides, our own included
+export function getConversationIds(message: Message): string[] {
+  if (message.groupId) return [message.groupId]
+  return [message.senderId, message.recipientId].filter((id): id is string => !!id)
+}
+
+export function getMessageCursor(message: Message): MessageCursor {
+  return { timestamp: new Date(message.timestamp).getTime(), id: message.id }
+}
+
+function compareCursors(a: MessageCursor, b: MessageCursor): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+function compareExpiryEntries(a: ExpiryEntry, b: ExpiryEntry): number {
+  return compareCursors({ timestamp: a.expiresAt, id: a.id }, { timestamp: b.expiresAt, id: b.id })
+}
+
+const getDay = (timestamp: number) => Math.floor(timestamp / DAY)
+
+// The chat a received message is unread in, null for our own messages and those read
+function getUnreadChatId(message: Message, ownId: string | null): string | null {
+  if (message.senderId === ownId || message.status === "read") return null
+  return message.groupId ?? message.senderId
+}
+
+function getExpiryEntry(message: Message): ExpiryEntry | null {
+  if (!message.isEphemeral || !message.expiresAt) return null
+  return { expiresAt: new Date(message.expiresAt).getTime(), id: message.id }
+}
+
+// Per chat index of message ids, so a page of a chat reads that page and not every message. A chat's entries are
+// kept in one bucket per day, sorted by time, with the list of its days under the chat. Alongside are lists of
+// each chat's unread messages, of the direct replies to each message, and of disappearing messages by the time
+// they are due. Like the SearchIndex, items are stored under keyed hashes of their keys and encrypted, so the
+// store shows no chat ids or times. It is kept in a store of its own rather than as IndexedDB indexes on the
+// messages: localforage offers no secondary indexes, falls back to WebSQL or localStorage, and an index on
+// conversation and time would keep those in the clear.
+export class MessageIndex {
+  // Buckets are read, changed and written back, one update at a time so none is lost
+  private withLock = createLock()
+  private keys: { itemKey: string; hashKey: string } | null = null
+
+  constructor(
+    private crypto: CryptoManager,
+    private store: LocalForage,
+    private getKeyPair: () => Promise<KeyPair | null>,
+    private getOwnId: () => Promise<string | null>,
+  ) {}
+
+  // Until it is built, updates are skipped; the first read builds it from every message, see build
+  async isBuilt(): Promise<boolean> {
+    return (await this.store.getItem<number>(INDEX_VERSION_KEY)) === INDEX_VERSION
+  }
+
+  // A new message is added, a saved one only moves in or out of its chat's unread list
+  async update(previous: Message | null, message: Message): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      if (!(await this.isBuilt())) return
+      if (!previous) return this.addEntries([message])
+
+      const ownId = await this.getOwnId()
+      const previousChatId = getUnreadChatId(previous, ownId)
+      const chatId = getUnreadChatId(message, ownId)
+      if (previousChatId === chatId) return
+
+      if (previousChatId) {
+        await this.changeList(`unread:${previousChatId}`, (ids) => ids.filter((id) => id !== message.id))
+      }
+      if (chatId) {
+        await this.changeList(`unread:${chatId}`, (ids) => [...ids, message.id])
+      }
+    })
+  }
+
+  async remove(messages: Message[]): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      if (!(await this.isBuilt())) return
+
+      for (const message of messages) {
+        const cursor = getMessageCursor(message)
+        for (const chatId of getConversationIds(message)) {
+          const day = getDay(cursor.timestamp)
+          const entries = await this.getBucket(chatId, day)
+          await this.saveBucket(chatId, day, entries.filter((entry) => entry.id !== cursor.id))
+        }
+      }
+
+      const ownId = await this.getOwnId()
+      const ids = new Set(messages.map((message) => message.id))
+      const listKeys = new Set<string>()
+      for (const message of messages) {
+        const chatId = getUnreadChatId(message, ownId)
+        if (chatId) listKeys.add(`unread:${chatId}`)
+        if (message.replyTo) listKeys.add(`replies:${message.replyTo}`)
+        await this.writeItem(`replies:${message.id}`, null)
+      }
+      for (const key of listKeys) {
+        await this.changeList(key, (listIds) => listIds.filter((id) => !ids.has(id)))
+      }
+      await this.removeExpiryEntries(ids)
+    })
+  }
+
+  // Ids of the received messages of a chat not read yet
+  async getUnread(chatId: string): Promise<string[]> {
+    return this.withLock(INDEX_LOCK, async () => (await this.readItem<string[]>(`unread:${chatId}`)) ?? [])
+  }
+
+  // Ids of the messages replying to this one directly
+  async getReplies(messageId: string): Promise<string[]> {
+    return this.withLock(INDEX_LOCK, async () => (await this.readItem<string[]>(`replies:${messageId}`)) ?? [])
+  }
+
+  // Newest first, and whether older entries remain past the limit or before `since`
+  async getEntries(
+    chatId: string,
+    { before, since, limit }: MessagePageOptions = {},
+  ): Promise<{ entries: MessageCursor[]; hasMore: boolean }> {
+    return this.withLock(INDEX_LOCK, async () => {
+      const days = (await this.readItem<number[]>(`chat:${chatId}`)) ?? []
+      const entries: MessageCursor[] = []
+
+      for (const day of [...days].reverse()) {
+        if (before && day > getDay(before.timestamp)) continue
+
+        for (const entry of [...(await this.getBucket(chatId, day))].reverse()) {
+          if (before && compareCursors(entry, before) >= 0) continue
+          if ((since && compareCursors(entry, since) < 0) || (limit !== undefined && entries.length >= limit)) {
+            return { entries, hasMore: true }
+          }
+          entries.push(entry)
+        }
+      }
+      return { entries, hasMore: false }
+    })
+  }
+
+  // Entries of every chat older than the time, each message once
+  async getEntriesBefore(timestamp: number): Promise<MessageCursor[]> {
+    return this.withLock(INDEX_LOCK, async () => {
+      const chatIds = (await this.readItem<string[]>(CHATS_KEY)) ?? []
+      const entries = new Map<string, MessageCursor>()
+
+      for (const chatId of chatIds) {
+        const days = (await this.readItem<number[]>(`chat:${chatId}`)) ?? []
+        for (const day of days.filter((candidate) => candidate <= getDay(timestamp))) {
+          for (const entry of await this.getBucket(chatId, day)) {
+            if (entry.timestamp < timestamp) entries.set(entry.id, entry)
+          }
+        }
+      }
+      return [...entries.values()]
+    })
+  }
+
+  // Ids of the disappearing messages due by the time, soonest first, and when the next one after them is due
+  async getExpiring(timestamp: number): Promise<{ ids: string[]; nextExpiresAt: number | null }> {
+    return this.withLock(INDEX_LOCK, async () => {
+      const expiry = (await this.readItem<ExpiryEntry[]>(EXPIRY_KEY)) ?? []
+      const due = expiry.filter((entry) => entry.expiresAt <= timestamp)
+      return { ids: due.map((entry) => entry.id), nextExpiresAt: expiry[due.length]?.expiresAt ?? null }
+    })
+  }
+
+  async removeChat(chatId: string): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      const days = (await this.readItem<number[]>(`chat:${chatId}`)) ?? []
+      const ids = new Set<string>()
+      for (const day of days) {
+        for (const entry of await this.getBucket(chatId, day)) {
+          ids.add(entry.id)
+          await this.writeItem(`replies:${entry.id}`, null)
+        }
+        await this.writeItem(`day:${chatId}:${day}`, null)
+      }
+      await this.writeItem(`unread:${chatId}`, null)
+      await this.removeExpiryEntries(ids)
+      await this.writeItem(`chat:${chatId}`, null)
+
+      const chatIds = (await this.readItem<string[]>(CHATS_KEY)) ?? []
+      await this.writeItem(CHATS_KEY, chatIds.filter((id) => id !== chatId))
+    })
+  }
+
+  // The messages are read under the index lock, so a message saved meanwhile is either among them or its update
+  // waits for the build and is applied after it
+  async build(getMessages: () => Promise<Message[]>): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      if (await this.isBuilt()) return
+
+      await this.store.clear()
+      this.keys = null
+      await this.addEntries(await getMessages())
+      await this.store.setItem(INDEX_VERSION_KEY, INDEX_VERSION)
+    })
+  }
+
+  async clear(): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      await this.store.clear()
+      this.keys = null
+    })
+  }
+
+  // Grouped by bucket, so a rebuild writes each bucket once
+  private async addEntries(messages: Message[]): Promise<void> {
+    const additions = new Map<string, { chatId: string; day: number; entries: MessageCursor[] }>()
+    for (const message of messages) {
+      const cursor = getMessageCursor(message)
+      for (const chatId of getConversationIds(message)) {
+        const key = `${chatId}:${getDay(cursor.timestamp)}`
+        const addition = additions.get(key) ?? { chatId, day: getDay(cursor.timestamp), entries: [] }
+        additions.set(key, { ...addition, entries: [...addition.entries, cursor] })
+      }
+    }
+
+    for (const { chatId, day, entries } of additions.values()) {
+      const ids = new Set(entries.map((entry) => entry.id))
+      const existing = (await this.getBucket(chatId, day)).filter((entry) => !ids.has(entry.id))
+      await this.saveBucket(chatId, day, [...existing, ...entries])
+    }
+
+    const ownId = await this.getOwnId()
+    const lists = new Map<string, string[]>()
+    const addToList = (key: string, id: string) => lists.set(key, [...(lists.get(key) ?? []), id])
+    for (const message of messages) {
+      const chatId = getUnreadChatId(message, ownId)
+      if (chatId) addToList(`unread:${chatId}`, message.id)
+      if (message.replyTo) addToList(`replies:${message.replyTo}`, message.id)
+    }
+    for (const [key, ids] of lists) {
+      await this.changeList(key, (existing) => [...existing, ...ids])
+    }
+
+    const expiring = messages.map(getExpiryEntry).filter((entry): entry is ExpiryEntry => !!entry)
+    if (expiring.length > 0) {
+      const ids = new Set(expiring.map((entry) => entry.id))
+      const existing = ((await this.readItem<ExpiryEntry[]>(EXPIRY_KEY)) ?? []).filter((entry) => !ids.has(entry.id))
+      await this.writeItem(EXPIRY_KEY, [...existing, ...expiring].sort(compareExpiryEntries))
+    }
+  }
+
+  // Ids are kept once, an empty list is removed
+  private async changeList(key: string, change: (ids: string[]) => string[]): Promise<void> {
+    const ids = (await this.readItem<string[]>(key)) ?? []
+    const changed = [...new Set(change(ids))]
+    if (changed.join() !== ids.join()) {
+      await this.writeItem(key, changed.length > 0 ? changed : null)
+    }
+  }
+
+  private async removeExpiryEntries(ids: Set<string>): Promise<void> {
+    const expiry = (await this.readItem<ExpiryEntry[]>(EXPIRY_KEY)) ?? []
+    const kept = expiry.filter((entry) => !ids.has(entry.id))
+    if (kept.length !== expiry.length) {
+      await this.writeItem(EXPIRY_KEY, kept.length > 0 ? kept : null)
+    }
+  }
+
+  private async getBucket(chatId: string, day: number): Promise<MessageCursor[]> {
+    return (await this.readItem<MessageCursor[]>(`day:${chatId}:${day}`)) ?? []
+  }
+
+  // Keeps the chat's list of days, and the list of chats, in step with its buckets
+  private async saveBucket(chatId: string, day: number, entries: MessageCursor[]): Promise<void> {
+    const days = (await this.readItem<number[]>(`chat:${chatId}`)) ?? []
+    let nextDays = days
+
+    if (entries.length === 0) {
+      await this.writeItem(`day:${chatId}:${day}`, null)
+      nextDays = days.filter((candidate) => candidate !== day)
+    } else {
+      await this.writeItem(`day:${chatId}:${day}`, [...entries].sort(compareCursors))
+      if (!days.includes(day)) nextDays = [...days, day].sort((a, b) => a - b)
+    }
+
+    if (nextDays !== days) {
+      await this.writeItem(`chat:${chatId}`, nextDays)
+    }
+
+    const chatIds = (await this.readItem<string[]>(CHATS_KEY)) ?? []
+    if (nextDays.length > 0 && !chatIds.includes(chatId)) {
+      await this.writeItem(CHATS_KEY, [...chatIds, chatId])
+    }
+  }
+
+  private async readItem<T>(key: string): Promise<T | null> {
+    const { itemKey, hashKey } = await this.getKeys()
+    const itemId = this.crypto.hashWithKey(key, hashKey)
+    const encrypted = await this.store.getItem<string>(itemId)
+    return encrypted ? JSON.parse(this.crypto.decryptWithKey(encrypted, itemKey, itemId)) : null
+  }
+
+  // Bound to its item id, so buckets cannot be swapped between chats or days; null removes the item
+  private async writeItem(key: string, value: unknown): Promise<void> {
+    const { itemKey, hashKey } = await this.getKeys()
+    const itemId = this.crypto.hashWithKey(key, hashKey)
+
+    if (value === null) {
+      await this.store.removeItem(itemId)
+    } else {
+      await this.store.setItem(itemId, this.crypto.encryptWithKey(JSON.stringify(value), itemKey, itemId))
+    }
+  }
+
+  private async getKeys(): Promise<{ itemKey: string; hashKey: string }> {
+    if (this.keys) return this.keys
+
+    const keyPair = await this.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    await this.crypto.initialize()
+    const [itemKey, hashKey] = this.crypto.deriveKeys(keyPair.privateKey, INDEX_KEY_SALT, "SecureChat-message-index", 2)
+    this.keys = { itemKey, hashKey }
+    return this.keys
+  }
+}
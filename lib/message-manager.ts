@@ -1,20 +1,142 @@
-import { P2PNetworkManager, type NetworkMessage } from "./p2p-network"
+import { getSignedEnvelopeData, P2PNetworkManager, type ControlMessageType, type NetworkMessage } from "./p2p-network"
+import type { PeerPresence } from "./signaling"
+import type { Transport } from "./transport"
 import { CryptoManager } from "./crypto"
 import { StorageManager } from "./storage"
-import type { Message, User } from "./types"
+import { SecurityManager, type SecuritySettings } from "./security-utils"
+import { SessionManager, type PreKeyBundleContent } from "./session-manager"
+import type { SenderKeyDistribution } from "./sender-key"
+import { SenderKeyManager, type SenderKeyContent } from "./sender-key-manager"
+import {
+  GroupManager,
+  hasMissedOperations,
+  isOperationAllowed,
+  type GroupChange,
+  type GroupEvent,
+  type MemberProfile,
+} from "./group-manager"
+import { PresenceManager, type StatusContent } from "./presence-manager"
+import { AttachmentManager, type AttachmentFile, type AttachmentProgress } from "./attachment-manager"
+import {
+  decodeMessagePayload,
+  encodeMessagePayload,
+  getMessageType,
+  getPayloadFields,
+  getReceivedMessageId,
+} from "./message-payload"
+import { getThreadReplies } from "./message-thread"
+import type { SearchResult } from "./search-index"
+import type { MessagePage, MessagePageOptions } from "./message-index"
+import { MessageClockManager } from "./message-clock"
+import type { ControlMessage, MessageContext } from "./message-context"
+import { ReceiptManager, type ReceiptContent } from "./receipt-manager"
+import { MessageUpdateManager } from "./message-update-manager"
+import { AttachmentTransferManager } from "./attachment-transfer-manager"
+import type {
+  Attachment,
+  Contact,
+  Group,
+  GroupInvitation,
+  GroupOperation,
+  KeyPair,
+  Message,
+  MessageEdit,
+  MessageReaction,
+  MessageRetraction,
+  OutboxEntry,
+  PresenceState,
+  SecurityAlert,
+  User,
+} from "./types"
+
+// Content of chat_settings network messages: the disappearing message timer of a direct chat, 0 for off.
+// The later change wins when both sides change it at once.
+export interface ChatSettingsContent {
+  messageTTL: number
+  updatedAt: number
+}
+
+// Content of peer_discovery network messages, boxed for one contact: the sender's signing key. The box ties it to
+// the sender's public key and so to its id, which a key vouched for by a group member is not.
+export interface KeyAnnouncement {
+  signingPublicKey: string
+  isReply?: boolean // Answering the receiver's announcement, not answered again
+}
+
+// Outbox retries back off exponentially from the first delay up to the longest, then give up until the user retries
+const OUTBOX_FIRST_RETRY_DELAY = 5 * 1000
+const OUTBOX_MAX_RETRY_DELAY = 10 * 60 * 1000
+const OUTBOX_MAX_ATTEMPTS = 10
+
+// The expiry timer is set for the next disappearing message, but never further out than this
+const MAX_EXPIRY_TIMER_DELAY = 24 * 60 * 60 * 1000
 
 export class MessageManager {
   private static instance: MessageManager
   private network: P2PNetworkManager
   private crypto: CryptoManager
   private storage: StorageManager
+  private security: SecurityManager
+  private sessions: SessionManager
+  private senderKeys: SenderKeyManager
+  private groups: GroupManager
+  private attachments: AttachmentManager
+  private clocks: MessageClockManager
+  private receipts: ReceiptManager
+  private updates: MessageUpdateManager
+  private transfers: AttachmentTransferManager
+  private presence: PresenceManager = new PresenceManager()
   private currentUser: User | null = null
   private messageListeners: ((message: Message) => void)[] = []
+  private messageUpdateListeners: ((message: Message) => void)[] = []
+  private groupListeners: (() => void)[] = []
+  private outboxListeners: (() => void)[] = []
+  private contactListeners: ((contact: Contact) => void)[] = []
+  private expiredListeners: ((messageIds: string[]) => void)[] = []
+  private pruneInterval: ReturnType<typeof setInterval> | null = null
+  private outboxInterval: ReturnType<typeof setInterval> | null = null
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null
+  private expiryTimerDueAt = 0
+  private sendingMessageIds: Set<string> = new Set()
+  private pendingEnvelopeIds: Set<string> = new Set()
+  private receivingMessageIds: Set<string> = new Set()
+  // Group messages that arrived before their sender key, by `${groupId}:${senderId}:${keyId}`
+  private pendingGroupMessages: Map<string, NetworkMessage[]> = new Map()
 
-  private constructor() {
-    this.network = P2PNetworkManager.getInstance()
-    this.crypto = CryptoManager.getInstance()
-    this.storage = StorageManager.getInstance()
+  // Dependencies default to the app-wide singletons; the simulator passes one set per user
+  constructor(
+    deps: {
+      network?: P2PNetworkManager
+      crypto?: CryptoManager
+      storage?: StorageManager
+      security?: SecurityManager
+    } = {},
+  ) {
+    this.network = deps.network ?? P2PNetworkManager.getInstance()
+    this.crypto = deps.crypto ?? CryptoManager.getInstance()
+    this.storage = deps.storage ?? StorageManager.getInstance()
+    this.security = deps.security ?? SecurityManager.getInstance()
+    this.sessions = new SessionManager(this.crypto, this.storage)
+    this.senderKeys = new SenderKeyManager(this.crypto, this.storage)
+    this.groups = new GroupManager(this.crypto, this.storage)
+    this.attachments = new AttachmentManager(this.crypto, this.storage)
+    this.clocks = new MessageClockManager(this.storage)
+
+    const context: MessageContext = {
+      crypto: this.crypto,
+      storage: this.storage,
+      security: this.security,
+      network: this.network,
+      getCurrentUser: () => this.currentUser,
+      getChatId: (message) => this.getChatId(message),
+      sendToContact: (contactId, type, content, options) => this.sendToContact(contactId, type, content, options),
+      notifyMessageUpdated: (message) => this.messageUpdateListeners.forEach((listener) => listener(message)),
+      notifyOutboxChanged: () => this.notifyOutboxChanged(),
+    }
+    this.receipts = new ReceiptManager(context)
+    this.transfers = new AttachmentTransferManager(context, this.attachments)
+    this.updates = new MessageUpdateManager(context, this.transfers)
   }
 
   static getInstance(): MessageManager {
@@ -24,20 +146,287 @@ export class MessageManager {
     return MessageManager.instance
   }
 
-  async initialize(user: User): Promise<void> {
+  async initialize(user: User, options: { transports?: Transport[] } = {}): Promise<void> {
+    // Every component using the hook initializes, handlers must only be registered once
+    if (this.currentUser) return
+
+    // Accounts created before signing keys existed get a signing key pair on first start
+    let keyPair = await this.storage.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    if (!keyPair.signingPrivateKey || !keyPair.signingPublicKey) {
+      const signingKeyPair = this.crypto.generateSigningKeyPair()
+      keyPair = {
+        ...keyPair,
+        signingPublicKey: signingKeyPair.publicKey,
+        signingPrivateKey: signingKeyPair.privateKey,
+      }
+      await this.storage.saveKeyPair(keyPair)
+    }
+
+    if (user.signingPublicKey !== keyPair.signingPublicKey) {
+      user = { ...user, signingPublicKey: keyPair.signingPublicKey }
+      await this.storage.saveCurrentUser(user)
+    }
+
     this.currentUser = user
+    await this.sessions.refreshPreKeys(keyPair)
+
+    const savedSettings = await this.storage.getSetting<Partial<SecuritySettings>>("securitySettings")
+    if (savedSettings) {
+      this.security.updateSettings(savedSettings)
+    }
 
     // Initialize network
-    await this.network.initialize(user)
+    const signalingUrl = await this.storage.getSetting<string>("signalingServerUrl")
+    await this.network.initialize(user, {
+      signingPrivateKey: keyPair.signingPrivateKey!,
+      signalingUrl,
+      transports: options.transports,
+    })
 
     // Set up message handler
     this.network.onMessage(this.handleNetworkMessage.bind(this))
+    this.network.onPeerDiscovered(this.handlePeerDiscovered.bind(this))
+    this.network.onPeerStatus(this.handlePeerStatus.bind(this))
+
+    await this.pruneSeenEnvelopes()
+    await this.pruneOutbox()
+    this.pruneInterval = setInterval(() => {
+      this.pruneSeenEnvelopes()
+      this.pruneOutbox()
+    }, 60 * 60 * 1000) // Hourly
+
+    this.outboxInterval = setInterval(() => {
+      this.flushOutbox()
+      this.transfers.continueDownloads()
+    }, OUTBOX_FIRST_RETRY_DELAY)
+
+    await this.removeExpiredMessages()
+  }
+
+  private async pruneSeenEnvelopes(): Promise<void> {
+    const pruned = await this.storage.pruneSeenEnvelopes(Date.now() - this.security.getReplayWindow())
+    if (pruned > 0) {
+      console.log("[v0] Pruned seen envelopes:", pruned)
+    }
+  }
+
+  getSecuritySettings(): SecuritySettings {
+    return this.security.getSettings()
+  }
+
+  async updateSecuritySettings(settings: Partial<SecuritySettings>): Promise<SecuritySettings> {
+    this.security.updateSettings(settings)
+    await this.storage.saveSetting("securitySettings", this.security.getSettings())
+    return this.security.getSettings()
+  }
+
+  getSecurityAlerts(): SecurityAlert[] {
+    return this.security.getAlerts()
+  }
+
+  onSecurityAlert(listener: (alert: SecurityAlert) => void): void {
+    this.security.onAlert(listener)
+  }
+
+  removeSecurityAlertListener(listener: (alert: SecurityAlert) => void): void {
+    this.security.removeAlertListener(listener)
+  }
+
+  async setSignalingServer(url: string | null): Promise<void> {
+    const normalizedUrl = url?.trim() || null
+    if (normalizedUrl && !/^wss?:\/\//.test(normalizedUrl)) {
+      throw new Error("Signaling server URL must start with ws:// or wss://")
+    }
+
+    await this.storage.saveSetting("signalingServerUrl", normalizedUrl)
+    await this.network.setSignalingServer(normalizedUrl)
+  }
+
+  // Contacts are added by ID only, their keys are learned from verified presence announcements
+  private async handlePeerDiscovered(presence: PeerPresence): Promise<void> {
+    try {
+      const contact = await this.storage.getContact(presence.userId)
+      if (!contact) return
+
+      let changed = false
+
+      if (contact.publicKey !== presence.publicKey) {
+        contact.publicKey = presence.publicKey
+        changed = true
+      }
+
+      const isNewSigningKey = !contact.signingPublicKey
+      if (isNewSigningKey) {
+        contact.signingPublicKey = presence.signingPublicKey
+        changed = true
+      } else if (contact.signingPublicKey !== presence.signingPublicKey) {
+        console.warn("[v0] Contact announced a different signing key, keeping the pinned one:", contact.id)
+      }
+
+      if (changed) {
+        await this.storage.saveContact(contact)
+      }
+      if (isNewSigningKey) {
+        await this.releaseGroupOperations(contact.id)
+      }
+    } catch (error) {
+      console.error("[v0] Error updating contact keys:", error)
+    }
+  }
+
+  // Fetch a contact's prekeys while they are reachable, so a session can be started once they are not
+  private async handlePeerStatus(peerId: string, isOnline: boolean): Promise<void> {
+    const contact = await this.storage.getContact(peerId)
+    if (!contact) return
+
+    await this.updateContactPresence(contact, isOnline ? "online" : "offline", Date.now())
+    if (isOnline) {
+      await this.sendPresence(contact)
+      // The contact may have missed a timer change while offline
+      if (contact.messageTTLUpdatedAt) {
+        await this.sendChatSettings(contact)
+      }
+    }
+
+    try {
+      if (!isOnline) return
+
+      if (await this.sessions.needsPreKeyBundle(peerId)) {
+        await this.requestPreKeyBundle(peerId)
+      }
+    } catch (error) {
+      console.error("[v0] Error requesting prekey bundle:", error)
+    }
+
+    // Whatever waited for this peer goes out now instead of at its next scheduled attempt
+    if (isOnline) {
+      // A member introduced while one of us was offline has not had our key yet, its answer brings us its own
+      if (!contact.signingPublicKey) {
+        await this.sendKeyAnnouncement(contact)
+      }
+      await this.resendGroupEvents(peerId)
+      await this.syncGroups(peerId)
+      await this.flushOutbox(peerId)
+      await this.transfers.resumeDownloads(peerId)
+      await this.updates.resendMessageUpdates(peerId)
+    }
+  }
+
+  async requestPreKeyBundle(contactId: string): Promise<void> {
+    const content: PreKeyBundleContent = { request: true }
+    await this.network.sendControl("prekey_bundle", contactId, JSON.stringify(content))
+  }
+
+  private async handlePreKeyBundleMessage(networkMessage: NetworkMessage): Promise<void> {
+    const contact = await this.storage.getContact(networkMessage.senderId)
+    if (!contact || contact.isBlocked || !this.currentUser) return
+
+    const content: PreKeyBundleContent = JSON.parse(networkMessage.content)
+
+    if (content.request) {
+      const keyPair = await this.storage.getKeyPair()
+      if (!keyPair) return
+
+      const reply: PreKeyBundleContent = {
+        bundle: await this.sessions.createPreKeyBundle(this.currentUser.id, keyPair, contact.id),
+      }
+      await this.network.sendControl("prekey_bundle", contact.id, JSON.stringify(reply))
+    } else if (content.bundle) {
+      const accepted = await this.sessions.acceptPreKeyBundle(contact, content.bundle)
+      if (!accepted) {
+        console.warn("[v0] Rejected prekey bundle with an invalid signature from:", contact.id)
+      }
+    }
+  }
+
+  // Envelopes must carry a valid signature by the sender's pinned signing key when signing is required
+  private async verifyEnvelope(networkMessage: NetworkMessage): Promise<boolean> {
+    if (!this.security.getSettings().requireMessageSigning) return true
+
+    const contact = await this.storage.getContact(networkMessage.senderId)
+    if (!contact) return false
+
+    if (!contact.signingPublicKey) {
+      console.warn("[v0] No signing key known yet for contact, dropping message:", contact.id)
+      return false
+    }
+
+    const isValid =
+      !!networkMessage.signature &&
+      this.security.validateMessageSignature(
+        getSignedEnvelopeData(networkMessage),
+        networkMessage.signature,
+        contact.signingPublicKey,
+      )
+
+    if (!isValid) {
+      this.security.raiseAlert(
+        "message_tampering",
+        `Dropped a ${networkMessage.type} from ${contact.username} with a missing or invalid signature`,
+        "high",
+      )
+    }
+
+    return isValid
+  }
+
+  // Each envelope is accepted once, and only inside the timestamp window
+  private async checkReplay(networkMessage: NetworkMessage): Promise<boolean> {
+    const envelopeId = this.security.generateMessageId(
+      networkMessage.senderId,
+      networkMessage.timestamp,
+      getSignedEnvelopeData(networkMessage),
+    )
+
+    // Copies arriving together must not both pass before the first one is stored
+    const isDuplicate = this.pendingEnvelopeIds.has(envelopeId)
+    this.pendingEnvelopeIds.add(envelopeId)
+
+    try {
+      const contact = await this.storage.getContact(networkMessage.senderId)
+      const sender = contact?.username ?? networkMessage.senderId
+
+      if (!this.security.isMessageTimestampValid(networkMessage.timestamp, networkMessage.queued)) {
+        this.security.raiseAlert(
+          "replay_attack",
+          `Dropped a ${networkMessage.type} from ${sender} outside the accepted time window`,
+          "medium",
+        )
+        return false
+      }
+
+      if (isDuplicate || (await this.storage.hasSeenEnvelope(envelopeId))) {
+        this.security.raiseAlert("replay_attack", `Dropped a replayed ${networkMessage.type} from ${sender}`, "high")
+        return false
+      }
+
+      await this.storage.markEnvelopeSeen(envelopeId, networkMessage.timestamp)
+      return true
+    } finally {
+      if (!isDuplicate) {
+        this.pendingEnvelopeIds.delete(envelopeId)
+      }
+    }
   }
 
   private async handleNetworkMessage(networkMessage: NetworkMessage): Promise<void> {
     try {
       console.log("[v0] Handling network message:", networkMessage)
 
+      // Announced signing keys are checked against the key they carry
+      if (networkMessage.type === "peer_discovery") {
+        await this.handleKeyAnnouncement(networkMessage)
+        return
+      }
+
+      // Signature first, so forged envelopes never reach the seen cache
+      if (!(await this.verifyEnvelope(networkMessage))) return
+      if (!(await this.checkReplay(networkMessage))) return
+
       let decryptedContent: string
       let message: Message
 
@@ -58,89 +447,394 @@ export class MessageManager {
         }
 
         try {
-          decryptedContent = this.crypto.decryptDirectMessage(
-            networkMessage.content,
-            contact.publicKey,
-            keyPair.privateKey,
-          )
-          console.log("[v0] Successfully decrypted message:", decryptedContent)
+          decryptedContent = await this.decryptFromContact(contact, keyPair, networkMessage)
+          console.log("[v0] Successfully decrypted message:", networkMessage.messageId)
         } catch (error) {
           console.error("[v0] Failed to decrypt direct message:", error)
           return
         }
 
+        const payload = decodeMessagePayload(decryptedContent)
         message = {
-          id: `${networkMessage.senderId}-${networkMessage.timestamp}`,
+          id: getReceivedMessageId(payload, networkMessage),
           senderId: networkMessage.senderId,
           recipientId: this.currentUser?.id,
-          content: decryptedContent,
+          ...getPayloadFields(payload),
           timestamp: new Date(networkMessage.timestamp),
           isEncrypted: true,
-          messageType: "text",
+          status: "delivered",
         }
       } else if (networkMessage.type === "group_message") {
-        console.log("[v0] Processing group message from:", networkMessage.senderId)
-
-        // Decrypt group message
-        const group = await this.storage.getGroup(networkMessage.groupId!)
-        if (!group) {
-          console.warn("[v0] Received message for unknown group:", networkMessage.groupId)
-          return
+        const groupMessage = await this.receiveGroupMessage(networkMessage)
+        if (!groupMessage) return
+        message = groupMessage
+      } else if (networkMessage.type === "prekey_bundle") {
+        await this.handlePreKeyBundleMessage(networkMessage)
+        return
+      } else if (networkMessage.type === "file_chunk") {
+        await this.transfers.handleFileChunk(networkMessage)
+        return
+      } else {
+        const controlMessage = await this.openFromContact(networkMessage)
+        if (controlMessage) {
+          await this.handleControlMessage(controlMessage)
         }
+        return
+      }
 
-        try {
-          decryptedContent = this.crypto.decryptGroupMessage(networkMessage.content, group.symmetricKey)
-          console.log("[v0] Successfully decrypted group message:", decryptedContent)
-        } catch (error) {
-          console.error("[v0] Failed to decrypt group message:", error)
-          return
+      await this.deliverMessage(message)
+    } catch (error) {
+      console.error("[v0] Error handling network message:", error)
+    }
+  }
+
+  // Pairwise control messages, each opened once by openFromContact and then handed to the handler of its type
+  private async handleControlMessage(controlMessage: ControlMessage<unknown>): Promise<void> {
+    const { type } = controlMessage
+
+    if (type === "sender_key") {
+      await this.handleSenderKeyMessage(controlMessage as ControlMessage<SenderKeyContent>)
+    } else if (type === "group_event") {
+      await this.handleGroupEvent(controlMessage as ControlMessage<GroupEvent>)
+    } else if (type === "delivery_receipt" || type === "read_receipt") {
+      await this.receipts.handleReceipt(controlMessage as ControlMessage<ReceiptContent>)
+    } else if (type === "user_status" || type === "typing") {
+      await this.handleStatusMessage(controlMessage as ControlMessage<StatusContent>)
+    } else if (type === "chat_settings") {
+      await this.handleChatSettings(controlMessage as ControlMessage<ChatSettingsContent>)
+    } else if (type === "message_edit" || type === "message_retraction") {
+      await this.updates.handleMessageUpdate(controlMessage as ControlMessage<MessageEdit | MessageRetraction>)
+    } else if (type === "message_reaction") {
+      await this.updates.handleReaction(controlMessage as ControlMessage<MessageReaction>)
+    }
+  }
+
+  // The sender must be a contact we have not blocked, the content is decrypted with our pairwise keys
+  private async openFromContact(networkMessage: NetworkMessage): Promise<ControlMessage<unknown> | null> {
+    const contact = await this.storage.getContact(networkMessage.senderId)
+    const keyPair = await this.storage.getKeyPair()
+    if (!contact || contact.isBlocked || !keyPair || !this.currentUser) return null
+
+    const content: unknown = JSON.parse(await this.decryptFromContact(contact, keyPair, networkMessage))
+    const type = networkMessage.type as ControlMessageType
+    return { type, contact, keyPair, content, isQueued: !!networkMessage.queued }
+  }
+
+  private async deliverMessage(message: Message): Promise<void> {
+    // Copies arriving together must not both be stored and shown, the first one sends the receipt
+    if (this.receivingMessageIds.has(message.id)) return
+    this.receivingMessageIds.add(message.id)
+
+    try {
+      await this.receiveMessage(message)
+    } finally {
+      this.receivingMessageIds.delete(message.id)
+    }
+  }
+
+  private async receiveMessage(message: Message): Promise<void> {
+    // A retried copy of a message we have: only the receipt is sent again, the sender may have missed it.
+    // A disappearing message that arrives too late is acknowledged but never shown.
+    const existing = await this.storage.getMessage(message.id)
+    if (existing && existing.senderId !== message.senderId) {
+      console.warn("[v0] Dropping message reusing the id of another sender's message:", message.id)
+      return
+    }
+
+    const isExpired = this.security.cleanupExpiredMessages([message]).length === 0
+    if (!existing) {
+      // The clock counts expired messages too, the ones after them are not missing anything
+      const { isEarly, completedIds } = await this.clocks.receive(this.getChatId(message), message)
+
+      if (!isExpired) {
+        const received: Message = isEarly ? { ...message, hasMissingPredecessors: true } : message
+
+        // Save message to local storage
+        await this.storage.saveMessage(received)
+        this.scheduleExpiry(received.expiresAt)
+        console.log("[v0] Saved message to storage:", received.id)
+
+        // Notify listeners
+        this.messageListeners.forEach((listener) => listener(received))
+        console.log("[v0] Notified message listeners")
+
+        await this.updates.applyEarlyUpdates(received.id)
+        await this.transfers.download(received)
+      }
+
+      await this.markPredecessorsArrived(completedIds)
+    }
+
+    await this.receipts.sendReceipt(message.senderId, "delivery_receipt", [message.id])
+  }
+
+  private async markPredecessorsArrived(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      const message = await this.storage.getMessage(messageId)
+      if (!message?.hasMissingPredecessors) continue
+
+      const updated: Message = { ...message, hasMissingPredecessors: undefined }
+      await this.storage.saveMessage(updated)
+      this.messageUpdateListeners.forEach((listener) => listener(updated))
+    }
+  }
+
+  // Marks the received messages of a chat read, and tells their senders unless read receipts are off
+  async markChatRead(chatId: string): Promise<void> {
+    await this.receipts.markChatRead(chatId)
+  }
+
+  // Pairwise encryption, with a per-contact Double Ratchet session when forward secrecy is on
+  private async encryptForContact(
+    contact: Contact,
+    keyPair: KeyPair,
+    plaintext: string,
+  ): Promise<{ content: string; encryption: "box" | "ratchet" }> {
+    if (this.security.getSettings().enableForwardSecrecy) {
+      return { content: await this.sessions.encrypt(contact, keyPair, plaintext), encryption: "ratchet" }
+    }
+
+    return {
+      content: this.crypto.encryptDirectMessage(plaintext, contact.publicKey, keyPair.privateKey),
+      encryption: "box",
+    }
+  }
+
+  // Ratchet messages are always accepted, the local setting only decides how we send
+  private async decryptFromContact(contact: Contact, keyPair: KeyPair, networkMessage: NetworkMessage): Promise<string> {
+    return networkMessage.encryption === "ratchet"
+      ? await this.sessions.decrypt(contact, keyPair, networkMessage.content)
+      : this.crypto.decryptDirectMessage(networkMessage.content, contact.publicKey, keyPair.privateKey)
+  }
+
+  private async receiveGroupMessage(networkMessage: NetworkMessage): Promise<Message | null> {
+    console.log("[v0] Processing group message from:", networkMessage.senderId)
+
+    const group = await this.storage.getGroup(networkMessage.groupId!)
+    if (!group) {
+      console.warn("[v0] Received message for unknown group:", networkMessage.groupId)
+      return null
+    }
+
+    if (!group.members.includes(networkMessage.senderId)) {
+      console.warn("[v0] Received group message from a non-member:", networkMessage.senderId)
+      return null
+    }
+
+    let decryptedContent: string | null
+    try {
+      if (networkMessage.encryption === "sender_key") {
+        decryptedContent = await this.senderKeys.decrypt(group.id, networkMessage.senderId, networkMessage.content)
+      } else if (group.symmetricKey) {
+        decryptedContent = this.crypto.decryptGroupMessage(networkMessage.content, group.symmetricKey)
+      } else {
+        console.warn("[v0] Group has no shared key for legacy message:", group.id)
+        return null
+      }
+    } catch (error) {
+      console.error("[v0] Failed to decrypt group message:", error)
+      return null
+    }
+
+    if (decryptedContent === null) {
+      await this.holdForSenderKey(networkMessage)
+      return null
+    }
+
+    console.log("[v0] Successfully decrypted group message:", networkMessage.messageId)
+    const payload = decodeMessagePayload(decryptedContent)
+    return {
+      id: getReceivedMessageId(payload, networkMessage),
+      senderId: networkMessage.senderId,
+      groupId: networkMessage.groupId,
+      ...getPayloadFields(payload),
+      timestamp: new Date(networkMessage.timestamp),
+      isEncrypted: true,
+      status: "delivered",
+    }
+  }
+
+  // Keeps the message until the sender's key arrives, and asks the sender for it once
+  private async holdForSenderKey(networkMessage: NetworkMessage): Promise<void> {
+    const groupId = networkMessage.groupId!
+    const keyId = this.senderKeys.getKeyId(networkMessage.content)
+    const pendingKey = `${groupId}:${networkMessage.senderId}:${keyId}`
+    const pending = this.pendingGroupMessages.get(pendingKey) ?? []
+
+    if (pending.length >= 100) {
+      console.warn("[v0] Too many group messages waiting for a sender key, dropping:", pendingKey)
+      return
+    }
+
+    this.pendingGroupMessages.set(pendingKey, [...pending, networkMessage])
+
+    if (pending.length === 0) {
+      await this.sendSenderKeyContent(networkMessage.senderId, { request: { groupId, keyId } })
+    }
+  }
+
+  private async sendSenderKeyContent(recipientId: string, content: SenderKeyContent): Promise<void> {
+    const contact = await this.storage.getContact(recipientId)
+    if (!contact) {
+      throw new Error("Sender keys can only be exchanged with contacts")
+    }
+
+    const keyPair = await this.storage.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    const encrypted = await this.encryptForContact(contact, keyPair, JSON.stringify(content))
+    await this.network.sendControl("sender_key", recipientId, encrypted.content, { encryption: encrypted.encryption })
+  }
+
+  private async handleSenderKeyMessage({ contact, content }: ControlMessage<SenderKeyContent>): Promise<void> {
+    if (!this.currentUser) return
+
+    const groupId = content.distribution?.groupId ?? content.request?.groupId
+    const group = groupId ? await this.storage.getGroup(groupId) : null
+
+    // Keys are only exchanged between members of the group as we know it
+    if (!group || !group.members.includes(contact.id) || !group.members.includes(this.currentUser.id)) {
+      console.warn("[v0] Ignoring sender key message for a group we do not share:", groupId)
+      return
+    }
+
+    if (content.distribution) {
+      await this.senderKeys.acceptDistribution(contact.id, content.distribution)
+
+      const pendingKey = `${group.id}:${contact.id}:${content.distribution.keyId}`
+      const pending = this.pendingGroupMessages.get(pendingKey) ?? []
+      this.pendingGroupMessages.delete(pendingKey)
+
+      for (const pendingMessage of pending) {
+        const message = await this.receiveGroupMessage(pendingMessage)
+        if (message) {
+          await this.deliverMessage(message)
         }
+      }
+    } else if (content.request) {
+      const distribution = await this.senderKeys.getDistribution(group.id)
+      if (distribution) {
+        await this.sendSenderKeyContent(contact.id, { distribution })
+      }
+    }
+  }
 
-        message = {
-          id: `${networkMessage.senderId}-${networkMessage.timestamp}`,
-          senderId: networkMessage.senderId,
-          groupId: networkMessage.groupId,
-          content: decryptedContent,
-          timestamp: new Date(networkMessage.timestamp),
-          isEncrypted: true,
-          messageType: "text",
+  private async handleStatusMessage({ type, contact, content: status }: ControlMessage<StatusContent>): Promise<void> {
+    if (type === "user_status" && status.presence) {
+      await this.updateContactPresence(contact, status.presence.state, status.presence.lastSeen)
+    } else if (type === "typing" && status.typing) {
+      const { groupId, isTyping } = status.typing
+      if (groupId && !(await this.storage.getGroup(groupId))?.members.includes(contact.id)) return
+
+      this.presence.receiveTyping(groupId ?? contact.id, contact.id, isTyping)
+    }
+  }
+
+  private async updateContactPresence(contact: Contact, state: PresenceState, lastSeen: number): Promise<void> {
+    // A last seen time from a clock running ahead must not show up as in the future
+    const updated: Contact = {
+      ...contact,
+      presence: state,
+      isOnline: state !== "offline",
+      lastSeen: new Date(Math.min(lastSeen, Date.now())),
+    }
+
+    await this.storage.saveContact(updated)
+    this.contactListeners.forEach((listener) => listener(updated))
+  }
+
+  // Typing in a direct or group chat, throttled so a burst of keystrokes sends one signal
+  async setTyping(chatId: string, isTyping: boolean): Promise<void> {
+    if (!this.currentUser || !this.presence.shouldSendTyping(chatId, isTyping)) return
+
+    const group = await this.storage.getGroup(chatId)
+    const content: StatusContent = { typing: { groupId: group?.id, isTyping } }
+    const recipientIds = group ? group.members.filter((memberId) => memberId !== this.currentUser!.id) : [chatId]
+
+    for (const recipientId of recipientIds) {
+      await this.sendToContact(recipientId, "typing", content)
+    }
+  }
+
+  getTypingUsers(chatId: string): string[] {
+    return this.presence.getTypingUsers(chatId)
+  }
+
+  onTypingChanged(listener: (chatId: string, userIds: string[]) => void): void {
+    this.presence.onTypingChanged(listener)
+  }
+
+  removeTypingListener(listener: (chatId: string, userIds: string[]) => void): void {
+    this.presence.removeTypingListener(listener)
+  }
+
+  // Online or away, sent to the contacts that are online. Changes in quick succession go out as one.
+  setPresence(state: Exclude<PresenceState, "offline">): void {
+    if (!this.presence.setPresence(state) || this.presenceTimer) return
+
+    this.presenceTimer = setTimeout(async () => {
+      this.presenceTimer = null
+      this.presence.markPresenceSent()
+
+      const contacts = await this.storage.getAllContacts()
+      for (const contact of contacts) {
+        if (contact.isOnline) {
+          await this.sendPresence(contact)
         }
-      } else if (networkMessage.type === "user_status") {
-        console.log("[v0] Processing user status update from:", networkMessage.senderId)
-        // Handle user status updates
-        const statusData = JSON.parse(networkMessage.content)
-        await this.handleUserStatusUpdate(networkMessage.senderId, statusData)
-        return
-      } else {
-        return
       }
+    }, this.presence.getPresenceDelay())
+  }
+
+  private async sendPresence(contact: Contact, state: PresenceState = this.presence.getPresence()): Promise<void> {
+    await this.sendToContact(contact.id, "user_status", { presence: { state, lastSeen: Date.now() } })
+  }
 
-      // Save message to local storage
-      await this.storage.saveMessage(message)
-      console.log("[v0] Saved message to storage:", message.id)
+  // Control content encrypted pairwise, resolves to false when the contact is unknown, blocked or unreachable
+  private async sendToContact(
+    contactId: string,
+    type: ControlMessageType,
+    content: unknown,
+    options: Pick<NetworkMessage, "queued"> = {},
+  ): Promise<boolean> {
+    try {
+      const contact = await this.storage.getContact(contactId)
+      const keyPair = await this.storage.getKeyPair()
+      if (!contact || contact.isBlocked || !keyPair) return false
 
-      // Notify listeners
-      this.messageListeners.forEach((listener) => listener(message))
-      console.log("[v0] Notified message listeners")
+      const encrypted = await this.encryptForContact(contact, keyPair, JSON.stringify(content))
+      return await this.network.sendControl(type, contactId, encrypted.content, {
+        encryption: encrypted.encryption,
+        ...options,
+      })
     } catch (error) {
-      console.error("[v0] Error handling network message:", error)
+      console.warn("[v0] Could not send control message to:", contactId, type, error)
+      return false
     }
   }
 
-  private async handleUserStatusUpdate(userId: string, statusData: any): Promise<void> {
-    // Update contact status if they exist
-    const contact = await this.storage.getContact(userId)
-    if (contact) {
-      contact.isOnline = statusData.isOnline
-      contact.lastSeen = new Date()
-      await this.storage.saveContact(contact)
+  onContactUpdated(listener: (contact: Contact) => void): void {
+    this.contactListeners.push(listener)
+  }
+
+  removeContactListener(listener: (contact: Contact) => void): void {
+    const index = this.contactListeners.indexOf(listener)
+    if (index > -1) {
+      this.contactListeners.splice(index, 1)
     }
   }
 
-  async sendDirectMessage(recipientId: string, content: string): Promise<Message> {
+  async sendDirectMessage(
+    recipientId: string,
+    content: string,
+    attachment?: Attachment,
+    replyTo?: string,
+  ): Promise<Message> {
     if (!this.currentUser) {
       throw new Error("User not initialized")
     }
+    await this.checkReplyTarget(recipientId, replyTo)
 
     console.log("[v0] Sending direct message to:", recipientId, "content:", content)
 
@@ -151,43 +845,43 @@ export class MessageManager {
       throw new Error("Contact not found")
     }
 
-    // Get sender's private key
-    const keyPair = await this.storage.getKeyPair()
-    if (!keyPair) {
-      console.error("[v0] Key pair not found")
-      throw new Error("Key pair not found")
-    }
-
-    // Encrypt message
-    const encryptedContent = this.crypto.encryptDirectMessage(content, contact.publicKey, keyPair.privateKey)
-    console.log("[v0] Message encrypted successfully")
-
     // Create message object
     const message: Message = {
-      id: `${this.currentUser.id}-${Date.now()}`,
+      id: this.crypto.generateSecureId(),
       senderId: this.currentUser.id,
       recipientId,
       content,
       timestamp: new Date(),
       isEncrypted: true,
-      messageType: "text",
+      messageType: getMessageType(attachment),
+      status: "sending",
+      attachment,
+      replyTo,
+      clock: await this.clocks.tick(recipientId, this.currentUser.id),
+      ...this.getExpiryFields(contact.messageTTL),
     }
 
     // Save to local storage
     await this.storage.saveMessage(message)
+    this.scheduleExpiry(message.expiresAt)
     console.log("[v0] Message saved to local storage:", message.id)
 
-    // Send over network
-    await this.network.sendDirectMessage(recipientId, encryptedContent)
-    console.log("[v0] Message sent over network")
+    // Send over network, or keep it in the outbox until the recipient is reachable
+    await this.enqueueMessage(message)
 
     return message
   }
 
-  async sendGroupMessage(groupId: string, content: string): Promise<Message> {
+  async sendGroupMessage(
+    groupId: string,
+    content: string,
+    attachment?: Attachment,
+    replyTo?: string,
+  ): Promise<Message> {
     if (!this.currentUser) {
       throw new Error("User not initialized")
     }
+    await this.checkReplyTarget(groupId, replyTo)
 
     // Get group
     const group = await this.storage.getGroup(groupId)
@@ -195,49 +889,863 @@ export class MessageManager {
       throw new Error("Group not found")
     }
 
-    // Encrypt message
-    const encryptedContent = this.crypto.encryptGroupMessage(content, group.symmetricKey)
-
     // Create message object
     const message: Message = {
-      id: `${this.currentUser.id}-${Date.now()}`,
+      id: this.crypto.generateSecureId(),
       senderId: this.currentUser.id,
       groupId,
       content,
       timestamp: new Date(),
       isEncrypted: true,
-      messageType: "text",
+      messageType: getMessageType(attachment),
+      status: "sending",
+      attachment,
+      replyTo,
+      clock: await this.clocks.tick(groupId, this.currentUser.id),
+      ...this.getExpiryFields(group.messageTTL),
     }
 
     // Save to local storage
     await this.storage.saveMessage(message)
+    this.scheduleExpiry(message.expiresAt)
 
-    // Send over network
-    await this.network.sendGroupMessage(groupId, encryptedContent)
+    // Send over network, or keep it in the outbox until a member is reachable
+    await this.enqueueMessage(message)
 
     return message
   }
 
-  async getMessagesForChat(chatId: string): Promise<Message[]> {
-    return await this.storage.getMessagesForChat(chatId)
+  // Sends a file or voice note to a contact or group, recipients then fetch its encrypted chunks from us
+  async sendAttachment(chatId: string, file: AttachmentFile, caption = "", replyTo?: string): Promise<Message> {
+    if (!this.currentUser) {
+      throw new Error("User not initialized")
+    }
+    const senderId = this.currentUser.id
+    const attachment = await this.attachments.createAttachment(senderId, file)
+
+    try {
+      return (await this.storage.getGroup(chatId))
+        ? await this.sendGroupMessage(chatId, caption, attachment, replyTo)
+        : await this.sendDirectMessage(chatId, caption, attachment, replyTo)
+    } catch (error) {
+      await this.attachments.removeAttachment(senderId, attachment)
+      throw error
+    }
   }
 
-  onMessage(listener: (message: Message) => void): void {
-    this.messageListeners.push(listener)
+  // The decrypted file, null while chunks are missing
+  async getAttachmentData(senderId: string, attachment: Attachment): Promise<Uint8Array | null> {
+    return await this.attachments.readAttachment(senderId, attachment)
   }
 
-  removeMessageListener(listener: (message: Message) => void): void {
-    const index = this.messageListeners.indexOf(listener)
+  async getAttachmentProgress(senderId: string, attachment: Attachment): Promise<AttachmentProgress> {
+    return await this.transfers.getProgress(senderId, attachment)
+  }
+
+  onAttachmentProgress(listener: (attachmentId: string, progress: AttachmentProgress) => void): void {
+    this.transfers.onProgress(listener)
+  }
+
+  removeAttachmentProgressListener(listener: (attachmentId: string, progress: AttachmentProgress) => void): void {
+    this.transfers.removeProgressListener(listener)
+  }
+
+  // Replaces the text of one of our messages, see MessageUpdateManager
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    return await this.updates.editMessage(messageId, content)
+  }
+
+  // Removes a message from this device only
+  async deleteMessage(messageId: string): Promise<void> {
+    const message = await this.storage.getMessage(messageId)
+    if (!message) return
+
+    await this.removeMessageData(message)
+    this.notifyOutboxChanged()
+  }
+
+  // Replaces one of our messages with a tombstone for everyone, see MessageUpdateManager
+  async deleteMessageForEveryone(messageId: string): Promise<Message> {
+    return await this.updates.deleteMessageForEveryone(messageId)
+  }
+
+  async toggleReaction(messageId: string, emoji: string): Promise<Message> {
+    return await this.updates.toggleReaction(messageId, emoji)
+  }
+
+  private getExpiryFields(chatTTL?: number): Pick<Message, "isEphemeral" | "expiresAt"> {
+    const ttl = this.security.getMessageTTL(chatTTL)
+    return ttl ? { isEphemeral: true, expiresAt: new Date(this.security.getMessageExpirationTime(ttl)) } : {}
+  }
+
+  // Disappearing messages for a direct or group chat, 0 turns them off. Group timers are an admin operation.
+  async setChatTimer(chatId: string, messageTTL: number): Promise<void> {
+    if (messageTTL < 0) {
+      throw new Error("Invalid disappearing message timer")
+    }
+
+    if (await this.storage.getGroup(chatId)) {
+      await this.changeGroup(chatId, { type: "set_message_ttl", value: messageTTL })
+      return
+    }
+
+    const contact = await this.storage.getContact(chatId)
+    if (!contact) {
+      throw new Error("Contact not found")
+    }
+
+    const updated: Contact = { ...contact, messageTTL: messageTTL || undefined, messageTTLUpdatedAt: Date.now() }
+    await this.storage.saveContact(updated)
+    this.contactListeners.forEach((listener) => listener(updated))
+    await this.sendChatSettings(updated)
+  }
+
+  private async sendChatSettings(contact: Contact): Promise<void> {
+    const content: ChatSettingsContent = {
+      messageTTL: contact.messageTTL ?? 0,
+      updatedAt: contact.messageTTLUpdatedAt ?? 0,
+    }
+    await this.sendToContact(contact.id, "chat_settings", content)
+  }
+
+  private async handleChatSettings({ contact, content: settings }: ControlMessage<ChatSettingsContent>): Promise<void> {
+    if (typeof settings.messageTTL !== "number" || settings.messageTTL < 0) return
+
+    // Ours is newer: the contact missed it, send it back so both sides end up with the same timer
+    const ownUpdatedAt = contact.messageTTLUpdatedAt ?? 0
+    if (settings.updatedAt < ownUpdatedAt) {
+      await this.sendChatSettings(contact)
+      return
+    }
+    if (settings.updatedAt === ownUpdatedAt) return
+
+    const updated: Contact = {
+      ...contact,
+      messageTTL: settings.messageTTL || undefined,
+      messageTTLUpdatedAt: settings.updatedAt,
+    }
+    await this.storage.saveContact(updated)
+    this.contactListeners.forEach((listener) => listener(updated))
+  }
+
+  // Deletes disappearing messages past their time, sent and received alike, and sets the timer for the next one
+  async removeExpiredMessages(): Promise<string[]> {
+    try {
+      const { messages, nextExpiresAt } = await this.storage.getExpiredMessages(Date.now())
+      for (const message of messages) {
+        await this.removeMessageData(message)
+      }
+      this.scheduleExpiry(nextExpiresAt)
+
+      const expiredIds = messages.map((message) => message.id)
+      if (expiredIds.length > 0) {
+        console.log("[v0] Removed expired messages:", expiredIds.length)
+        this.expiredListeners.forEach((listener) => listener(expiredIds))
+      }
+      return expiredIds
+    } catch (error) {
+      console.error("[v0] Error removing expired messages:", error)
+      return []
+    }
+  }
+
+  // One timer, due at the soonest expiry; a message expiring before it brings it forward
+  private scheduleExpiry(expiresAt?: Date | number | null): void {
+    if (!expiresAt) return
+
+    const delay = Math.min(Math.max(0, new Date(expiresAt).getTime() - Date.now()), MAX_EXPIRY_TIMER_DELAY)
+    if (this.expiryTimer && this.expiryTimerDueAt <= Date.now() + delay) return
+
+    if (this.expiryTimer) clearTimeout(this.expiryTimer)
+    this.expiryTimerDueAt = Date.now() + delay
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null
+      this.removeExpiredMessages()
+    }, delay)
+  }
+
+  onMessagesExpired(listener: (messageIds: string[]) => void): void {
+    this.expiredListeners.push(listener)
+  }
+
+  removeMessagesExpiredListener(listener: (messageIds: string[]) => void): void {
+    const index = this.expiredListeners.indexOf(listener)
+    if (index > -1) {
+      this.expiredListeners.splice(index, 1)
+    }
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return await this.storage.getAllOutboxEntries()
+  }
+
+  // Sends a failed message again, starting a new round of attempts
+  async retryMessage(messageId: string): Promise<OutboxEntry> {
+    const entry = await this.storage.getOutboxEntry(messageId)
+    if (!entry || entry.state !== "failed") {
+      throw new Error("Only failed messages can be retried")
+    }
+
+    return await this.attemptDelivery({ ...entry, state: "pending", attempts: 0, nextAttemptAt: Date.now() })
+  }
+
+  // Drops a message that has not gone out yet, from the outbox and the chat
+  async cancelMessage(messageId: string): Promise<void> {
+    const entry = await this.storage.getOutboxEntry(messageId)
+    if (!entry || (entry.state !== "pending" && entry.state !== "failed")) {
+      throw new Error("Only unsent messages can be cancelled")
+    }
+
+    const message = await this.storage.getMessage(messageId)
+    if (message) {
+      await this.removeMessageData(message)
+    } else {
+      await this.storage.removeOutboxEntry(messageId)
+    }
+    this.notifyOutboxChanged()
+  }
+
+  // The message with its outbox entry and attachment
+  private async removeMessageData(message: Message): Promise<void> {
+    await this.storage.removeMessage(message.id)
+    await this.storage.removeOutboxEntry(message.id)
+    await this.transfers.removeAttachment(message)
+  }
+
+  onOutboxChanged(listener: () => void): void {
+    this.outboxListeners.push(listener)
+  }
+
+  removeOutboxListener(listener: () => void): void {
+    const index = this.outboxListeners.indexOf(listener)
+    if (index > -1) {
+      this.outboxListeners.splice(index, 1)
+    }
+  }
+
+  private notifyOutboxChanged(): void {
+    this.outboxListeners.forEach((listener) => listener())
+  }
+
+  private async enqueueMessage(message: Message): Promise<void> {
+    const group = message.groupId ? await this.storage.getGroup(message.groupId) : null
+    const entry: OutboxEntry = {
+      messageId: message.id,
+      recipientId: message.recipientId,
+      groupId: message.groupId,
+      pendingMemberIds: group?.members.filter((memberId) => memberId !== this.currentUser?.id),
+      state: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    }
+
+    await this.storage.saveOutboxEntry(entry)
+    await this.attemptDelivery(entry)
+  }
+
+  // Attempts every pending entry that is due, or every pending entry for a peer that just came online
+  private async flushOutbox(peerId?: string): Promise<void> {
+    try {
+      const now = Date.now()
+      const entries = await this.storage.getAllOutboxEntries()
+
+      for (const entry of entries) {
+        if (entry.state !== "pending") continue
+
+        const isForPeer =
+          !!peerId && (entry.recipientId === peerId || !!entry.pendingMemberIds?.includes(peerId))
+        if (isForPeer || entry.nextAttemptAt <= now) {
+          await this.attemptDelivery(entry)
+        }
+      }
+    } catch (error) {
+      console.error("[v0] Error flushing outbox:", error)
+    }
+  }
+
+  private async attemptDelivery(entry: OutboxEntry): Promise<OutboxEntry> {
+    if (this.sendingMessageIds.has(entry.messageId)) return entry
+    this.sendingMessageIds.add(entry.messageId)
+
+    try {
+      const message = await this.storage.getMessage(entry.messageId)
+      if (!message) {
+        await this.storage.removeOutboxEntry(entry.messageId)
+        return entry
+      }
+
+      let updated: OutboxEntry
+      let isPartlySent = false
+      const sentAt = new Date(message.timestamp).getTime()
+      if (Date.now() - sentAt > this.security.getSettings().maxQueuedMessageAge) {
+        // Recipients would drop it as stale
+        updated = { ...entry, state: "failed", lastError: "Message expired before it could be delivered" }
+      } else {
+        try {
+          if (entry.groupId) {
+            // Members that got a copy are done, the others get one on a later attempt or when they come online
+            const isRetry = entry.attempts > 0
+            const pendingMemberIds = await this.transmitGroupMessage(message, isRetry, entry.pendingMemberIds)
+            isPartlySent = pendingMemberIds.length < (entry.pendingMemberIds?.length ?? Infinity)
+            updated =
+              pendingMemberIds.length === 0
+                ? { ...entry, pendingMemberIds, state: "sent", attempts: entry.attempts + 1, lastError: undefined }
+                : this.scheduleRetry({ ...entry, pendingMemberIds }, "Some members unreachable")
+          } else {
+            updated = (await this.transmitDirectMessage(message, entry.attempts > 0))
+              ? { ...entry, state: "sent", attempts: entry.attempts + 1, lastError: undefined }
+              : this.scheduleRetry(entry, "Recipient unreachable")
+          }
+        } catch (error) {
+          updated = this.scheduleRetry(entry, error instanceof Error ? error.message : "Failed to send message")
+        }
+      }
+
+      await this.storage.saveOutboxEntry(updated)
+      await this.receipts.updateMessageStatus(
+        message.id,
+        updated.state === "pending" ? (isPartlySent ? "sent" : "sending") : updated.state,
+      )
+      this.notifyOutboxChanged()
+      return updated
+    } finally {
+      this.sendingMessageIds.delete(entry.messageId)
+    }
+  }
+
+  private scheduleRetry(entry: OutboxEntry, error: string): OutboxEntry {
+    const attempts = entry.attempts + 1
+    if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+      console.warn("[v0] Giving up on message after attempts:", entry.messageId, attempts)
+      return { ...entry, state: "failed", attempts, lastError: error }
+    }
+
+    const delay = Math.min(OUTBOX_FIRST_RETRY_DELAY * 2 ** (attempts - 1), OUTBOX_MAX_RETRY_DELAY)
+    return { ...entry, state: "pending", attempts, nextAttemptAt: Date.now() + delay, lastError: error }
+  }
+
+  // Encrypted again on every attempt, retries carry the original time and the queued flag
+  private async transmitDirectMessage(message: Message, isRetry: boolean): Promise<boolean> {
+    const contact = await this.storage.getContact(message.recipientId!)
+    if (!contact) {
+      throw new Error("Contact not found")
+    }
+
+    const keyPair = await this.storage.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    const encrypted = await this.encryptForContact(contact, keyPair, encodeMessagePayload(message))
+    return await this.network.sendDirectMessage(contact.id, encrypted.content, {
+      encryption: encrypted.encryption,
+      messageId: message.id,
+      ...(isRetry && { queued: true, timestamp: new Date(message.timestamp).getTime() }),
+    })
+  }
+
+  // To the members still without a copy, every other member when not known; resolves to those not reached.
+  // Members who left since are not waited for.
+  private async transmitGroupMessage(message: Message, isRetry: boolean, memberIds?: string[]): Promise<string[]> {
+    const group = await this.storage.getGroup(message.groupId!)
+    if (!group) {
+      throw new Error("Group not found")
+    }
+
+    const recipientIds = group.members.filter(
+      (memberId) => memberId !== this.currentUser!.id && (!memberIds || memberIds.includes(memberId)),
+    )
+    if (recipientIds.length === 0) return []
+
+    // A new sender key (new group or changed membership) first goes to every other member pairwise
+    const { distribution, isNew } = await this.senderKeys.ensureSenderKey(group.id, this.currentUser!.id)
+    if (isNew) {
+      await this.distributeSenderKey(group.members, distribution)
+    }
+
+    const payload = encodeMessagePayload(message)
+    const encryptedContent = await this.senderKeys.encrypt(group.id, this.currentUser!.id, payload)
+    const reached = await this.network.sendGroupMessage(group.id, recipientIds, encryptedContent, {
+      encryption: "sender_key",
+      messageId: message.id,
+      ...(isRetry && { queued: true, timestamp: new Date(message.timestamp).getTime() }),
+    })
+    return recipientIds.filter((memberId) => !reached.includes(memberId))
+  }
+
+  // Sent messages stay in the outbox for their status until recipients would no longer accept a copy
+  private async pruneOutbox(): Promise<void> {
+    const cutoff = Date.now() - this.security.getSettings().maxQueuedMessageAge
+    const entries = await this.storage.getAllOutboxEntries()
+
+    for (const entry of entries) {
+      if ((entry.state === "sent" || entry.state === "delivered") && entry.createdAt < cutoff) {
+        await this.storage.removeOutboxEntry(entry.messageId)
+      }
+    }
+  }
+
+  async createGroup(name: string, description?: string): Promise<Group> {
+    if (!this.currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const group = await this.groups.createGroup(this.currentUser, name, description)
+    await this.senderKeys.ensureSenderKey(group.id, this.currentUser.id)
+    this.notifyGroupsChanged()
+    return group
+  }
+
+  async inviteToGroup(groupId: string, contactId: string): Promise<void> {
+    const { group, keyPair } = await this.getOwnGroup(groupId)
+    if (group.members.includes(contactId)) {
+      throw new Error("Contact is already a member")
+    }
+
+    const invite = this.groups.createInvite(group, this.currentUser!, keyPair, contactId)
+    await this.sendGroupEvent(contactId, { invite })
+  }
+
+  // An open invite to paste anywhere, usable by any of our contacts until it expires
+  async createInviteCode(groupId: string): Promise<string> {
+    const { group, keyPair } = await this.getOwnGroup(groupId)
+    return this.groups.encodeInviteCode(this.groups.createInvite(group, this.currentUser!, keyPair))
+  }
+
+  async joinGroupWithCode(code: string): Promise<void> {
+    if (!this.currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const invite = this.groups.decodeInviteCode(code)
+    if (await this.storage.getGroup(invite.groupId)) {
+      throw new Error("You are already a member of this group")
+    }
+
+    const inviter = await this.storage.getContact(invite.inviterId)
+    if (!inviter) {
+      throw new Error("Add the person who shared the code as a contact first")
+    }
+    if (!inviter.signingPublicKey) {
+      throw new Error("The inviter's keys are not known yet, try again once they are online")
+    }
+    if (!this.groups.isInviteValid(invite, inviter.signingPublicKey)) {
+      throw new Error("Invite code is invalid or expired")
+    }
+
+    await this.storage.saveGroupInvitation({ invite, status: "accepted", receivedAt: new Date() })
+    await this.sendGroupEvent(inviter.id, { join: invite })
+    this.notifyGroupsChanged()
+  }
+
+  async respondToInvitation(inviteId: string, accept: boolean): Promise<void> {
+    const invitation = await this.groups.setInvitationStatus(inviteId, accept ? "accepted" : "declined")
+
+    if (accept) {
+      await this.sendGroupEvent(invitation.invite.inviterId, { join: invitation.invite })
+    } else {
+      await this.storage.removeGroupInvitation(inviteId)
+      await this.sendGroupEvent(invitation.invite.inviterId, { decline: invitation.invite })
+    }
+
+    this.notifyGroupsChanged()
+  }
+
+  // Signs the change, applies it to our copy and sends it to every member it concerns
+  async changeGroup(groupId: string, change: GroupChange): Promise<void> {
+    const { group, keyPair } = await this.getOwnGroup(groupId)
+    const operation = this.groups.createOperation(group, this.currentUser!, keyPair, change)
+    if (!isOperationAllowed(group, operation)) {
+      throw new Error("You do not have permission to make this change")
+    }
+
+    const updated = await this.groups.applyOperation(operation, keyPair.signingPublicKey!, this.currentUser!)
+    if (!updated) {
+      throw new Error("Failed to apply group change")
+    }
+
+    await this.broadcastOperation(updated, operation)
+    this.notifyGroupsChanged()
+  }
+
+  async leaveGroup(groupId: string): Promise<void> {
+    if (!this.currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    await this.changeGroup(groupId, { type: "remove", targetId: this.currentUser.id })
+  }
+
+  async getGroups(): Promise<Group[]> {
+    return await this.storage.getAllGroups()
+  }
+
+  async getGroupInvitations(): Promise<GroupInvitation[]> {
+    const invitations = await this.storage.getAllGroupInvitations()
+    return invitations.filter((invitation) => invitation.status === "pending")
+  }
+
+  onGroupsChanged(listener: () => void): void {
+    this.groupListeners.push(listener)
+  }
+
+  removeGroupsListener(listener: () => void): void {
+    const index = this.groupListeners.indexOf(listener)
+    if (index > -1) {
+      this.groupListeners.splice(index, 1)
+    }
+  }
+
+  private notifyGroupsChanged(): void {
+    this.groupListeners.forEach((listener) => listener())
+  }
+
+  private async getOwnGroup(groupId: string): Promise<{ group: Group; keyPair: KeyPair }> {
+    if (!this.currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const [group, keyPair] = await Promise.all([this.storage.getGroup(groupId), this.storage.getKeyPair()])
+    if (!group) {
+      throw new Error("Group not found")
+    }
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    return { group, keyPair }
+  }
+
+  // A peer we cannot reach gets the event once it is back online, see resendGroupEvents
+  private async sendGroupEvent(recipientId: string, event: GroupEvent): Promise<void> {
+    if (!(await this.transmitGroupEvent(recipientId, event))) {
+      await this.storage.addPendingGroupEvent(recipientId, JSON.stringify(event))
+    }
+  }
+
+  private async transmitGroupEvent(recipientId: string, event: GroupEvent): Promise<boolean> {
+    const contact = await this.storage.getContact(recipientId)
+    if (!contact) {
+      throw new Error("Group events can only be sent to contacts")
+    }
+
+    const keyPair = await this.storage.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    const encrypted = await this.encryptForContact(contact, keyPair, JSON.stringify(event))
+    return this.network.sendControl("group_event", recipientId, encrypted.content, { encryption: encrypted.encryption })
+  }
+
+  // Invites, joins and group changes a peer missed while offline, in order, so memberships are known before messages
+  private async resendGroupEvents(peerId: string): Promise<void> {
+    try {
+      for (const event of await this.storage.getPendingGroupEvents(peerId)) {
+        if (!(await this.transmitGroupEvent(peerId, JSON.parse(event)))) return
+        await this.storage.removePendingGroupEvent(peerId, event)
+      }
+    } catch (error) {
+      console.error("[v0] Error resending group events:", error)
+    }
+  }
+
+  // Members introduced by another member reach us without a signing key, they announce theirs to us themselves
+  private async introduceMembers(group: Group, profiles: MemberProfile[]): Promise<void> {
+    if (!this.currentUser) return
+
+    for (const contact of await this.groups.introduceMembers(group, profiles, this.currentUser)) {
+      await this.sendKeyAnnouncement(contact)
+    }
+  }
+
+  private async sendKeyAnnouncement(contact: Contact, isReply = false): Promise<void> {
+    const keyPair = await this.storage.getKeyPair()
+    if (!keyPair?.signingPublicKey) return
+
+    const announcement: KeyAnnouncement = { signingPublicKey: keyPair.signingPublicKey, isReply }
+    const content = JSON.stringify(announcement)
+    await this.network.sendKeyAnnouncement(
+      contact.id,
+      this.crypto.encryptDirectMessage(content, contact.publicKey, keyPair.privateKey),
+    )
+  }
+
+  // A contact's own signing key, pinned unless we have one already. The envelope must be signed with it.
+  private async handleKeyAnnouncement(networkMessage: NetworkMessage): Promise<void> {
+    const contact = await this.storage.getContact(networkMessage.senderId)
+    const keyPair = await this.storage.getKeyPair()
+    if (!contact || contact.isBlocked || !keyPair) return
+
+    const announcement: KeyAnnouncement = JSON.parse(
+      this.crypto.decryptDirectMessage(networkMessage.content, contact.publicKey, keyPair.privateKey),
+    )
+    const isSigned =
+      !!networkMessage.signature &&
+      this.security.validateMessageSignature(
+        getSignedEnvelopeData(networkMessage),
+        networkMessage.signature,
+        announcement.signingPublicKey,
+      )
+    if (!isSigned || !(await this.checkReplay(networkMessage))) return
+
+    if (!contact.signingPublicKey) {
+      await this.storage.saveContact({ ...contact, signingPublicKey: announcement.signingPublicKey })
+      await this.releaseGroupOperations(contact.id)
+    } else if (contact.signingPublicKey !== announcement.signingPublicKey) {
+      console.warn("[v0] Contact announced a different signing key, keeping the pinned one:", contact.id)
+    }
+
+    if (!announcement.isReply) {
+      await this.sendKeyAnnouncement(contact, true)
+    }
+  }
+
+  // Group operations by a member we just learned the signing key of, held from syncs until now
+  private async releaseGroupOperations(actorId: string): Promise<void> {
+    if (!this.currentUser) return
+
+    const changed = await this.groups.releaseHeldOperations(actorId, this.currentUser)
+    if (changed.length > 0) {
+      this.notifyGroupsChanged()
+    }
+  }
+
+  // Operations made while we were apart, by either side or anyone else, are fetched once a fellow member is back
+  private async syncGroups(peerId: string): Promise<void> {
+    try {
+      for (const group of await this.storage.getAllGroups()) {
+        if (group.members.includes(peerId)) {
+          await this.transmitGroupEvent(peerId, { sync: await this.groups.createSync(group) })
+        }
+      }
+    } catch (error) {
+      console.error("[v0] Error syncing groups:", error)
+    }
+  }
+
+  // Members get the operation, a removed member included so it knows. A new member gets the group's log instead,
+  // and the keys of the members we know so it can reach them; the others get the new member's keys.
+  private async broadcastOperation(group: Group, operation: GroupOperation): Promise<void> {
+    const profiles = await this.groups.getMemberProfiles(group, this.currentUser!)
+    const recipients = new Set([...group.members, operation.targetId ?? ""])
+
+    for (const memberId of recipients) {
+      if (!memberId || memberId === this.currentUser?.id) continue
+
+      let event: GroupEvent = { operation }
+      if (operation.type === "add" && memberId === operation.targetId) {
+        const log = await this.groups.getLog(group)
+        const base: Group = { ...log.base }
+        delete base.symmetricKey
+        event = { update: { ...log, base }, members: profiles }
+      } else if (operation.type === "add") {
+        event = { operation, members: profiles.filter((profile) => profile.id === operation.targetId) }
+      }
+
+      try {
+        await this.sendGroupEvent(memberId, event)
+      } catch (error) {
+        console.warn("[v0] Could not send group change to member:", memberId, error)
+      }
+    }
+  }
+
+  private async handleGroupEvent({ contact, keyPair, content: event }: ControlMessage<GroupEvent>): Promise<void> {
+    if (!this.currentUser) return
+
+    if (event.invite) {
+      const invitation = await this.groups.receiveInvite(event.invite, contact)
+      if (!invitation) {
+        console.warn("[v0] Ignoring invalid group invite from:", contact.id)
+        return
+      }
+    } else if (event.join) {
+      const admitted = await this.groups.admitMember(event.join, this.currentUser, keyPair, contact.id)
+      if (!admitted) {
+        console.warn("[v0] Refused group join request from:", contact.id)
+        return
+      }
+      await this.broadcastOperation(admitted.group, admitted.operation)
+    } else if (event.decline) {
+      console.log("[v0] Group invite declined by:", contact.id)
+      return
+    } else if (event.update) {
+      const changed = await this.groups.applyUpdate(event.update, contact.id, this.currentUser)
+      if (!changed) {
+        console.warn("[v0] Ignoring group update from:", contact.id)
+        return
+      }
+
+      const group = await this.storage.getGroup(event.update.base.id)
+      if (group && event.members) {
+        await this.introduceMembers(group, event.members)
+      }
+    } else if (event.operation) {
+      // Operations come straight from the member who made them
+      if (event.operation.actorId !== contact.id || !contact.signingPublicKey) return
+
+      // A gap: the actor has the operations we missed, its answer to our sync brings this one too
+      const current = await this.storage.getGroup(event.operation.groupId)
+      if (current && hasMissedOperations(current, event.operation)) {
+        await this.transmitGroupEvent(contact.id, { sync: await this.groups.createSync(current) })
+        return
+      }
+
+      const group = await this.groups.applyOperation(event.operation, contact.signingPublicKey, this.currentUser)
+      if (!group) {
+        console.warn("[v0] Rejected group operation from:", contact.id, event.operation.type)
+        return
+      }
+
+      if (event.members && group.members.includes(this.currentUser.id)) {
+        await this.introduceMembers(group, event.members)
+      }
+    } else if (event.sync) {
+      const missed = await this.groups.getMissedOperations(event.sync, contact.id)
+      const group = await this.storage.getGroup(event.sync.groupId)
+      if (missed.length > 0 && group) {
+        const members = await this.groups.getMemberProfiles(group, this.currentUser)
+        await this.transmitGroupEvent(contact.id, { missed, members })
+      }
+      return
+    } else if (event.missed) {
+      const group = await this.groups.applyMissedOperations(event.missed, this.currentUser)
+      if (!group) return
+
+      if (event.members && group.members.includes(this.currentUser.id)) {
+        await this.introduceMembers(group, event.members)
+      }
+    } else {
+      return
+    }
+
+    this.notifyGroupsChanged()
+  }
+
+  private async distributeSenderKey(memberIds: string[], distribution: SenderKeyDistribution): Promise<void> {
+    for (const memberId of memberIds) {
+      if (memberId === this.currentUser?.id) continue
+
+      try {
+        await this.sendSenderKeyContent(memberId, { distribution })
+      } catch (error) {
+        console.warn("[v0] Could not send sender key to member:", memberId, error)
+      }
+    }
+  }
+
+  // Disappearing messages are hidden as soon as they expire, the expiry timer deletes them a moment later
+  async getMessagesForChat(chatId: string): Promise<Message[]> {
+    return this.security.cleanupExpiredMessages(await this.storage.getMessagesForChat(chatId))
+  }
+
+  // A page of a chat, see StorageManager.getMessagePage; expired messages are hidden like above
+  async getMessagePage(chatId: string, options: MessagePageOptions = {}): Promise<MessagePage> {
+    const page = await this.storage.getMessagePage(chatId, options)
+    return { ...page, messages: this.security.cleanupExpiredMessages(page.messages) }
+  }
+
+  // One message, e.g. the original of a reply on a page not loaded; null once expired like above
+  async getMessage(messageId: string): Promise<Message | null> {
+    const message = await this.storage.getMessage(messageId)
+    return message ? (this.security.cleanupExpiredMessages([message])[0] ?? null) : null
+  }
+
+  // Replies at any depth to a message, oldest first
+  async getThread(rootId: string): Promise<Message[]> {
+    const root = await this.storage.getMessage(rootId)
+    if (!root) return []
+
+    // Replies stay within their chat, one pointing into another is left out
+    const chatId = this.getChatId(root)
+    const replies = await getThreadReplies(rootId, async (messageId) =>
+      (await this.storage.getReplies(messageId)).filter((reply) => this.getChatId(reply) === chatId),
+    )
+    return this.security.cleanupExpiredMessages(replies)
+  }
+
+  // Search results with the chat to open for each, disappearing messages that have expired left out
+  async searchMessages(query: string): Promise<(SearchResult & { chatId: string })[]> {
+    const results = await this.storage.searchMessages(query)
+    const visible = this.security.cleanupExpiredMessages(results.map((result) => result.message))
+    const visibleIds = new Set(visible.map((message) => message.id))
+
+    return results
+      .filter((result) => visibleIds.has(result.message.id))
+      .map((result) => ({ ...result, chatId: this.getChatId(result.message) }))
+  }
+
+  private getChatId(message: Message): string {
+    if (message.groupId) return message.groupId
+    return (message.senderId === this.currentUser?.id ? message.recipientId : message.senderId) ?? message.senderId
+  }
+
+  // Replies stay within their chat
+  private async checkReplyTarget(chatId: string, replyTo?: string): Promise<void> {
+    if (!replyTo) return
+
+    const parent = await this.storage.getMessage(replyTo)
+    if (!parent || this.getChatId(parent) !== chatId) {
+      throw new Error("Message to reply to not found")
+    }
+  }
+
+  onMessage(listener: (message: Message) => void): void {
+    this.messageListeners.push(listener)
+  }
+
+  removeMessageListener(listener: (message: Message) => void): void {
+    const index = this.messageListeners.indexOf(listener)
     if (index > -1) {
       this.messageListeners.splice(index, 1)
     }
   }
 
-  getNetworkStatus(): { isConnected: boolean; peerCount: number } {
+  // Messages already delivered that changed, e.g. their status
+  onMessageUpdated(listener: (message: Message) => void): void {
+    this.messageUpdateListeners.push(listener)
+  }
+
+  removeMessageUpdatedListener(listener: (message: Message) => void): void {
+    const index = this.messageUpdateListeners.indexOf(listener)
+    if (index > -1) {
+      this.messageUpdateListeners.splice(index, 1)
+    }
+  }
+
+  getNetworkStatus(): ReturnType<P2PNetworkManager["getConnectionStatus"]> {
     return this.network.getConnectionStatus()
   }
 
   async shutdown(): Promise<void> {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval)
+      this.pruneInterval = null
+    }
+    if (this.outboxInterval) {
+      clearInterval(this.outboxInterval)
+      this.outboxInterval = null
+    }
+    if (this.presenceTimer) {
+      clearTimeout(this.presenceTimer)
+      this.presenceTimer = null
+    }
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer)
+      this.expiryTimer = null
+    }
+
+    // Best effort, contacts also notice when the connection drops
+    const contacts = await this.storage.getAllContacts()
+    for (const contact of contacts) {
+      if (contact.isOnline) {
+        await this.sendPresence(contact, "offline")
+      }
+    }
+    this.presence.clear()
+
     await this.network.shutdown()
   }
 }
@@ -0,0 +1,77 @@
+import { isValidAttachment } from "./attachment-manager"
+import { isValidClock } from "./message-clock"
+import type { NetworkMessage } from "./p2p-network"
+import type { Attachment, Message, VectorClock } from "./types"
+
+const MAX_MESSAGE_ID_LENGTH = 128
+
+// What a direct or group message encrypts: the text and what the sender decided about it
+export interface MessagePayload {
+  id?: string // Random, so messages sent in the same millisecond never share one
+  content: string
+  expiresAt?: number // Disappearing message, both sides delete it at this time
+  attachment?: Attachment
+  replyTo?: string
+  clock?: VectorClock
+}
+
+export function encodeMessagePayload(message: Message): string {
+  const payload: MessagePayload = {
+    id: message.id,
+    content: message.content,
+    expiresAt: message.expiresAt ? new Date(message.expiresAt).getTime() : undefined,
+    attachment: message.attachment,
+    replyTo: message.replyTo,
+    clock: message.clock,
+  }
+  return JSON.stringify(payload)
+}
+
+// Older clients encrypt the bare text
+export function decodeMessagePayload(plaintext: string): MessagePayload {
+  try {
+    const payload = JSON.parse(plaintext)
+    if (payload && typeof payload === "object" && typeof payload.content === "string") {
+      return {
+        id: isValidMessageId(payload.id) ? payload.id : undefined,
+        content: payload.content,
+        expiresAt: typeof payload.expiresAt === "number" ? payload.expiresAt : undefined,
+        attachment: payload.attachment && isValidAttachment(payload.attachment) ? payload.attachment : undefined,
+        replyTo: typeof payload.replyTo === "string" ? payload.replyTo : undefined,
+        clock: isValidClock(payload.clock) ? payload.clock : undefined,
+      }
+    }
+  } catch {
+    // Not JSON, a bare text
+  }
+  return { content: plaintext }
+}
+
+function isValidMessageId(id: unknown): id is string {
+  return typeof id === "string" && id.length > 0 && id.length <= MAX_MESSAGE_ID_LENGTH
+}
+
+// The id the sender signed into the payload. Older clients only put it on the envelope, or not at all.
+export function getReceivedMessageId(payload: MessagePayload, networkMessage: NetworkMessage): string {
+  return payload.id ?? networkMessage.messageId ?? `${networkMessage.senderId}-${networkMessage.timestamp}`
+}
+
+// Voice notes are attachments with a duration
+export function getMessageType(attachment?: Attachment): Message["messageType"] {
+  if (!attachment) return "text"
+  return attachment.duration !== undefined ? "voice" : "file"
+}
+
+// The message fields a received payload sets
+export function getPayloadFields(
+  payload: MessagePayload,
+): Pick<Message, "content" | "messageType" | "isEphemeral" | "expiresAt" | "attachment" | "replyTo" | "clock"> {
+  return {
+    content: payload.content,
+    messageType: getMessageType(payload.attachment),
+    ...(payload.expiresAt && { isEphemeral: true, expiresAt: new Date(payload.expiresAt) }),
+    ...(payload.attachment && { attachment: payload.attachment }),
+    ...(payload.replyTo && { replyTo: payload.replyTo }),
+    ...(payload.clock && { clock: payload.clock }),
+  }
+}
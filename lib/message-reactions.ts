@@ -0,0 +1,55 @@
+import type { Message, MessageReaction } from "./types"
+
+// Enough for any single emoji with modifiers and joiners, reactions are not messages
+const MAX_EMOJI_LENGTH = 32
+
+export interface ReactionSummary {
+  emoji: string
+  userIds: string[] // In the order they reacted
+}
+
+export function isValidReaction(reaction: MessageReaction): boolean {
+  return (
+    typeof reaction.messageId === "string" &&
+    typeof reaction.emoji === "string" &&
+    reaction.emoji.trim().length > 0 &&
+    reaction.emoji.length <= MAX_EMOJI_LENGTH &&
+    typeof reaction.isActive === "boolean" &&
+    typeof reaction.updatedAt === "number"
+  )
+}
+
+export function hasReacted(message: Message, userId: string, emoji: string): boolean {
+  return !!message.reactions?.some((state) => state.userId === userId && state.emoji === emoji && state.isActive)
+}
+
+// The message with the member's reaction changed, or the same message when a later change is already applied
+export function applyReaction(message: Message, userId: string, reaction: MessageReaction): Message {
+  const states = message.reactions ?? []
+  const current = states.find((state) => state.userId === userId && state.emoji === reaction.emoji)
+  if (current && current.updatedAt >= reaction.updatedAt) return message
+
+  const { emoji, isActive, updatedAt } = reaction
+  return {
+    ...message,
+    reactions: [...states.filter((state) => state !== current), { userId, emoji, isActive, updatedAt }],
+  }
+}
+
+// Active reactions grouped by emoji, the emoji first used first
+export function getReactionSummary(message: Message): ReactionSummary[] {
+  const active = (message.reactions ?? [])
+    .filter((state) => state.isActive)
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+  const summary: ReactionSummary[] = []
+
+  for (const state of active) {
+    const entry = summary.find((candidate) => candidate.emoji === state.emoji)
+    if (entry) {
+      entry.userIds.push(state.userId)
+    } else {
+      summary.push({ emoji: state.emoji, userIds: [state.userId] })
+    }
+  }
+  return summary
+}
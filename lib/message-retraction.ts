@@ -0,0 +1,47 @@
+import type { CryptoManager } from "./crypto"
+import type { Message, MessageRetraction } from "./types"
+import { canonicalJson } from "./utils"
+
+// A retraction its sender held back while we were unreachable keeps its signed time, but no further back than this
+const QUEUED_RETRACTION_GRACE = 6 * 60 * 60 * 1000
+
+// When a received retraction counts as made. The signed time comes from the sender's clock and could be set back to
+// slip under the time limit, so it is only used for a queued retraction and within the grace period.
+export function getRetractionTime(retraction: MessageRetraction, receivedAt: number, isQueued: boolean): number {
+  if (!isQueued) return receivedAt
+  return Math.min(receivedAt, Math.max(retraction.retractedAt, receivedAt - QUEUED_RETRACTION_GRACE))
+}
+
+export function getSignedRetractionData(retraction: MessageRetraction): string {
+  const data: Partial<MessageRetraction> = { ...retraction }
+  delete data.signature
+  return canonicalJson(data)
+}
+
+// Valid when signed with the message's sender's key
+export function isRetractionValid(
+  crypto: CryptoManager,
+  retraction: MessageRetraction,
+  senderSigningKey: string,
+): boolean {
+  return (
+    typeof retraction.messageId === "string" &&
+    typeof retraction.retractedAt === "number" &&
+    typeof retraction.signature === "string" &&
+    crypto.verifySignature(getSignedRetractionData(retraction), retraction.signature, senderSigningKey)
+  )
+}
+
+// What is left of a message deleted for everyone: who sent it where and when, and the signed retraction
+export function applyRetraction(message: Message, retraction: MessageRetraction): Message {
+  return {
+    ...message,
+    content: "",
+    messageType: "text",
+    attachment: undefined,
+    edit: undefined,
+    revisions: undefined,
+    reactions: undefined,
+    retraction,
+  }
+}
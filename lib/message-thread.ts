@@ -0,0 +1,33 @@
+import type { Message } from "./types"
+
+// The message a reply chain starts from. A chain whose parent we do not have starts at the oldest reply we have.
+export function getThreadRootId(message: Message, messagesById: Map<string, Message>): string {
+  const seen = new Set([message.id])
+  let current = message
+
+  while (current.replyTo) {
+    const parent = messagesById.get(current.replyTo)
+    if (!parent || seen.has(parent.id)) break
+    seen.add(parent.id)
+    current = parent
+  }
+  return current.id
+}
+
+// Replies at any depth below the root, oldest first, found by following each message's direct replies
+export async function getThreadReplies(
+  rootId: string,
+  getReplies: (messageId: string) => Promise<Message[]>,
+): Promise<Message[]> {
+  const replies: Message[] = []
+  const seen = new Set([rootId])
+
+  for (let parentIds = [rootId]; parentIds.length > 0; ) {
+    const children = (await Promise.all(parentIds.map(getReplies))).flat().filter((reply) => !seen.has(reply.id))
+    children.forEach((reply) => seen.add(reply.id))
+    replies.push(...children)
+    parentIds = children.map((reply) => reply.id)
+  }
+
+  return replies.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
@@ -0,0 +1,281 @@
+import type { AttachmentTransferManager } from "./attachment-transfer-manager"
+import { isInChat, type ControlMessage, type MessageContext } from "./message-context"
+import { applyEdit, getSignedEditData, isEditValid } from "./message-edit"
+import { applyReaction, hasReacted, isValidReaction } from "./message-reactions"
+import { applyRetraction, getRetractionTime, getSignedRetractionData, isRetractionValid } from "./message-retraction"
+import type { Message, MessageEdit, MessageReaction, MessageRetraction } from "./types"
+
+type MessageUpdate = ControlMessage<MessageEdit | MessageRetraction | MessageReaction>
+
+// Updates of messages we do not have are held for this many messages, the oldest make way
+const MAX_EARLY_UPDATE_MESSAGES = 100
+
+// Changes to messages already sent: signed edits and retractions of our own, and reactions to anyone's
+export class MessageUpdateManager {
+  // Updates that arrived before their message, by message id; senders send them once, not again
+  private earlyUpdates: Map<string, MessageUpdate[]> = new Map()
+
+  constructor(
+    private context: MessageContext,
+    private transfers: AttachmentTransferManager,
+  ) {}
+
+  // Replaces the text of one of our messages. The edit is signed, recipients keep the earlier texts.
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const message = await this.context.storage.getMessage(messageId)
+    if (!message || message.senderId !== currentUser.id) {
+      throw new Error("Only your own messages can be edited")
+    }
+    if (message.retraction) {
+      throw new Error("Deleted messages cannot be edited")
+    }
+    if (!content.trim() && !message.attachment) {
+      throw new Error("Message cannot be empty")
+    }
+
+    const signingPrivateKey = await this.getSigningPrivateKey()
+    const edit: MessageEdit = { messageId, content, editedAt: Date.now(), signature: "" }
+    edit.signature = this.context.crypto.signMessage(getSignedEditData(edit), signingPrivateKey)
+
+    const updated = applyEdit(message, edit)
+    await this.context.storage.saveMessage(updated)
+    this.context.notifyMessageUpdated(updated)
+
+    await this.sendMessageUpdate(updated, "message_edit", edit)
+    return updated
+  }
+
+  // Replaces one of our messages with a tombstone here and, through a signed retraction, for every recipient
+  async deleteMessageForEveryone(messageId: string): Promise<Message> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const message = await this.context.storage.getMessage(messageId)
+    if (!message || message.senderId !== currentUser.id) {
+      throw new Error("Only your own messages can be deleted for everyone")
+    }
+    if (message.retraction) return message
+
+    const retractedAt = Date.now()
+    if (!this.context.security.isRetractionAllowed(new Date(message.timestamp).getTime(), retractedAt)) {
+      throw new Error("This message is too old to be deleted for everyone")
+    }
+
+    const signingPrivateKey = await this.getSigningPrivateKey()
+    const retraction: MessageRetraction = { messageId, retractedAt, signature: "" }
+    retraction.signature = this.context.crypto.signMessage(getSignedRetractionData(retraction), signingPrivateKey)
+
+    const tombstone = await this.saveTombstone(message, retraction)
+    await this.sendMessageUpdate(tombstone, "message_retraction", retraction)
+    return tombstone
+  }
+
+  // The content goes with everything kept for it, and an unsent message never goes out
+  private async saveTombstone(message: Message, retraction: MessageRetraction): Promise<Message> {
+    const { storage } = this.context
+    await this.transfers.removeAttachment(message)
+    if (await storage.getOutboxEntry(message.id)) {
+      await storage.removeOutboxEntry(message.id)
+      this.context.notifyOutboxChanged()
+    }
+
+    const tombstone = applyRetraction(message, retraction)
+    await storage.saveMessage(tombstone)
+    this.context.notifyMessageUpdated(tombstone)
+    return tombstone
+  }
+
+  private async getSigningPrivateKey(): Promise<string> {
+    const keyPair = await this.context.storage.getKeyPair()
+    if (!keyPair?.signingPrivateKey) {
+      throw new Error("No signing key available")
+    }
+    return keyPair.signingPrivateKey
+  }
+
+  // Our change to a message goes to every other member of its chat. Those we cannot reach are kept in the
+  // pending updates, resendMessageUpdates sends them the message's changes once they are back online.
+  private async sendMessageUpdate(
+    message: Message,
+    type: "message_edit" | "message_retraction" | "message_reaction",
+    content: MessageEdit | MessageRetraction | MessageReaction,
+  ): Promise<void> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) return
+
+    const group = message.groupId ? await this.context.storage.getGroup(message.groupId) : null
+    const recipientIds = group ? group.members : [this.context.getChatId(message)]
+
+    for (const recipientId of recipientIds) {
+      if (recipientId !== currentUser.id && !(await this.context.sendToContact(recipientId, type, content))) {
+        await this.context.storage.addPendingUpdate(recipientId, message.id)
+      }
+    }
+  }
+
+  // Our changes to the message as they stand, queued: the retraction or latest edit when it is ours, and our
+  // reactions. Those older than queued messages are accepted for are left out. False when any did not go out.
+  private async resendUpdatesTo(peerId: string, message: Message): Promise<boolean> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) return false
+
+    const cutoff = Date.now() - this.context.security.getSettings().maxQueuedMessageAge
+    const options = { queued: true }
+    let isSent = true
+
+    if (message.senderId === currentUser.id) {
+      if (message.retraction && message.retraction.retractedAt >= cutoff) {
+        isSent = await this.context.sendToContact(peerId, "message_retraction", message.retraction, options)
+      } else if (!message.retraction && message.edit && message.edit.editedAt >= cutoff) {
+        isSent = await this.context.sendToContact(peerId, "message_edit", message.edit, options)
+      }
+    }
+
+    for (const { userId, emoji, isActive, updatedAt } of message.reactions ?? []) {
+      if (userId !== currentUser.id || updatedAt < cutoff) continue
+
+      const reaction: MessageReaction = { messageId: message.id, emoji, isActive, updatedAt }
+      isSent = (await this.context.sendToContact(peerId, "message_reaction", reaction, options)) && isSent
+    }
+    return isSent
+  }
+
+  // The changes a peer missed while offline, sent queued now that it is back
+  async resendMessageUpdates(peerId: string): Promise<void> {
+    const { storage } = this.context
+
+    try {
+      for (const messageId of await storage.getPendingUpdates(peerId)) {
+        const message = await storage.getMessage(messageId)
+        const isDone =
+          !message || !(await isInChat(storage, message, peerId)) || (await this.resendUpdatesTo(peerId, message))
+        if (isDone) {
+          await storage.removePendingUpdate(peerId, messageId)
+        }
+      }
+    } catch (error) {
+      console.error("[v0] Error resending message updates:", error)
+    }
+  }
+
+  // An edit or retraction of a message we have, checked against the message's sender
+  async handleMessageUpdate(update: ControlMessage<MessageEdit | MessageRetraction>): Promise<void> {
+    const { type, contact, content, isQueued } = update
+    const { storage, security, crypto } = this.context
+    const message = await storage.getMessage(content.messageId)
+    if (!message) return this.holdUntilReceived(update)
+    if (message.retraction) return
+
+    const isEdit = type === "message_edit"
+    const isSigned =
+      !!contact.signingPublicKey &&
+      (isEdit
+        ? isEditValid(crypto, content as MessageEdit, contact.signingPublicKey)
+        : isRetractionValid(crypto, content as MessageRetraction, contact.signingPublicKey))
+    const isValid =
+      message.senderId === contact.id &&
+      isSigned &&
+      (!message.groupId || !!(await storage.getGroup(message.groupId))?.members.includes(contact.id))
+    if (!isValid) {
+      const change = isEdit ? "edit" : "deletion"
+      const alert = `Rejected a forged message ${change} from ${contact.username}`
+      security.raiseAlert("message_tampering", alert, "medium")
+      return
+    }
+
+    if (!isEdit) {
+      const retraction = content as MessageRetraction
+      // Our own limit decides, a sender cannot take back messages we consider settled
+      const retractedAt = getRetractionTime(retraction, Date.now(), isQueued)
+      if (security.isRetractionAllowed(new Date(message.timestamp).getTime(), retractedAt)) {
+        await this.saveTombstone(message, retraction)
+      } else {
+        console.warn("[v0] Ignoring a deletion past the time limit for message:", message.id)
+      }
+      return
+    }
+
+    const updated = applyEdit(message, content as MessageEdit)
+    if (updated === message) return
+
+    await storage.saveMessage(updated)
+    this.context.notifyMessageUpdated(updated)
+  }
+
+  // Adds our reaction with the emoji, or removes it when it is there
+  async toggleReaction(messageId: string, emoji: string): Promise<Message> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) {
+      throw new Error("User not initialized")
+    }
+
+    const message = await this.context.storage.getMessage(messageId)
+    if (!message || message.retraction) {
+      throw new Error("Message not found")
+    }
+
+    const reaction: MessageReaction = {
+      messageId,
+      emoji,
+      isActive: !hasReacted(message, currentUser.id, emoji),
+      updatedAt: Date.now(),
+    }
+    if (!isValidReaction(reaction)) {
+      throw new Error("Invalid reaction")
+    }
+
+    const updated = applyReaction(message, currentUser.id, reaction)
+    await this.context.storage.saveMessage(updated)
+    this.context.notifyMessageUpdated(updated)
+
+    await this.sendMessageUpdate(updated, "message_reaction", reaction)
+    return updated
+  }
+
+  async handleReaction(update: ControlMessage<MessageReaction>): Promise<void> {
+    const { contact, content: reaction } = update
+    if (!isValidReaction(reaction)) return
+
+    // Only members of the message's chat react to it
+    const { storage } = this.context
+    const message = await storage.getMessage(reaction.messageId)
+    if (!message) return this.holdUntilReceived(update)
+    if (message.retraction || !(await isInChat(storage, message, contact.id))) return
+
+    const updated = applyReaction(message, contact.id, reaction)
+    if (updated === message) return
+
+    await storage.saveMessage(updated)
+    this.context.notifyMessageUpdated(updated)
+  }
+
+  // A message sent while we were offline can arrive after a change to it, from its sender's outbox or another member
+  private holdUntilReceived(update: MessageUpdate): void {
+    const messageId = update.content.messageId
+    if (!this.earlyUpdates.has(messageId) && this.earlyUpdates.size >= MAX_EARLY_UPDATE_MESSAGES) {
+      this.earlyUpdates.delete(this.earlyUpdates.keys().next().value!)
+    }
+    this.earlyUpdates.set(messageId, [...(this.earlyUpdates.get(messageId) ?? []), update])
+  }
+
+  // Once a message is saved, the updates that came before it are checked and applied in the order they came
+  async applyEarlyUpdates(messageId: string): Promise<void> {
+    const updates = this.earlyUpdates.get(messageId) ?? []
+    this.earlyUpdates.delete(messageId)
+
+    for (const update of updates) {
+      if (update.type === "message_reaction") {
+        await this.handleReaction(update as ControlMessage<MessageReaction>)
+      } else {
+        await this.handleMessageUpdate(update as ControlMessage<MessageEdit | MessageRetraction>)
+      }
+    }
+  }
+}
@@ -1,35 +1,86 @@
+import { CryptoManager } from "./crypto"
 import type { User } from "./types"
+import { createSignalingClient, type PeerPresence, type SignalingClient } from "./signaling"
+import { BroadcastChannelTransport, LocalStorageTransport, type Transport } from "./transport"
+import { canonicalJson } from "./utils"
+import { WebRTCTransport } from "./webrtc-transport"
 
 export interface NetworkMessage {
-  type: "direct_message" | "group_message" | "user_status" | "peer_discovery"
+  type:
+    | "direct_message"
+    | "group_message"
+    | "user_status"
+    | "typing"
+    | "chat_settings"
+    | "message_edit"
+    | "message_retraction"
+    | "message_reaction"
+    | "file_chunk"
+    | "peer_discovery"
+    | "prekey_bundle"
+    | "sender_key"
+    | "group_event"
+    | "delivery_receipt"
+    | "read_receipt"
   senderId: string
   recipientId?: string
   groupId?: string
   content: string
   timestamp: number
-  signature?: string
+  signature?: string // Sender's signing key over getSignedEnvelopeData, set by the network on send
+  // How the content is encrypted: "box" or "ratchet" for pairwise messages ("box" when absent),
+  // "sender_key" for group messages (the legacy shared group key when absent)
+  encryption?: "box" | "ratchet" | "sender_key"
+  queued?: boolean // Held back by the sender while we were unreachable, accepted for longer than fresh messages
+  messageId?: string // The sender's id for a direct or group message, receipts refer to it
 }
 
-export interface PeerConnection {
-  id: string
-  connection: RTCPeerConnection
-  dataChannel?: RTCDataChannel
-  isConnected: boolean
+// Everything sent to one peer that is not a chat message, see sendControl
+export type ControlMessageType = Exclude<NetworkMessage["type"], "direct_message" | "group_message" | "peer_discovery">
+
+// Queued messages keep the time they were written
+type SendOptions = Partial<Pick<NetworkMessage, "encryption" | "queued" | "timestamp" | "messageId">>
+
+export interface NetworkOptions {
+  signingPrivateKey: string
+  signalingUrl?: string | null // Self-hosted signaling server, same-browser signaling when empty
+  transports?: Transport[] // Tried in order, defaults to WebRTC with a cross-tab fallback
+}
+
+// The whole envelope except the signature, in a stable key order so both ends sign the same bytes
+export function getSignedEnvelopeData(message: NetworkMessage): string {
+  const envelope: Partial<NetworkMessage> = { ...message }
+  delete envelope.signature
+  return canonicalJson(envelope)
+}
+
+export function createDefaultTransports(): Transport[] {
+  if (typeof window === "undefined") return []
+
+  const transports: Transport[] = []
+  if (typeof RTCPeerConnection !== "undefined") {
+    transports.push(new WebRTCTransport())
+  }
+  transports.push(typeof BroadcastChannel !== "undefined" ? new BroadcastChannelTransport() : new LocalStorageTransport())
+  return transports
 }
 
 export class P2PNetworkManager {
   private static instance: P2PNetworkManager
+  private crypto = CryptoManager.getInstance()
   private currentUser: User | null = null
-  private peers: Map<string, PeerConnection> = new Map()
+  private transports: Transport[] = []
   private messageHandlers: ((message: NetworkMessage) => void)[] = []
   private peerStatusHandlers: ((peerId: string, isOnline: boolean) => void)[] = []
+  private peerDiscoveredHandlers: ((presence: PeerPresence) => void)[] = []
   private isInitialized = false
-  private signalingServer: WebSocket | null = null
+  private signaling: SignalingClient | null = null
+  private signalingUrl: string | null = null
+  private signingPrivateKey: string | null = null
   private isNetworkOnline = true
-  private broadcastChannel: BroadcastChannel | null = null
-  private storageEventListener: ((event: StorageEvent) => void) | null = null
+  private discoveryInterval: ReturnType<typeof setInterval> | null = null
 
-  private constructor() {
+  constructor() {
     if (typeof window !== "undefined") {
       this.isNetworkOnline = navigator.onLine
       window.addEventListener("online", () => {
@@ -50,14 +101,20 @@ export class P2PNetworkManager {
     return P2PNetworkManager.instance
   }
 
-  async initialize(user: User): Promise<void> {
-    if (this.isInitialized || typeof window === "undefined") return
+  async initialize(user: User, options: NetworkOptions): Promise<void> {
+    if (this.isInitialized) return
+
+    if (!user.signingPublicKey) {
+      throw new Error("Signing key required for signaling")
+    }
 
     this.currentUser = user
+    this.signingPrivateKey = options.signingPrivateKey
     console.log(`[v0] Initializing P2P network for user: ${user.username}`)
 
     try {
-      this.setupCrossTabCommunication()
+      await this.setupTransports(options.transports ?? createDefaultTransports())
+      await this.connectSignaling(options.signalingUrl ?? null)
       this.setupPeerDiscovery()
 
       this.isInitialized = true
@@ -73,94 +130,83 @@ export class P2PNetworkManager {
     }
   }
 
-  private setupCrossTabCommunication(): void {
-    if (typeof window === "undefined") return
+  private async setupTransports(transports: Transport[]): Promise<void> {
+    if (transports.length === 0) {
+      throw new Error("No transport available")
+    }
 
-    if (typeof BroadcastChannel !== "undefined") {
-      this.broadcastChannel = new BroadcastChannel("p2p-chat-demo")
-      this.broadcastChannel.onmessage = (event) => {
-        this.handleCrossTabMessage(event.data)
-      }
-    } else {
-      this.storageEventListener = (event) => {
-        if (event.key === "p2p-chat-messages" && event.newValue) {
-          try {
-            const message = JSON.parse(event.newValue)
-            this.handleCrossTabMessage(message)
-          } catch (error) {
-            console.error("Error parsing cross-tab message:", error)
-          }
+    for (const transport of transports) {
+      transport.onFrame((message) => this.handleIncomingMessage(message))
+      transport.onPeerUp((peerId) => this.notifyPeerStatus(peerId, true))
+      transport.onPeerDown((peerId) => {
+        // Another transport may still reach the peer
+        if (!this.getConnectedPeers().includes(peerId)) {
+          this.notifyPeerStatus(peerId, false)
         }
-      }
-      window.addEventListener("storage", this.storageEventListener)
+      })
+
+      await transport.start(this.currentUser!.id)
+      console.log("[v0] Started transport:", transport.name)
     }
+
+    this.transports = transports
   }
 
-  private handleCrossTabMessage(data: any): void {
-    if (data.type === "network_message" && data.message) {
-      if (data.message.senderId === this.currentUser?.id) return
+  private async connectSignaling(url: string | null): Promise<void> {
+    if (!this.currentUser?.signingPublicKey || !this.signingPrivateKey) return
 
-      console.log("[v0] Received cross-tab message:", data.message)
-      this.handleIncomingMessage(data.message)
-    } else if (data.type === "peer_announcement") {
-      if (data.userId !== this.currentUser?.id) {
-        console.log("[v0] Discovered peer:", data.userId)
-        this.handlePeerDiscovery(data.userId, data.userData)
-      }
+    const signaling = createSignalingClient(url)
+    signaling.onPresence((presence) => this.handlePeerDiscovery(presence))
+    signaling.onPeerLeft((peerId) => console.log("[v0] Peer left signaling:", peerId))
+
+    this.signaling = signaling
+    this.signalingUrl = url
+    this.transports.forEach((transport) => transport.useSignaling?.(signaling))
+
+    try {
+      await signaling.connect({
+        userId: this.currentUser.id,
+        signingPublicKey: this.currentUser.signingPublicKey,
+        signingPrivateKey: this.signingPrivateKey,
+      })
+    } catch (error) {
+      // The client keeps retrying in the background, peers already connected are unaffected
+      console.error("Failed to connect to signaling server:", error)
     }
   }
 
-  private handlePeerDiscovery(peerId: string, userData: any): void {
-    if (!this.peers.has(peerId)) {
-      const mockPeer: PeerConnection = {
-        id: peerId,
-        connection: new RTCPeerConnection(), // Mock connection
-        isConnected: true,
-      }
-
-      this.peers.set(peerId, mockPeer)
-      this.notifyPeerStatus(peerId, true)
-      console.log("[v0] Added peer:", peerId)
+  async setSignalingServer(url: string | null): Promise<void> {
+    if (!this.isInitialized) {
+      this.signalingUrl = url
+      return
     }
+
+    this.signaling?.close()
+    this.signaling = null
+
+    await this.connectSignaling(url)
+    await this.announcePresence()
+  }
+
+  private handlePeerDiscovery(presence: PeerPresence): void {
+    this.peerDiscoveredHandlers.forEach((handler) => handler(presence))
   }
 
   private setupPeerDiscovery(): void {
     this.announcePresence()
 
-    setInterval(() => {
+    this.discoveryInterval = setInterval(() => {
       if (this.isInitialized && this.currentUser) {
         this.announcePresence()
       }
     }, 5000) // Announce every 5 seconds
   }
 
-  private async createPeerConnection(peerId: string): Promise<RTCPeerConnection> {
-    const configuration: RTCConfiguration = {
-      iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
-    }
-
-    const peerConnection = new RTCPeerConnection(configuration)
-
-    peerConnection.oniceconnectionstatechange = () => {
-      console.log(`ICE connection state for ${peerId}:`, peerConnection.iceConnectionState)
-
-      if (peerConnection.iceConnectionState === "connected" || peerConnection.iceConnectionState === "completed") {
-        this.notifyPeerStatus(peerId, true)
-      } else if (
-        peerConnection.iceConnectionState === "disconnected" ||
-        peerConnection.iceConnectionState === "failed"
-      ) {
-        this.notifyPeerStatus(peerId, false)
-        this.peers.delete(peerId)
-      }
-    }
-
-    return peerConnection
-  }
-
   private async handleIncomingMessage(message: NetworkMessage): Promise<void> {
     try {
       if (message.senderId === this.currentUser?.id) return
+      // Broadcast media hand every tab the copies meant for other peers
+      if (message.recipientId && message.recipientId !== this.currentUser?.id) return
 
       this.messageHandlers.forEach((handler) => handler(message))
     } catch (error) {
@@ -172,7 +218,8 @@ export class P2PNetworkManager {
     this.peerStatusHandlers.forEach((handler) => handler(peerId, isOnline))
   }
 
-  async sendDirectMessage(recipientId: string, content: string, signature?: string): Promise<void> {
+  // Resolves to whether a transport could reach the recipient
+  async sendDirectMessage(recipientId: string, content: string, options: SendOptions = {}): Promise<boolean> {
     if (!this.currentUser) {
       throw new Error("Network not initialized")
     }
@@ -183,18 +230,68 @@ export class P2PNetworkManager {
       recipientId,
       content,
       timestamp: Date.now(),
-      signature,
+      ...options,
     }
 
     console.log("[v0] Sending direct message:", message)
+    return this.sendToPeer(recipientId, message)
+  }
+
+  // Content is encrypted for the recipient like a direct message, except for prekey bundles, which are public, and
+  // file chunks, which are encrypted already. Resolves to whether a transport could reach the recipient.
+  async sendControl(
+    type: ControlMessageType,
+    recipientId: string,
+    content: string,
+    options: Pick<NetworkMessage, "encryption" | "queued"> = {},
+  ): Promise<boolean> {
+    if (!this.currentUser) {
+      throw new Error("Network not initialized")
+    }
 
-    this.broadcastCrossTabMessage({
-      type: "network_message",
-      message,
+    return this.sendToPeer(recipientId, {
+      type,
+      senderId: this.currentUser.id,
+      recipientId,
+      content,
+      timestamp: Date.now(),
+      ...options,
     })
   }
 
-  async sendGroupMessage(groupId: string, content: string, signature?: string): Promise<void> {
+  private sendToPeer(recipientId: string, message: NetworkMessage): boolean {
+    const signedMessage = this.sign(message)
+
+    // First transport that can reach the peer wins
+    const transport = this.transports.find((candidate) => candidate.send(recipientId, signedMessage))
+    if (!transport) {
+      console.warn("[v0] No transport could reach peer:", recipientId)
+    }
+    return !!transport
+  }
+
+  // Our signing key for one contact, boxed by the caller so that only the holder of our public key can have sent it
+  async sendKeyAnnouncement(recipientId: string, content: string): Promise<boolean> {
+    if (!this.currentUser) {
+      throw new Error("Network not initialized")
+    }
+
+    return this.sendToPeer(recipientId, {
+      type: "peer_discovery",
+      senderId: this.currentUser.id,
+      recipientId,
+      content,
+      timestamp: Date.now(),
+    })
+  }
+
+  // A copy for each member, resolves to the members a transport could reach
+  async sendGroupMessage(
+    groupId: string,
+    memberIds: string[],
+    content: string,
+    options: SendOptions = {},
+  ): Promise<string[]> {
     if (!this.currentUser) {
       throw new Error("Network not initialized")
     }
@@ -205,34 +302,23 @@ export class P2PNetworkManager {
       groupId,
       content,
       timestamp: Date.now(),
-      signature,
+      ...options,
     }
 
     console.log("[v0] Sending group message:", message)
-
-    this.broadcastCrossTabMessage({
-      type: "network_message",
-      message,
-    })
-  }
-
-  private broadcastCrossTabMessage(data: any): void {
-    if (this.broadcastChannel) {
-      this.broadcastChannel.postMessage(data)
-    } else {
-      localStorage.setItem("p2p-chat-messages", JSON.stringify(data))
-      setTimeout(() => {
-        localStorage.removeItem("p2p-chat-messages")
-      }, 100)
+    const reached = memberIds.filter((memberId) => this.sendToPeer(memberId, { ...message, recipientId: memberId }))
+    if (reached.length === 0) {
+      console.warn("[v0] No transport could reach any member of group:", groupId)
     }
+    return reached
   }
 
-  async joinGroup(groupId: string): Promise<void> {
-    console.log(`Joined group: ${groupId}`)
-  }
+  private sign(message: NetworkMessage): NetworkMessage {
+    if (!this.signingPrivateKey) {
+      throw new Error("Network not initialized")
+    }
 
-  async leaveGroup(groupId: string): Promise<void> {
-    console.log(`Left group: ${groupId}`)
+    return { ...message, signature: this.crypto.signMessage(getSignedEnvelopeData(message), this.signingPrivateKey) }
   }
 
   private async announcePresence(): Promise<void> {
@@ -244,19 +330,13 @@ export class P2PNetworkManager {
       isOnline: true,
     }
 
-    this.broadcastCrossTabMessage({
-      type: "peer_announcement",
+    // Contacts learn more than this (away, last seen) from encrypted user_status messages
+    this.signaling?.announce({
       userId: this.currentUser.id,
-      userData,
+      signingPublicKey: this.currentUser.signingPublicKey ?? "",
+      ...userData,
     })
 
-    const message: NetworkMessage = {
-      type: "user_status",
-      senderId: this.currentUser.id,
-      content: JSON.stringify(userData),
-      timestamp: Date.now(),
-    }
-
     console.log("[v0] Announced presence for:", this.currentUser.username)
   }
 
@@ -279,6 +359,10 @@ export class P2PNetworkManager {
     this.peerStatusHandlers.push(handler)
   }
 
+  onPeerDiscovered(handler: (presence: PeerPresence) => void): void {
+    this.peerDiscoveredHandlers.push(handler)
+  }
+
   removeMessageHandler(handler: (message: NetworkMessage) => void): void {
     const index = this.messageHandlers.indexOf(handler)
     if (index > -1) {
@@ -294,36 +378,38 @@ export class P2PNetworkManager {
   }
 
   getConnectedPeers(): string[] {
-    return Array.from(this.peers.keys()).filter((peerId) => this.peers.get(peerId)?.isConnected)
+    const peers = new Set<string>()
+    this.transports.forEach((transport) => transport.getPeers().forEach((peerId) => peers.add(peerId)))
+    return Array.from(peers)
   }
 
-  getConnectionStatus(): { isConnected: boolean; peerCount: number } {
+  getConnectionStatus(): {
+    isConnected: boolean
+    peerCount: number
+    signalingUrl: string | null
+    isSignalingConnected: boolean
+  } {
     const connectedPeers = this.getConnectedPeers()
     return {
       isConnected: this.isInitialized && this.isNetworkOnline,
       peerCount: connectedPeers.length,
+      signalingUrl: this.signalingUrl,
+      isSignalingConnected: this.signaling?.isConnected() ?? false,
     }
   }
 
   async shutdown(): Promise<void> {
-    if (this.broadcastChannel) {
-      this.broadcastChannel.close()
-      this.broadcastChannel = null
-    }
-
-    if (this.storageEventListener) {
-      window.removeEventListener("storage", this.storageEventListener)
-      this.storageEventListener = null
+    if (this.discoveryInterval) {
+      clearInterval(this.discoveryInterval)
+      this.discoveryInterval = null
     }
 
-    this.peers.forEach((peer) => {
-      peer.connection.close()
-    })
-    this.peers.clear()
+    this.transports.forEach((transport) => transport.close())
+    this.transports = []
 
-    if (this.signalingServer) {
-      this.signalingServer.close()
-      this.signalingServer = null
+    if (this.signaling) {
+      this.signaling.close()
+      this.signaling = null
     }
 
     this.isInitialized = false
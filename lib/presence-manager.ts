@@ -0,0 +1,94 @@
+import type { PresenceState } from "./types"
+
+// Content of user_status and typing network messages, encrypted for one contact like a direct message
+export interface StatusContent {
+  presence?: { state: PresenceState; lastSeen: number }
+  typing?: { groupId?: string; isTyping: boolean } // No group for a direct chat
+}
+
+const TYPING_REFRESH_INTERVAL = 3000 // While we keep typing, the signal goes out again this often
+const TYPING_TIMEOUT = 6000 // Receivers drop a typing signal that was not refreshed in time
+const PRESENCE_MIN_INTERVAL = 10 * 1000
+
+// Throttles the typing and presence signals we send, expires the typing signals we receive.
+// Sending them is up to the MessageManager.
+export class PresenceManager {
+  private sentTyping: Map<string, number> = new Map() // Chat id -> when "typing" last went out
+  private typing: Map<string, Map<string, ReturnType<typeof setTimeout>>> = new Map() // Chat id -> user id -> expiry
+  private typingListeners: ((chatId: string, userIds: string[]) => void)[] = []
+  private presence: PresenceState = "online"
+  private lastPresenceSentAt = 0
+
+  // Whether a typing change for the chat should go out now
+  shouldSendTyping(chatId: string, isTyping: boolean): boolean {
+    const lastSent = this.sentTyping.get(chatId)
+
+    if (!isTyping) {
+      if (lastSent === undefined) return false
+      this.sentTyping.delete(chatId)
+      return true
+    }
+
+    if (lastSent !== undefined && Date.now() - lastSent < TYPING_REFRESH_INTERVAL) return false
+    this.sentTyping.set(chatId, Date.now())
+    return true
+  }
+
+  receiveTyping(chatId: string, userId: string, isTyping: boolean): void {
+    const chatTyping = this.typing.get(chatId) ?? new Map<string, ReturnType<typeof setTimeout>>()
+    clearTimeout(chatTyping.get(userId))
+    chatTyping.delete(userId)
+
+    if (isTyping) {
+      chatTyping.set(
+        userId,
+        setTimeout(() => this.receiveTyping(chatId, userId, false), TYPING_TIMEOUT),
+      )
+    }
+
+    this.typing.set(chatId, chatTyping)
+    const userIds = this.getTypingUsers(chatId)
+    this.typingListeners.forEach((listener) => listener(chatId, userIds))
+  }
+
+  getTypingUsers(chatId: string): string[] {
+    return Array.from(this.typing.get(chatId)?.keys() ?? [])
+  }
+
+  onTypingChanged(listener: (chatId: string, userIds: string[]) => void): void {
+    this.typingListeners.push(listener)
+  }
+
+  removeTypingListener(listener: (chatId: string, userIds: string[]) => void): void {
+    const index = this.typingListeners.indexOf(listener)
+    if (index > -1) {
+      this.typingListeners.splice(index, 1)
+    }
+  }
+
+  // Returns whether the state changed
+  setPresence(state: PresenceState): boolean {
+    if (state === this.presence) return false
+    this.presence = state
+    return true
+  }
+
+  getPresence(): PresenceState {
+    return this.presence
+  }
+
+  // Milliseconds until our presence may be broadcast again, 0 when it may go out now
+  getPresenceDelay(): number {
+    return Math.max(0, this.lastPresenceSentAt + PRESENCE_MIN_INTERVAL - Date.now())
+  }
+
+  markPresenceSent(): void {
+    this.lastPresenceSentAt = Date.now()
+  }
+
+  clear(): void {
+    this.typing.forEach((chatTyping) => chatTyping.forEach((timer) => clearTimeout(timer)))
+    this.typing.clear()
+    this.sentTyping.clear()
+  }
+}
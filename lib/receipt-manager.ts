@@ -0,0 +1,130 @@
+import type { ControlMessage, MessageContext } from "./message-context"
+import type { Message, OutboxEntry } from "./types"
+
+// Content of delivery_receipt and read_receipt network messages, the sender's ids of the messages
+export interface ReceiptContent {
+  messageIds: string[]
+}
+
+// Our messages' status only moves forward, a late "sent" must not hide a receipt
+const STATUS_RANK: Record<NonNullable<Message["status"]>, number> = {
+  sending: 0,
+  failed: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+}
+
+// Delivery and read receipts both ways, and the status of our messages they move forward
+export class ReceiptManager {
+  constructor(private context: MessageContext) {}
+
+  async sendReceipt(
+    contactId: string,
+    type: "delivery_receipt" | "read_receipt",
+    messageIds: string[],
+  ): Promise<void> {
+    const content: ReceiptContent = { messageIds }
+    await this.context.sendToContact(contactId, type, content)
+  }
+
+  async handleReceipt({ type, contact, content }: ControlMessage<ReceiptContent>): Promise<void> {
+    const { storage } = this.context
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) return
+
+    const receiptStatus = type === "read_receipt" ? "read" : "delivered"
+
+    for (const messageId of content.messageIds) {
+      const message = await storage.getMessage(messageId)
+      if (!message || message.senderId !== currentUser.id) continue
+
+      if (message.groupId) {
+        const group = await storage.getGroup(message.groupId)
+        if (!group || !group.members.includes(contact.id)) continue
+
+        await this.markMemberReached(message.id, contact.id)
+
+        const receipts = { ...message.receipts }
+        if (receipts[contact.id] === "read") continue
+        receipts[contact.id] = receiptStatus
+
+        // The message is delivered, or read, once every other member got that far
+        const others = group.members.filter((memberId) => memberId !== currentUser.id)
+        const status = others.every((memberId) => receipts[memberId] === "read")
+          ? "read"
+          : others.every((memberId) => receipts[memberId])
+            ? "delivered"
+            : undefined
+        await this.updateMessageStatus(message.id, status, receipts)
+      } else if (message.recipientId === contact.id) {
+        await this.updateMessageStatus(message.id, receiptStatus)
+      }
+    }
+  }
+
+  // A receipt shows the member has a copy, even when our send to them seemed to fail
+  private async markMemberReached(messageId: string, memberId: string): Promise<void> {
+    const entry = await this.context.storage.getOutboxEntry(messageId)
+    if (!entry?.pendingMemberIds?.includes(memberId)) return
+
+    const pendingMemberIds = entry.pendingMemberIds.filter((id) => id !== memberId)
+    const updated: OutboxEntry = { ...entry, pendingMemberIds }
+    if (pendingMemberIds.length === 0 && entry.state === "pending") {
+      updated.state = "sent"
+      updated.lastError = undefined
+    }
+    await this.context.storage.saveOutboxEntry(updated)
+    this.context.notifyOutboxChanged()
+  }
+
+  // Saves the message with the status unless it would move backwards, and keeps the outbox entry in step
+  async updateMessageStatus(
+    messageId: string,
+    status?: Message["status"],
+    receipts?: Message["receipts"],
+  ): Promise<void> {
+    const { storage } = this.context
+    const current = await storage.getMessage(messageId)
+    if (!current) return
+
+    const updated: Message = { ...current, receipts: receipts ?? current.receipts }
+    if (status && (!current.status || STATUS_RANK[status] >= STATUS_RANK[current.status])) {
+      updated.status = status
+    }
+
+    await storage.saveMessage(updated)
+    this.context.notifyMessageUpdated(updated)
+
+    if (updated.status === "delivered" || updated.status === "read") {
+      const entry = await storage.getOutboxEntry(messageId)
+      if (entry && entry.state !== "delivered") {
+        await storage.saveOutboxEntry({ ...entry, state: "delivered" })
+        this.context.notifyOutboxChanged()
+      }
+    }
+  }
+
+  // Marks the received messages of a chat read, and tells their senders unless read receipts are off
+  async markChatRead(chatId: string): Promise<void> {
+    const currentUser = this.context.getCurrentUser()
+    if (!currentUser) return
+
+    const unread = (await this.context.storage.getUnreadMessages(chatId)).filter(
+      (message) => message.senderId !== currentUser.id && message.status !== "read",
+    )
+    if (unread.length === 0) return
+
+    const bySender = new Map<string, string[]>()
+    for (const message of unread) {
+      await this.updateMessageStatus(message.id, "read")
+      bySender.set(message.senderId, [...(bySender.get(message.senderId) ?? []), message.id])
+    }
+
+    if (!this.context.security.getSettings().sendReadReceipts) return
+
+    for (const [senderId, messageIds] of bySender) {
+      await this.sendReceipt(senderId, "read_receipt", messageIds)
+    }
+  }
+}
@@ -0,0 +1,270 @@
+import type LocalForage from "localforage"
+import type { CryptoManager } from "./crypto"
+import type { KeyPair, Message } from "./types"
+import { createLock } from "./utils"
+
+// A search box query: words and "quoted phrases" that must all match, and from:, after: and before: filters
+export interface SearchQuery {
+  terms: string[]
+  phrases: string[]
+  from?: string
+  after?: Date // On or after this day
+  before?: Date // Before this day
+}
+
+export interface SnippetPart {
+  text: string
+  isMatch: boolean
+}
+
+export interface SearchResult {
+  message: Message
+  snippet: SnippetPart[]
+}
+
+const SEARCH_KEY_SALT = "00".repeat(32)
+const INDEX_VERSION_KEY = "version"
+const INDEX_VERSION = 1
+const INDEX_LOCK = "index"
+const SNIPPET_RADIUS = 40
+
+// The text a message is found by: its own, or the name of its file. Deleted messages have none.
+export function getSearchableText(message: Message): string {
+  if (message.retraction) return ""
+  return [message.content, message.attachment?.name].filter(Boolean).join(" ")
+}
+
+// Lowercased words without accents, so "Café" is found by "cafe"
+export function tokenize(text: string): string[] {
+  return [...new Set(normalizeText(text).match(/[\p{L}\p{N}]+/gu) ?? [])]
+}
+
+function normalizeText(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase()
+}
+
+// The normalized text with, for every character of it, where it came from in the original
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = ""
+  const offsets: number[] = []
+  let offset = 0
+
+  for (const char of text) {
+    const normalizedChar = normalizeText(char)
+    normalized += normalizedChar
+    offsets.push(...Array.from({ length: normalizedChar.length }, () => offset))
+    offset += char.length
+  }
+
+  offsets.push(text.length)
+  return { normalized, offsets }
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], phrases: [] }
+
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      const normalized = normalizeText(phrase).trim()
+      if (normalized) query.phrases.push(normalized)
+      continue
+    }
+
+    const filter = word.match(/^(from|after|before):(.+)$/i)
+    const filterName = filter?.[1].toLowerCase()
+    const date = filter && filterName !== "from" ? parseDay(filter[2]) : null
+
+    if (filterName === "from") {
+      query.from = filter![2].toLowerCase()
+    } else if (filterName === "after" && date) {
+      query.after = date
+    } else if (filterName === "before" && date) {
+      query.before = date
+    } else {
+      query.terms.push(...tokenize(word))
+    }
+  }
+
+  query.terms = [...new Set(query.terms)]
+  return query
+}
+
+// Start of the day in local time, dates like 2026-10-19
+function parseDay(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (!match) return null
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return isNaN(date.getTime()) ? null : date
+}
+
+export function isSearchQueryEmpty(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && !query.from && !query.after && !query.before
+}
+
+// The words the index looks up, those of the phrases included
+export function getQueryTokens(query: SearchQuery): string[] {
+  return [...new Set([...query.terms, ...query.phrases.flatMap(tokenize)])]
+}
+
+// Senders are matched by the ids the from: filter resolved to
+export function matchesSearchQuery(message: Message, query: SearchQuery, senderIds?: string[]): boolean {
+  const text = normalizeText(getSearchableText(message))
+  const tokens = new Set(tokenize(text))
+  const sentAt = new Date(message.timestamp).getTime()
+
+  return (
+    !!text &&
+    query.terms.every((term) => tokens.has(term)) &&
+    query.phrases.every((phrase) => text.includes(phrase)) &&
+    (!senderIds || senderIds.includes(message.senderId)) &&
+    (!query.after || sentAt >= query.after.getTime()) &&
+    (!query.before || sentAt < query.before.getTime())
+  )
+}
+
+// A window of the text around the first hit, with every hit in it marked
+export function getSnippet(text: string, query: SearchQuery): SnippetPart[] {
+  const { normalized, offsets } = normalizeWithOffsets(text)
+  const hits: [number, number][] = []
+
+  for (const needle of [...query.phrases, ...query.terms]) {
+    for (let index = normalized.indexOf(needle); index !== -1; index = normalized.indexOf(needle, index + 1)) {
+      hits.push([offsets[index], offsets[index + needle.length]])
+    }
+  }
+  hits.sort((a, b) => a[0] - b[0])
+
+  const start = hits.length > 0 ? Math.max(0, hits[0][0] - SNIPPET_RADIUS) : 0
+  const end = Math.min(text.length, (hits.length > 0 ? hits[0][1] : 0) + SNIPPET_RADIUS * 2)
+  const parts: SnippetPart[] = []
+  let position = start
+
+  for (const [hitStart, hitEnd] of hits) {
+    if (hitStart < position || hitEnd > end) continue
+    if (hitStart > position) parts.push({ text: text.slice(position, hitStart), isMatch: false })
+    parts.push({ text: text.slice(hitStart, hitEnd), isMatch: true })
+    position = hitEnd
+  }
+  if (position < end) parts.push({ text: text.slice(position, end), isMatch: false })
+
+  if (start > 0) parts.unshift({ text: "…", isMatch: false })
+  if (end < text.length) parts.push({ text: "…", isMatch: false })
+  return parts
+}
+
+// Inverted index from words to message ids, encrypted at rest. An entry is stored under a keyed hash of its word
+// and holds the encrypted ids, both keys derived from our identity key, so the store reveals neither.
+export class SearchIndex {
+  // Entries are read, changed and written back, one update at a time so none is lost
+  private withLock = createLock()
+  private keys: { entryKey: string; hashKey: string } | null = null
+
+  constructor(
+    private crypto: CryptoManager,
+    private store: LocalForage,
+    private getKeyPair: () => Promise<KeyPair | null>,
+  ) {}
+
+  // Until it is built, updates are skipped; the first search builds it from every message, see build
+  async isBuilt(): Promise<boolean> {
+    return (await this.store.getItem<number>(INDEX_VERSION_KEY)) === INDEX_VERSION
+  }
+
+  // Moves a message's ids from the words of its previous text to those of its new one, null when it is new or gone
+  async update(previous: Message | null, message: Message | null): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      if (!(await this.isBuilt())) return
+
+      const messageId = (message ?? previous)?.id
+      if (!messageId) return
+
+      const previousTokens = previous ? tokenize(getSearchableText(previous)) : []
+      const tokens = message ? tokenize(getSearchableText(message)) : []
+
+      for (const token of previousTokens.filter((candidate) => !tokens.includes(candidate))) {
+        const ids = await this.readEntry(token)
+        await this.writeEntry(token, ids.filter((id) => id !== messageId))
+      }
+      for (const token of tokens.filter((candidate) => !previousTokens.includes(candidate))) {
+        const ids = await this.readEntry(token)
+        if (!ids.includes(messageId)) await this.writeEntry(token, [...ids, messageId])
+      }
+    })
+  }
+
+  // Ids of the messages containing every one of the words
+  async lookup(tokens: string[]): Promise<string[]> {
+    return this.withLock(INDEX_LOCK, async () => {
+      let matches: string[] | null = null
+      for (const token of tokens) {
+        const ids = await this.readEntry(token)
+        matches = matches ? matches.filter((id) => ids.includes(id)) : ids
+        if (matches.length === 0) break
+      }
+      return matches ?? []
+    })
+  }
+
+  // Reads the messages under the index lock, an update saved meanwhile waits and is applied after the build
+  async build(getMessages: () => Promise<Message[]>): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      if (await this.isBuilt()) return
+
+      await this.store.clear()
+      this.keys = null
+
+      const entries = new Map<string, string[]>()
+      for (const message of await getMessages()) {
+        for (const token of tokenize(getSearchableText(message))) {
+          entries.set(token, [...(entries.get(token) ?? []), message.id])
+        }
+      }
+
+      for (const [token, ids] of entries) {
+        await this.writeEntry(token, ids)
+      }
+      await this.store.setItem(INDEX_VERSION_KEY, INDEX_VERSION)
+    })
+  }
+
+  async clear(): Promise<void> {
+    return this.withLock(INDEX_LOCK, async () => {
+      await this.store.clear()
+      this.keys = null
+    })
+  }
+
+  private async readEntry(token: string): Promise<string[]> {
+    const { entryKey, hashKey } = await this.getKeys()
+    const entryId = this.crypto.hashWithKey(token, hashKey)
+    const encrypted = await this.store.getItem<string>(entryId)
+    return encrypted ? JSON.parse(this.crypto.decryptWithKey(encrypted, entryKey, entryId)) : []
+  }
+
+  // Bound to its entry id, so entries cannot be swapped
+  private async writeEntry(token: string, ids: string[]): Promise<void> {
+    const { entryKey, hashKey } = await this.getKeys()
+    const entryId = this.crypto.hashWithKey(token, hashKey)
+
+    if (ids.length === 0) {
+      await this.store.removeItem(entryId)
+    } else {
+      await this.store.setItem(entryId, this.crypto.encryptWithKey(JSON.stringify(ids), entryKey, entryId))
+    }
+  }
+
+  private async getKeys(): Promise<{ entryKey: string; hashKey: string }> {
+    if (this.keys) return this.keys
+
+    const keyPair = await this.getKeyPair()
+    if (!keyPair) {
+      throw new Error("Key pair not found")
+    }
+
+    await this.crypto.initialize()
+    const [entryKey, hashKey] = this.crypto.deriveKeys(keyPair.privateKey, SEARCH_KEY_SALT, "SecureChat-search", 2)
+    this.keys = { entryKey, hashKey }
+    return this.keys
+  }
+}
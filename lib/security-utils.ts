@@ -1,4 +1,5 @@
 import { CryptoManager } from "./crypto"
+import type { SecurityAlert } from "./types"
 
 export interface SecuritySettings {
   enableEphemeralMessages: boolean
@@ -6,21 +7,31 @@ export interface SecuritySettings {
   requireMessageSigning: boolean
   enableForwardSecrecy: boolean
   maxMessageAge: number // Maximum age for accepting messages
+  maxQueuedMessageAge: number // Maximum age for messages the sender queued while we were unreachable
+  sendReadReceipts: boolean // Delivery receipts are always sent, read receipts only with this on
+  deleteForEveryoneWindow: number // How long after sending a message it can be deleted for everyone
 }
 
+const MAX_CLOCK_SKEW = 60 * 1000 // Peers' clocks are not synchronized, allow them to run a little ahead
+
 export class SecurityManager {
   private static instance: SecurityManager
   private crypto: CryptoManager
   private settings: SecuritySettings
+  private alerts: SecurityAlert[] = []
+  private alertListeners: ((alert: SecurityAlert) => void)[] = []
 
-  private constructor() {
-    this.crypto = CryptoManager.getInstance()
+  constructor(crypto: CryptoManager = CryptoManager.getInstance()) {
+    this.crypto = crypto
     this.settings = {
       enableEphemeralMessages: false,
       defaultMessageTTL: 24 * 60 * 60 * 1000, // 24 hours
       requireMessageSigning: true,
       enableForwardSecrecy: false,
       maxMessageAge: 5 * 60 * 1000, // 5 minutes
+      maxQueuedMessageAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+      sendReadReceipts: true,
+      deleteForEveryoneWindow: 24 * 60 * 60 * 1000, // 24 hours
     }
   }
 
@@ -39,13 +50,60 @@ export class SecurityManager {
     return { ...this.settings }
   }
 
+  raiseAlert(type: SecurityAlert["type"], message: string, severity: SecurityAlert["severity"]): SecurityAlert {
+    const alert: SecurityAlert = {
+      id: this.crypto.generateSecureId(),
+      type,
+      message,
+      timestamp: new Date(),
+      severity,
+    }
+
+    console.warn(`[v0] Security alert (${severity}):`, message)
+
+    // Keep the most recent alerts only, a flood of bad messages must not grow memory
+    this.alerts = [alert, ...this.alerts].slice(0, 100)
+    this.alertListeners.forEach((listener) => listener(alert))
+    return alert
+  }
+
+  getAlerts(): SecurityAlert[] {
+    return [...this.alerts]
+  }
+
+  clearAlerts(): void {
+    this.alerts = []
+  }
+
+  onAlert(listener: (alert: SecurityAlert) => void): void {
+    this.alertListeners.push(listener)
+  }
+
+  removeAlertListener(listener: (alert: SecurityAlert) => void): void {
+    const index = this.alertListeners.indexOf(listener)
+    if (index > -1) {
+      this.alertListeners.splice(index, 1)
+    }
+  }
+
   // Validate message timestamp to prevent replay attacks
-  isMessageTimestampValid(timestamp: number): boolean {
+  isMessageTimestampValid(timestamp: number, isQueued = false): boolean {
     const now = Date.now()
     const messageAge = now - timestamp
+    const maxAge = isQueued ? this.settings.maxQueuedMessageAge : this.settings.maxMessageAge
 
     // Reject messages that are too old or from the future
-    return messageAge >= 0 && messageAge <= this.settings.maxMessageAge
+    return messageAge >= -MAX_CLOCK_SKEW && messageAge <= maxAge
+  }
+
+  // Seen envelope ids must be remembered at least as long as a replay could pass the timestamp check
+  getReplayWindow(): number {
+    return Math.max(this.settings.maxMessageAge, this.settings.maxQueuedMessageAge) + MAX_CLOCK_SKEW
+  }
+
+  // From the message's timestamp to the retraction, for received ones see getRetractionTime
+  isRetractionAllowed(sentAt: number, retractedAt: number): boolean {
+    return retractedAt >= sentAt && retractedAt - sentAt <= this.settings.deleteForEveryoneWindow
   }
 
   // Generate secure message ID
@@ -58,9 +116,15 @@ export class SecurityManager {
     return this.settings.enableEphemeralMessages && messageType === "text"
   }
 
+  // The chat's own timer, otherwise the default one while ephemeral messages are on. Undefined keeps messages.
+  getMessageTTL(chatTTL?: number): number | undefined {
+    if (chatTTL) return chatTTL
+    return this.shouldMessageBeEphemeral("text") ? this.settings.defaultMessageTTL : undefined
+  }
+
   // Calculate expiration time for ephemeral messages
-  getMessageExpirationTime(): number {
-    return Date.now() + this.settings.defaultMessageTTL
+  getMessageExpirationTime(ttl = this.settings.defaultMessageTTL, sentAt = Date.now()): number {
+    return sentAt + ttl
   }
 
   // Validate message signature if required
@@ -180,11 +244,11 @@ export class SecurityManager {
   }
 
   // Clean up expired ephemeral messages
-  cleanupExpiredMessages(messages: any[]): any[] {
+  cleanupExpiredMessages<T extends { isEphemeral?: boolean; expiresAt?: Date }>(messages: T[]): T[] {
     const now = Date.now()
     return messages.filter((message) => {
       if (message.isEphemeral && message.expiresAt) {
-        return now < message.expiresAt
+        return now < new Date(message.expiresAt).getTime()
       }
       return true
     })
@@ -0,0 +1,103 @@
+import type { CryptoManager } from "./crypto"
+import {
+  createSenderKeyState,
+  senderKeyDecrypt,
+  senderKeyEncrypt,
+  type SenderKeyDistribution,
+  type SenderKeyMessage,
+} from "./sender-key"
+import type { StorageManager } from "./storage"
+import { createLock } from "./utils"
+
+// Content of a sender_key network message, always sent over the pairwise channel to one member
+export interface SenderKeyContent {
+  distribution?: SenderKeyDistribution
+  request?: { groupId: string; keyId: string } // Asks the sender for a key we saw messages under
+}
+
+const MAX_KEYS_PER_SENDER = 3
+
+export class SenderKeyManager {
+  // Chain state is read, advanced and written back one task at a time per group and sender
+  private withLock = createLock()
+
+  constructor(
+    private crypto: CryptoManager,
+    private storage: StorageManager,
+  ) {}
+
+  // Our key for the group, a new one when there is none because the group is new or its membership changed
+  async ensureSenderKey(
+    groupId: string,
+    userId: string,
+  ): Promise<{ distribution: SenderKeyDistribution; isNew: boolean }> {
+    return this.withLock(`${groupId}:${userId}`, async () => {
+      const existing = await this.storage.getOwnSenderKey(groupId)
+      if (existing) {
+        return { distribution: existing.distribution, isNew: false }
+      }
+
+      const { keyId, chainKey } = this.crypto.generateSenderKey()
+      const distribution: SenderKeyDistribution = { groupId, keyId, chainKey, iteration: 0 }
+      await this.storage.saveOwnSenderKey({ distribution, state: createSenderKeyState(userId, distribution) })
+
+      return { distribution, isNew: true }
+    })
+  }
+
+  async getDistribution(groupId: string): Promise<SenderKeyDistribution | null> {
+    const ownKey = await this.storage.getOwnSenderKey(groupId)
+    return ownKey?.distribution ?? null
+  }
+
+  async encrypt(groupId: string, userId: string, plaintext: string): Promise<string> {
+    return this.withLock(`${groupId}:${userId}`, async () => {
+      const ownKey = await this.storage.getOwnSenderKey(groupId)
+      if (!ownKey) {
+        throw new Error("No sender key for group")
+      }
+
+      const { state, message } = senderKeyEncrypt(this.crypto, ownKey.state, plaintext)
+      await this.storage.saveOwnSenderKey({ ...ownKey, state })
+
+      return JSON.stringify(message)
+    })
+  }
+
+  async acceptDistribution(senderId: string, distribution: SenderKeyDistribution): Promise<void> {
+    await this.withLock(`${distribution.groupId}:${senderId}`, async () => {
+      const record = (await this.storage.getSenderKeys(distribution.groupId, senderId)) ?? {
+        groupId: distribution.groupId,
+        senderId,
+        states: [],
+      }
+
+      // A repeated distribution must not rewind a chain we already advanced
+      if (record.states.some((state) => state.keyId === distribution.keyId)) return
+
+      record.states = [createSenderKeyState(senderId, distribution), ...record.states].slice(0, MAX_KEYS_PER_SENDER)
+      await this.storage.saveSenderKeys(record)
+    })
+  }
+
+  // Null when the sender's key has not reached us yet
+  async decrypt(groupId: string, senderId: string, content: string): Promise<string | null> {
+    return this.withLock(`${groupId}:${senderId}`, async () => {
+      const message: SenderKeyMessage = JSON.parse(content)
+      const record = await this.storage.getSenderKeys(groupId, senderId)
+      const index = record?.states.findIndex((state) => state.keyId === message.keyId) ?? -1
+      if (!record || index === -1) return null
+
+      const { state, plaintext } = senderKeyDecrypt(this.crypto, record.states[index], message)
+      record.states[index] = state
+      await this.storage.saveSenderKeys(record)
+
+      return plaintext
+    })
+  }
+
+  getKeyId(content: string): string {
+    const message: SenderKeyMessage = JSON.parse(content)
+    return message.keyId
+  }
+}
@@ -0,0 +1,124 @@
+import type { CryptoManager } from "./crypto"
+
+// Sender keys, as in Signal's group messaging: every member encrypts its group messages under its own
+// hash ratchet and hands the start of that chain to the other members over pairwise encrypted channels.
+// A member's key is replaced whenever the group's membership changes, so removed members cannot read on.
+// Like the Double Ratchet functions these never mutate their input and return the next state.
+
+export interface SenderKeyState {
+  groupId: string
+  senderId: string
+  keyId: string
+  chainKey: string // Chain key for `iteration`
+  iteration: number
+  skipped: Record<number, string> // Message keys of iterations that have not arrived yet
+}
+
+// Everything a member needs to read our messages under one key, always from its first iteration
+export interface SenderKeyDistribution {
+  groupId: string
+  keyId: string
+  chainKey: string
+  iteration: number
+}
+
+export interface SenderKeyMessage {
+  keyId: string
+  iteration: number
+  body: string
+}
+
+export interface OwnSenderKey {
+  distribution: SenderKeyDistribution
+  state: SenderKeyState
+}
+
+// Keys received from one member of one group, newest first. Older keys are kept for messages still in flight.
+export interface SenderKeyRecord {
+  groupId: string
+  senderId: string
+  states: SenderKeyState[]
+}
+
+const MAX_SKIP = 1000
+
+export function createSenderKeyState(senderId: string, distribution: SenderKeyDistribution): SenderKeyState {
+  return {
+    groupId: distribution.groupId,
+    senderId,
+    keyId: distribution.keyId,
+    chainKey: distribution.chainKey,
+    iteration: distribution.iteration,
+    skipped: {},
+  }
+}
+
+export function senderKeyEncrypt(
+  crypto: CryptoManager,
+  current: SenderKeyState,
+  plaintext: string,
+): { state: SenderKeyState; message: SenderKeyMessage } {
+  const { chainKey, messageKey } = crypto.ratchetChainKey(current.chainKey)
+
+  return {
+    state: { ...current, chainKey, iteration: current.iteration + 1, skipped: {} },
+    message: {
+      keyId: current.keyId,
+      iteration: current.iteration,
+      body: crypto.encryptWithKey(plaintext, messageKey, getAssociatedData(current, current.iteration)),
+    },
+  }
+}
+
+export function senderKeyDecrypt(
+  crypto: CryptoManager,
+  current: SenderKeyState,
+  message: SenderKeyMessage,
+): { state: SenderKeyState; plaintext: string } {
+  if (message.keyId !== current.keyId) {
+    throw new Error("Message was encrypted under a different sender key")
+  }
+
+  const state: SenderKeyState = { ...current, skipped: { ...current.skipped } }
+  const associatedData = getAssociatedData(state, message.iteration)
+
+  const skippedKey = state.skipped[message.iteration]
+  if (skippedKey) {
+    const plaintext = crypto.decryptWithKey(message.body, skippedKey, associatedData)
+    delete state.skipped[message.iteration]
+    return { state, plaintext }
+  }
+
+  if (message.iteration < state.iteration) {
+    throw new Error("Sender key message already received")
+  }
+
+  if (message.iteration - state.iteration > MAX_SKIP) {
+    throw new Error("Too many skipped messages")
+  }
+
+  while (state.iteration < message.iteration) {
+    const { chainKey, messageKey } = crypto.ratchetChainKey(state.chainKey)
+    state.skipped[state.iteration] = messageKey
+    state.chainKey = chainKey
+    state.iteration += 1
+  }
+
+  const { chainKey, messageKey } = crypto.ratchetChainKey(state.chainKey)
+  const plaintext = crypto.decryptWithKey(message.body, messageKey, associatedData)
+  state.chainKey = chainKey
+  state.iteration += 1
+
+  // Forget the oldest skipped keys first
+  const iterations = Object.keys(state.skipped).map(Number)
+  for (let i = 0; i < iterations.length - MAX_SKIP; i++) {
+    delete state.skipped[iterations[i]]
+  }
+
+  return { state, plaintext }
+}
+
+// Binds each ciphertext to its group, sender, key and position in the chain
+function getAssociatedData(state: SenderKeyState, iteration: number): string {
+  return `${state.groupId}:${state.senderId}:${state.keyId}:${iteration}`
+}
@@ -0,0 +1,320 @@
+import type { CryptoManager } from "./crypto"
+import {
+  initializeReceiver,
+  initializeSender,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  type RatchetMessage,
+  type RatchetState,
+} from "./double-ratchet"
+import type { StorageManager } from "./storage"
+import type { Contact, KeyPair, PreKeyBundle } from "./types"
+import { createLock } from "./utils"
+
+// Sent in the clear with every message of a session until the peer has answered,
+// so the peer can derive the same session even if the first message got lost.
+// With prekey ids this is an X3DH initial message, without it only the identity keys are used.
+export interface SessionInit {
+  ephemeralKey: string
+  signedPreKeyId?: string
+  oneTimePreKeyId?: string
+}
+
+export interface RatchetSession {
+  state: RatchetState
+  pendingInit?: SessionInit
+  remoteInitKey?: string // Ephemeral key of the init this session was created from, on the receiving side
+  createdAt: number
+}
+
+// Both users may start a session at the same time. The one that most recently decrypted a
+// message is current, older ones are kept around until the peer has switched over too.
+export interface SessionRecord {
+  contactId: string
+  current: RatchetSession | null
+  previous: RatchetSession[]
+}
+
+export interface SessionMessage extends RatchetMessage {
+  v: 1
+  init?: SessionInit
+}
+
+// Content of a prekey_bundle network message: either asks for the peer's bundle or carries ours
+export interface PreKeyBundleContent {
+  request?: boolean
+  bundle?: PreKeyBundle
+}
+
+const MAX_PREVIOUS_SESSIONS = 5
+const SIGNED_PREKEY_ROTATION = 7 * 24 * 60 * 60 * 1000 // A new signed prekey every week
+const PREKEY_MAX_AGE = 30 * 24 * 60 * 60 * 1000 // Initial messages may arrive late, old prekeys are kept this long
+const ONE_TIME_PREKEY_BATCH = 100
+const ONE_TIME_PREKEY_MINIMUM = 20 // Unissued one-time prekeys left before a new batch is generated
+
+export class SessionManager {
+  // Ratchet state is read, advanced and written back one task at a time per contact
+  private withLock = createLock()
+
+  constructor(
+    private crypto: CryptoManager,
+    private storage: StorageManager,
+  ) {}
+
+  async encrypt(contact: Contact, keyPair: KeyPair, plaintext: string): Promise<string> {
+    return this.withLock(contact.id, async () => {
+      const record = (await this.storage.getSession(contact.id)) ?? { contactId: contact.id, current: null, previous: [] }
+
+      if (!record.current) {
+        record.current = await this.createSenderSession(contact, keyPair)
+      }
+
+      const { state, message } = ratchetEncrypt(this.crypto, record.current.state, plaintext)
+      const sessionMessage: SessionMessage = { v: 1, init: record.current.pendingInit, ...message }
+
+      record.current = { ...record.current, state }
+      await this.storage.saveSession(record)
+
+      return JSON.stringify(sessionMessage)
+    })
+  }
+
+  async decrypt(contact: Contact, keyPair: KeyPair, content: string): Promise<string> {
+    return this.withLock(contact.id, async () => {
+      const message: SessionMessage = JSON.parse(content)
+      if (message.v !== 1) {
+        throw new Error(`Unsupported session message version: ${message.v}`)
+      }
+
+      const record = (await this.storage.getSession(contact.id)) ?? { contactId: contact.id, current: null, previous: [] }
+      const sessions = [record.current, ...record.previous].filter((session): session is RatchetSession => !!session)
+
+      for (const session of sessions) {
+        try {
+          const { state, plaintext } = ratchetDecrypt(this.crypto, session.state, message)
+          // The peer answered in this session, it no longer needs the init and becomes current
+          this.promote(record, session, { ...session, state, pendingInit: undefined })
+          await this.storage.saveSession(record)
+          return plaintext
+        } catch {
+          // Not this session, try the next one
+        }
+      }
+
+      // Only a fresh init may start a new session, a replayed one must not rewind an existing session
+      if (!message.init || sessions.some((session) => session.remoteInitKey === message.init!.ephemeralKey)) {
+        throw new Error("No session can decrypt this message")
+      }
+
+      const session = await this.createReceiverSession(contact, keyPair, message.init)
+      const { state, plaintext } = ratchetDecrypt(this.crypto, session.state, message)
+      this.promote(record, null, { ...session, state })
+      await this.storage.saveSession(record)
+
+      // A one-time prekey starts exactly one session, a replayed initial message must fail
+      if (message.init.oneTimePreKeyId) {
+        await this.storage.removeOneTimePreKey(message.init.oneTimePreKeyId)
+      }
+
+      return plaintext
+    })
+  }
+
+  async resetSession(contactId: string): Promise<void> {
+    await this.withLock(contactId, () => this.storage.removeSession(contactId))
+  }
+
+  async needsPreKeyBundle(contactId: string): Promise<boolean> {
+    const [record, bundle] = await Promise.all([
+      this.storage.getSession(contactId),
+      this.storage.getPreKeyBundle(contactId),
+    ])
+    return !record?.current && !bundle
+  }
+
+  // Rotates the signed prekey, drops expired prekeys and tops up one-time prekeys
+  async refreshPreKeys(keyPair: KeyPair): Promise<void> {
+    if (!keyPair.signingPrivateKey) {
+      throw new Error("Signing key required for prekeys")
+    }
+
+    const now = Date.now()
+    const signedPreKeys = await this.storage.getAllSignedPreKeys()
+    const newest = signedPreKeys[signedPreKeys.length - 1]
+
+    if (!newest || now - new Date(newest.createdAt).getTime() > SIGNED_PREKEY_ROTATION) {
+      await this.storage.saveSignedPreKey(this.crypto.generateSignedPreKey(keyPair.signingPrivateKey))
+    }
+
+    for (const preKey of signedPreKeys) {
+      if (preKey !== newest && now - new Date(preKey.createdAt).getTime() > PREKEY_MAX_AGE) {
+        await this.storage.removeSignedPreKey(preKey.id)
+      }
+    }
+
+    const oneTimePreKeys = await this.storage.getAllOneTimePreKeys()
+    for (const preKey of oneTimePreKeys) {
+      if (preKey.issuedTo && now - new Date(preKey.createdAt).getTime() > PREKEY_MAX_AGE) {
+        await this.storage.removeOneTimePreKey(preKey.id)
+      }
+    }
+
+    if (oneTimePreKeys.filter((preKey) => !preKey.issuedTo).length < ONE_TIME_PREKEY_MINIMUM) {
+      await this.storage.saveOneTimePreKeys(this.crypto.generateOneTimePreKeys(ONE_TIME_PREKEY_BATCH))
+    }
+  }
+
+  // Our bundle for one contact, carrying a one-time prekey no other contact has been given
+  async createPreKeyBundle(userId: string, keyPair: KeyPair, contactId: string): Promise<PreKeyBundle> {
+    await this.refreshPreKeys(keyPair)
+
+    const signedPreKeys = await this.storage.getAllSignedPreKeys()
+    const signedPreKey = signedPreKeys[signedPreKeys.length - 1]
+    // A contact asking again gets the key it was given before, so repeated requests cannot drain the pool
+    const oneTimePreKeys = await this.storage.getAllOneTimePreKeys()
+    const oneTimePreKey =
+      oneTimePreKeys.find((preKey) => preKey.issuedTo === contactId) ??
+      oneTimePreKeys.find((preKey) => !preKey.issuedTo)
+
+    if (oneTimePreKey) {
+      await this.storage.saveOneTimePreKeys([{ ...oneTimePreKey, issuedTo: contactId }])
+    }
+
+    return {
+      userId,
+      identityKey: keyPair.publicKey,
+      signedPreKey: { id: signedPreKey.id, publicKey: signedPreKey.publicKey, signature: signedPreKey.signature },
+      oneTimePreKey: oneTimePreKey && { id: oneTimePreKey.id, publicKey: oneTimePreKey.publicKey },
+      timestamp: Date.now(),
+    }
+  }
+
+  // Keeps a contact's bundle for the next session we start, if it is signed by their pinned key
+  async acceptPreKeyBundle(contact: Contact, bundle: PreKeyBundle): Promise<boolean> {
+    if (
+      bundle.userId !== contact.id ||
+      bundle.identityKey !== contact.publicKey ||
+      !contact.signingPublicKey ||
+      !this.crypto.verifyPreKeyBundle(bundle, contact.signingPublicKey)
+    ) {
+      return false
+    }
+
+    await this.storage.savePreKeyBundle(bundle)
+    return true
+  }
+
+  private async createSenderSession(contact: Contact, keyPair: KeyPair): Promise<RatchetSession> {
+    const bundle = await this.storage.getPreKeyBundle(contact.id)
+    if (bundle && bundle.identityKey === contact.publicKey) {
+      return this.createPreKeySenderSession(contact, keyPair, bundle)
+    }
+
+    const ephemeral = this.crypto.generateKeyPair()
+    const sharedSecret =
+      this.crypto.computeSharedSecret(keyPair.privateKey, contact.publicKey) +
+      this.crypto.computeSharedSecret(ephemeral.privateKey, contact.publicKey)
+
+    return {
+      // The receiver's identity key is its first ratchet key
+      state: initializeSender(this.crypto, sharedSecret, contact.publicKey, keyPair.publicKey + contact.publicKey),
+      pendingInit: { ephemeralKey: ephemeral.publicKey },
+      createdAt: Date.now(),
+    }
+  }
+
+  // X3DH: DH(IK_a, SPK_b) + DH(EK_a, IK_b) + DH(EK_a, SPK_b) [+ DH(EK_a, OPK_b)], SPK_b is the first ratchet key
+  private async createPreKeySenderSession(
+    contact: Contact,
+    keyPair: KeyPair,
+    bundle: PreKeyBundle,
+  ): Promise<RatchetSession> {
+    const ephemeral = this.crypto.generateKeyPair()
+    const { signedPreKey, oneTimePreKey } = bundle
+
+    let sharedSecret =
+      this.crypto.computeSharedSecret(keyPair.privateKey, signedPreKey.publicKey) +
+      this.crypto.computeSharedSecret(ephemeral.privateKey, contact.publicKey) +
+      this.crypto.computeSharedSecret(ephemeral.privateKey, signedPreKey.publicKey)
+    if (oneTimePreKey) {
+      sharedSecret += this.crypto.computeSharedSecret(ephemeral.privateKey, oneTimePreKey.publicKey)
+      // Later sessions fall back to the signed prekey alone, the one-time prekey is gone once used
+      await this.storage.savePreKeyBundle({ ...bundle, oneTimePreKey: undefined })
+    }
+
+    return {
+      state: initializeSender(this.crypto, sharedSecret, signedPreKey.publicKey, keyPair.publicKey + contact.publicKey),
+      pendingInit: {
+        ephemeralKey: ephemeral.publicKey,
+        signedPreKeyId: signedPreKey.id,
+        oneTimePreKeyId: oneTimePreKey?.id,
+      },
+      createdAt: Date.now(),
+    }
+  }
+
+  private async createReceiverSession(contact: Contact, keyPair: KeyPair, init: SessionInit): Promise<RatchetSession> {
+    if (init.signedPreKeyId) {
+      return this.createPreKeyReceiverSession(contact, keyPair, init)
+    }
+
+    const sharedSecret =
+      this.crypto.computeSharedSecret(keyPair.privateKey, contact.publicKey) +
+      this.crypto.computeSharedSecret(keyPair.privateKey, init.ephemeralKey)
+
+    return {
+      state: initializeReceiver(
+        this.crypto,
+        sharedSecret,
+        { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey },
+        contact.publicKey + keyPair.publicKey,
+      ),
+      remoteInitKey: init.ephemeralKey,
+      createdAt: Date.now(),
+    }
+  }
+
+  private async createPreKeyReceiverSession(
+    contact: Contact,
+    keyPair: KeyPair,
+    init: SessionInit,
+  ): Promise<RatchetSession> {
+    const signedPreKey = await this.storage.getSignedPreKey(init.signedPreKeyId!)
+    if (!signedPreKey) {
+      throw new Error("Unknown or expired signed prekey")
+    }
+
+    let sharedSecret =
+      this.crypto.computeSharedSecret(signedPreKey.privateKey, contact.publicKey) +
+      this.crypto.computeSharedSecret(keyPair.privateKey, init.ephemeralKey) +
+      this.crypto.computeSharedSecret(signedPreKey.privateKey, init.ephemeralKey)
+
+    if (init.oneTimePreKeyId) {
+      const oneTimePreKey = await this.storage.getOneTimePreKey(init.oneTimePreKeyId)
+      if (!oneTimePreKey) {
+        throw new Error("One-time prekey already used")
+      }
+      sharedSecret += this.crypto.computeSharedSecret(oneTimePreKey.privateKey, init.ephemeralKey)
+    }
+
+    return {
+      state: initializeReceiver(
+        this.crypto,
+        sharedSecret,
+        { publicKey: signedPreKey.publicKey, privateKey: signedPreKey.privateKey },
+        contact.publicKey + keyPair.publicKey,
+      ),
+      remoteInitKey: init.ephemeralKey,
+      createdAt: Date.now(),
+    }
+  }
+
+  private promote(record: SessionRecord, replaced: RatchetSession | null, session: RatchetSession): void {
+    const others = [record.current, ...record.previous].filter(
+      (candidate): candidate is RatchetSession => !!candidate && candidate !== replaced,
+    )
+
+    record.current = session
+    record.previous = others.slice(0, MAX_PREVIOUS_SESSIONS)
+  }
+}
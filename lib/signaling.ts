@@ -0,0 +1,358 @@
+import { CryptoManager } from "./crypto"
+import { canonicalJson } from "./utils"
+import type { WebRTCSignal } from "./webrtc-transport"
+
+export interface PeerPresence {
+  userId: string
+  username: string
+  publicKey: string
+  signingPublicKey: string
+  isOnline: boolean
+}
+
+export interface SignalingIdentity {
+  userId: string
+  signingPublicKey: string
+  signingPrivateKey: string
+}
+
+// What a frame carries: an announcement of presence to everyone, or an offer, answer or ICE candidate for one peer
+export type SignalingContent = { type: "announce"; payload: PeerPresence } | { type: "signal"; payload: WebRTCSignal }
+
+// Every frame is signed by its author, relays (including the signaling server) only forward them
+export type SignalingFrame = SignalingContent & {
+  from: string
+  to?: string
+  timestamp: number
+  signature: string
+}
+
+export interface SignalingClient {
+  connect(identity: SignalingIdentity): Promise<void>
+  announce(presence: PeerPresence): void
+  sendSignal(peerId: string, signal: WebRTCSignal): void
+  onPresence(handler: (presence: PeerPresence) => void): void
+  onPeerLeft(handler: (peerId: string) => void): void
+  onSignal(handler: (peerId: string, signal: WebRTCSignal) => void): void
+  isConnected(): boolean
+  close(): void
+}
+
+const MAX_FRAME_AGE = 60 * 1000 // Signed frames older than a minute are treated as replays
+
+export function getSignedFrameData(frame: Omit<SignalingFrame, "signature">): string {
+  return canonicalJson({
+    type: frame.type,
+    from: frame.from,
+    to: frame.to,
+    payload: frame.payload,
+    timestamp: frame.timestamp,
+  })
+}
+
+abstract class BaseSignalingClient implements SignalingClient {
+  protected identity: SignalingIdentity | null = null
+  protected crypto: CryptoManager
+  private presenceHandlers: ((presence: PeerPresence) => void)[] = []
+  private peerLeftHandlers: ((peerId: string) => void)[] = []
+  private signalHandlers: ((peerId: string, signal: WebRTCSignal) => void)[] = []
+  // Signing keys are pinned on first sight so a relay cannot swap them later
+  private pinnedSigningKeys: Map<string, string> = new Map()
+
+  constructor(crypto: CryptoManager = CryptoManager.getInstance()) {
+    this.crypto = crypto
+  }
+
+  abstract connect(identity: SignalingIdentity): Promise<void>
+  abstract isConnected(): boolean
+  abstract close(): void
+  protected abstract transmit(frame: SignalingFrame): void
+
+  announce(presence: PeerPresence): void {
+    const frame = this.createFrame({ type: "announce", payload: presence })
+    if (frame) this.transmit(frame)
+  }
+
+  sendSignal(peerId: string, signal: WebRTCSignal): void {
+    const frame = this.createFrame({ type: "signal", payload: signal }, peerId)
+    if (frame) this.transmit(frame)
+  }
+
+  onPresence(handler: (presence: PeerPresence) => void): void {
+    this.presenceHandlers.push(handler)
+  }
+
+  onPeerLeft(handler: (peerId: string) => void): void {
+    this.peerLeftHandlers.push(handler)
+  }
+
+  onSignal(handler: (peerId: string, signal: WebRTCSignal) => void): void {
+    this.signalHandlers.push(handler)
+  }
+
+  protected createFrame(content: SignalingContent, to?: string): SignalingFrame | null {
+    if (!this.identity) return null
+
+    const unsigned = {
+      ...content,
+      from: this.identity.userId,
+      to,
+      timestamp: Date.now(),
+    }
+
+    return {
+      ...unsigned,
+      signature: this.crypto.signMessage(getSignedFrameData(unsigned), this.identity.signingPrivateKey),
+    }
+  }
+
+  protected receiveFrame(frame: SignalingFrame): void {
+    if (!this.identity || !frame || frame.from === this.identity.userId) return
+
+    if (Math.abs(Date.now() - frame.timestamp) > MAX_FRAME_AGE) {
+      console.warn("[v0] Dropping stale signaling frame from:", frame.from)
+      return
+    }
+
+    if (frame.type === "announce") {
+      const presence = frame.payload
+      if (!presence || presence.userId !== frame.from || !presence.signingPublicKey) return
+
+      // The user ID is the hash of the identity key, so an announcement cannot claim someone else's ID
+      if (this.crypto.generateUserId(presence.publicKey) !== frame.from) {
+        console.warn("[v0] Dropping announcement with mismatched identity key from:", frame.from)
+        return
+      }
+
+      const pinnedKey = this.pinnedSigningKeys.get(frame.from)
+      if (pinnedKey && pinnedKey !== presence.signingPublicKey) {
+        console.warn("[v0] Dropping announcement with changed signing key from:", frame.from)
+        return
+      }
+
+      if (!this.verifyFrame(frame, presence.signingPublicKey)) return
+
+      this.pinnedSigningKeys.set(frame.from, presence.signingPublicKey)
+      this.presenceHandlers.forEach((handler) => handler(presence))
+    } else if (frame.type === "signal") {
+      if (frame.to !== this.identity.userId) return
+
+      const signingKey = this.pinnedSigningKeys.get(frame.from)
+      if (!signingKey) {
+        console.warn("[v0] Dropping signal from unannounced peer:", frame.from)
+        return
+      }
+
+      if (!this.verifyFrame(frame, signingKey)) return
+
+      this.signalHandlers.forEach((handler) => handler(frame.from, frame.payload))
+    }
+  }
+
+  protected notifyPeerLeft(peerId: string): void {
+    this.peerLeftHandlers.forEach((handler) => handler(peerId))
+  }
+
+  private verifyFrame(frame: SignalingFrame, signingPublicKey: string): boolean {
+    const isValid = this.crypto.verifySignature(getSignedFrameData(frame), frame.signature, signingPublicKey)
+    if (!isValid) {
+      console.warn(`[v0] Dropping ${frame.type} frame with invalid signature from:`, frame.from)
+    }
+    return isValid
+  }
+}
+
+// Signaling between tabs of the same browser, no server involved
+export class LocalSignalingClient extends BaseSignalingClient {
+  private broadcastChannel: BroadcastChannel | null = null
+  private storageEventListener: ((event: StorageEvent) => void) | null = null
+
+  async connect(identity: SignalingIdentity): Promise<void> {
+    if (typeof window === "undefined") return
+
+    this.identity = identity
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.broadcastChannel = new BroadcastChannel("p2p-chat-signaling")
+      this.broadcastChannel.onmessage = (event) => {
+        this.receiveFrame(event.data)
+      }
+    } else {
+      this.storageEventListener = (event) => {
+        if (event.key === "p2p-chat-signaling" && event.newValue) {
+          try {
+            this.receiveFrame(JSON.parse(event.newValue))
+          } catch (error) {
+            console.error("Error parsing signaling frame:", error)
+          }
+        }
+      }
+      window.addEventListener("storage", this.storageEventListener)
+    }
+  }
+
+  isConnected(): boolean {
+    return this.broadcastChannel !== null || this.storageEventListener !== null
+  }
+
+  close(): void {
+    if (this.broadcastChannel) {
+      this.broadcastChannel.close()
+      this.broadcastChannel = null
+    }
+
+    if (this.storageEventListener) {
+      window.removeEventListener("storage", this.storageEventListener)
+      this.storageEventListener = null
+    }
+  }
+
+  protected transmit(frame: SignalingFrame): void {
+    if (this.broadcastChannel) {
+      this.broadcastChannel.postMessage(frame)
+    } else if (this.storageEventListener) {
+      localStorage.setItem("p2p-chat-signaling", JSON.stringify(frame))
+      setTimeout(() => {
+        localStorage.removeItem("p2p-chat-signaling")
+      }, 100)
+    }
+  }
+}
+
+// Wire format spoken with server/signaling-server.mjs
+type ServerMessage =
+  | { kind: "presence"; frame: SignalingFrame }
+  | { kind: "peers"; frames: SignalingFrame[] }
+  | { kind: "signal"; frame: SignalingFrame }
+  | { kind: "peer_left"; userId: string }
+  | { kind: "error"; message: string }
+
+export class WebSocketSignalingClient extends BaseSignalingClient {
+  private socket: WebSocket | null = null
+  private lastAnnouncement: PeerPresence | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = 1000
+  private isClosed = false
+
+  constructor(
+    private url: string,
+    crypto?: CryptoManager,
+  ) {
+    super(crypto)
+  }
+
+  async connect(identity: SignalingIdentity): Promise<void> {
+    this.identity = identity
+    this.isClosed = false
+    await this.openSocket()
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN
+  }
+
+  close(): void {
+    this.isClosed = true
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  announce(presence: PeerPresence): void {
+    const frame = this.createFrame({ type: "announce", payload: presence })
+    if (!frame) return
+
+    // Kept so the registration can be replayed to the server after a reconnect
+    this.lastAnnouncement = presence
+    this.transmit(frame)
+  }
+
+  protected transmit(frame: SignalingFrame): void {
+    if (!this.isConnected()) return
+
+    this.socket!.send(JSON.stringify({ kind: frame.type, frame }))
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url)
+      this.socket = socket
+
+      socket.onopen = () => {
+        console.log("[v0] Connected to signaling server:", this.url)
+        this.reconnectDelay = 1000
+
+        if (this.lastAnnouncement) {
+          // Re-sign so the server does not reject a stale registration
+          this.announce(this.lastAnnouncement)
+        }
+
+        resolve()
+      }
+
+      socket.onmessage = (event) => {
+        try {
+          this.handleServerMessage(JSON.parse(event.data))
+        } catch (error) {
+          console.error("Error parsing signaling server message:", error)
+        }
+      }
+
+      socket.onerror = () => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          reject(new Error(`Could not connect to signaling server at ${this.url}`))
+        }
+      }
+
+      socket.onclose = () => {
+        if (this.socket !== socket) return
+
+        this.socket = null
+        if (!this.isClosed) {
+          this.scheduleReconnect()
+        }
+      }
+    })
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return
+
+    console.log(`[v0] Signaling connection lost, retrying in ${this.reconnectDelay}ms`)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.openSocket().catch(() => this.scheduleReconnect())
+    }, this.reconnectDelay)
+
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000)
+  }
+
+  private handleServerMessage(message: ServerMessage): void {
+    switch (message.kind) {
+      case "presence":
+      case "signal":
+        this.receiveFrame(message.frame)
+        break
+      case "peers":
+        message.frames.forEach((frame) => this.receiveFrame(frame))
+        break
+      case "peer_left":
+        this.notifyPeerLeft(message.userId)
+        break
+      case "error":
+        console.warn("[v0] Signaling server error:", message.message)
+        break
+    }
+  }
+}
+
+export function createSignalingClient(url?: string | null): SignalingClient {
+  return url ? new WebSocketSignalingClient(url) : new LocalSignalingClient()
+}
@@ -0,0 +1,175 @@
+import { CryptoManager } from "./crypto"
+import { MessageManager } from "./message-manager"
+import { MemoryNetwork, type MemoryNetworkOptions, type MemoryTransport } from "./memory-transport"
+import { defineMemoryStorageDriver, MEMORY_DRIVER } from "./memory-storage-driver"
+import { P2PNetworkManager } from "./p2p-network"
+import { SecurityManager } from "./security-utils"
+import { StorageManager } from "./storage"
+import type { Contact, Group, KeyPair, Message, User } from "./types"
+
+// One complete user stack: its own keys, storage, network and message manager
+export interface SimulatedPeer {
+  name: string
+  user: User
+  keyPair: KeyPair
+  storage: StorageManager
+  network: P2PNetworkManager
+  messageManager: MessageManager
+  transport: MemoryTransport
+  received: Message[]
+}
+
+// Runs N independent users in one process, wired through an in-memory network.
+// Works in Node: storage uses the in-memory localforage driver and no browser API is touched.
+export class NetworkSimulator {
+  readonly network: MemoryNetwork
+  private crypto: CryptoManager
+  private peers: Map<string, SimulatedPeer> = new Map()
+  private runId = Math.random().toString(36).slice(2, 8)
+
+  constructor(options: MemoryNetworkOptions = {}) {
+    this.network = new MemoryNetwork(options)
+    this.crypto = CryptoManager.getInstance()
+  }
+
+  async addPeer(name: string): Promise<SimulatedPeer> {
+    if (this.peers.has(name)) {
+      throw new Error(`Peer ${name} already exists`)
+    }
+
+    await this.crypto.initialize()
+    await defineMemoryStorageDriver()
+
+    const boxKeyPair = this.crypto.generateKeyPair()
+    const signingKeyPair = this.crypto.generateSigningKeyPair()
+    const keyPair: KeyPair = {
+      ...boxKeyPair,
+      signingPublicKey: signingKeyPair.publicKey,
+      signingPrivateKey: signingKeyPair.privateKey,
+    }
+
+    const user: User = {
+      id: this.crypto.generateUserId(keyPair.publicKey),
+      publicKey: keyPair.publicKey,
+      signingPublicKey: keyPair.signingPublicKey,
+      username: name,
+      isOnline: true,
+      lastSeen: new Date(),
+    }
+
+    const storage = new StorageManager({ name: `SecureChat-sim-${this.runId}-${name}`, driver: MEMORY_DRIVER })
+    await storage.saveKeyPair(keyPair)
+    await storage.saveCurrentUser(user)
+
+    const network = new P2PNetworkManager()
+    const security = new SecurityManager(this.crypto)
+    const messageManager = new MessageManager({ network, storage, crypto: this.crypto, security })
+    const transport = this.network.createTransport()
+
+    const peer: SimulatedPeer = {
+      name,
+      user,
+      keyPair,
+      storage,
+      network,
+      messageManager,
+      transport,
+      received: [],
+    }
+
+    messageManager.onMessage((message) => peer.received.push(message))
+    await messageManager.initialize(user, { transports: [transport] })
+
+    this.peers.set(name, peer)
+    return peer
+  }
+
+  async addPeers(...names: string[]): Promise<SimulatedPeer[]> {
+    const peers: SimulatedPeer[] = []
+    for (const name of names) {
+      peers.push(await this.addPeer(name))
+    }
+    return peers
+  }
+
+  getPeer(name: string): SimulatedPeer {
+    const peer = this.peers.get(name)
+    if (!peer) {
+      throw new Error(`Unknown peer ${name}`)
+    }
+    return peer
+  }
+
+  getPeers(): SimulatedPeer[] {
+    return Array.from(this.peers.values())
+  }
+
+  // Adds both users to each other's contacts, as if they had exchanged and verified IDs
+  async connect(a: SimulatedPeer, b: SimulatedPeer): Promise<void> {
+    await a.storage.saveContact(this.toContact(b))
+    await b.storage.saveContact(this.toContact(a))
+  }
+
+  async connectAll(): Promise<void> {
+    const peers = this.getPeers()
+    for (let i = 0; i < peers.length; i++) {
+      for (let j = i + 1; j < peers.length; j++) {
+        await this.connect(peers[i], peers[j])
+      }
+    }
+  }
+
+  async createGroup(name: string, members: SimulatedPeer[]): Promise<Group> {
+    if (members.length === 0) {
+      throw new Error("A group needs at least one member")
+    }
+
+    const group: Group = {
+      id: this.crypto.generateSecureId(),
+      name,
+      publicKey: this.crypto.generateSecureId(),
+      members: members.map((member) => member.user.id),
+      createdBy: members[0].user.id,
+      createdAt: new Date(),
+      isPrivate: true,
+    }
+
+    for (const member of members) {
+      await member.storage.saveGroup(group)
+    }
+
+    return group
+  }
+
+  partition(...groups: SimulatedPeer[][]): void {
+    this.network.partition(groups.map((group) => group.map((peer) => peer.user.id)))
+  }
+
+  heal(): void {
+    this.network.heal()
+  }
+
+  // Waits until every frame has been delivered and the receivers had time to process it
+  async settle(quietPeriod = 20): Promise<void> {
+    do {
+      await this.network.drain()
+      await new Promise((resolve) => setTimeout(resolve, quietPeriod))
+    } while (this.network.getStats().sent > this.network.getStats().delivered + this.network.getStats().dropped)
+  }
+
+  async shutdown(): Promise<void> {
+    for (const peer of this.peers.values()) {
+      await peer.messageManager.shutdown()
+    }
+    this.peers.clear()
+  }
+
+  private toContact(peer: SimulatedPeer): Contact {
+    return {
+      ...peer.user,
+      isBlocked: false,
+      addedAt: new Date(),
+      isVerified: true,
+    }
+  }
+}
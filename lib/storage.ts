@@ -1,5 +1,33 @@
 import localforage from "localforage"
-import type { User, Contact, Group, Message, KeyPair } from "./types"
+import type {
+  User,
+  Contact,
+  Group,
+  Message,
+  KeyPair,
+  SignedPreKey,
+  OneTimePreKey,
+  PreKeyBundle,
+  GroupInvitation,
+  GroupLog,
+  OutboxEntry,
+} from "./types"
+import type { SessionRecord } from "./session-manager"
+import type { OwnSenderKey, SenderKeyRecord } from "./sender-key"
+import { compareMessages, type ChatClock } from "./message-clock"
+import { CryptoManager } from "./crypto"
+import { MessageIndex, type MessagePage, type MessagePageOptions } from "./message-index"
+import {
+  SearchIndex,
+  getQueryTokens,
+  getSearchableText,
+  getSnippet,
+  isSearchQueryEmpty,
+  matchesSearchQuery,
+  parseSearchQuery,
+  type SearchResult,
+} from "./search-index"
+import { createLock } from "./utils"
 import type LocalForage from "localforage"
 
 export interface StorageStats {
@@ -20,6 +48,14 @@ export interface BackupData {
   keyPair: KeyPair | null
 }
 
+export interface StorageOptions {
+  name?: string // Database name, one per identity when several users share a process
+  driver?: string // localforage driver, e.g. the in-memory driver used by the simulator
+  crypto?: CryptoManager // Encrypts the search index
+}
+
+const MAX_SEARCH_RESULTS = 50
+
 export class StorageManager {
   private static instance: StorageManager
   private userStore: LocalForage
@@ -27,15 +63,68 @@ export class StorageManager {
   private groupStore: LocalForage
   private messageStore: LocalForage
   private keyStore: LocalForage
+  private sessionStore: LocalForage
+  private signedPreKeyStore: LocalForage
+  private oneTimePreKeyStore: LocalForage
+  private preKeyBundleStore: LocalForage
+  private seenEnvelopeStore: LocalForage
+  private ownSenderKeyStore: LocalForage
+  private senderKeyStore: LocalForage
+  private groupInvitationStore: LocalForage
+  private groupLogStore: LocalForage
+  private outboxStore: LocalForage
+  private attachmentChunkStore: LocalForage
+  private attachmentChunkIndexStore: LocalForage
+  private pendingDownloadStore: LocalForage
+  private pendingUpdateStore: LocalForage
+  private pendingGroupEventStore: LocalForage
+  private chatClockStore: LocalForage
+  private searchIndexStore: LocalForage
+  private messageIndexStore: LocalForage
   private metaStore: LocalForage
+  private searchIndex: SearchIndex
+  private messageIndex: MessageIndex
+  // Lists kept per peer or attachment are read, changed and written back one change at a time
+  private withLock = createLock()
 
-  private constructor() {
-    this.userStore = localforage.createInstance({ name: "SecureChat", storeName: "users" })
-    this.contactStore = localforage.createInstance({ name: "SecureChat", storeName: "contacts" })
-    this.groupStore = localforage.createInstance({ name: "SecureChat", storeName: "groups" })
-    this.messageStore = localforage.createInstance({ name: "SecureChat", storeName: "messages" })
-    this.keyStore = localforage.createInstance({ name: "SecureChat", storeName: "keys" })
-    this.metaStore = localforage.createInstance({ name: "SecureChat", storeName: "metadata" })
+  constructor(options: StorageOptions = {}) {
+    const name = options.name ?? "SecureChat"
+    // Leaving the driver out keeps localforage's own IndexedDB > WebSQL > localStorage preference
+    const createStore = (storeName: string) =>
+      localforage.createInstance(options.driver ? { name, storeName, driver: options.driver } : { name, storeName })
+
+    this.userStore = createStore("users")
+    this.contactStore = createStore("contacts")
+    this.groupStore = createStore("groups")
+    this.messageStore = createStore("messages")
+    this.keyStore = createStore("keys")
+    this.sessionStore = createStore("sessions")
+    this.signedPreKeyStore = createStore("signedPreKeys")
+    this.oneTimePreKeyStore = createStore("oneTimePreKeys")
+    this.preKeyBundleStore = createStore("preKeyBundles")
+    this.seenEnvelopeStore = createStore("seenEnvelopes")
+    this.ownSenderKeyStore = createStore("ownSenderKeys")
+    this.senderKeyStore = createStore("senderKeys")
+    this.groupInvitationStore = createStore("groupInvitations")
+    this.groupLogStore = createStore("groupLogs")
+    this.outboxStore = createStore("outbox")
+    this.attachmentChunkStore = createStore("attachmentChunks")
+    this.attachmentChunkIndexStore = createStore("attachmentChunkIndexes")
+    this.pendingDownloadStore = createStore("pendingDownloads")
+    this.pendingUpdateStore = createStore("pendingUpdates")
+    this.pendingGroupEventStore = createStore("pendingGroupEvents")
+    this.chatClockStore = createStore("chatClocks")
+    this.searchIndexStore = createStore("searchIndex")
+    this.messageIndexStore = createStore("messageIndex")
+    this.metaStore = createStore("metadata")
+    const crypto = options.crypto ?? CryptoManager.getInstance()
+    this.searchIndex = new SearchIndex(crypto, this.searchIndexStore, () => this.getKeyPair())
+    this.messageIndex = new MessageIndex(
+      crypto,
+      this.messageIndexStore,
+      () => this.getKeyPair(),
+      async () => (await this.getCurrentUser())?.id ?? null,
+    )
   }
 
   static getInstance(): StorageManager {
@@ -84,6 +173,232 @@ export class StorageManager {
     }
   }
 
+  // Ratchet sessions. Deliberately left out of backups: restoring an old ratchet state would reuse keys.
+  async saveSession(record: SessionRecord): Promise<void> {
+    try {
+      await this.sessionStore.setItem(record.contactId, record)
+    } catch (error) {
+      console.error("Failed to save session:", error)
+      throw new Error("Failed to save session")
+    }
+  }
+
+  async getSession(contactId: string): Promise<SessionRecord | null> {
+    try {
+      return await this.sessionStore.getItem(contactId)
+    } catch (error) {
+      console.error("Failed to get session:", error)
+      return null
+    }
+  }
+
+  async removeSession(contactId: string): Promise<void> {
+    try {
+      await this.sessionStore.removeItem(contactId)
+    } catch (error) {
+      console.error("Failed to remove session:", error)
+      throw new Error("Failed to remove session")
+    }
+  }
+
+  // Our own prekeys, left out of backups like sessions
+  async saveSignedPreKey(preKey: SignedPreKey): Promise<void> {
+    try {
+      await this.signedPreKeyStore.setItem(preKey.id, preKey)
+    } catch (error) {
+      console.error("Failed to save signed prekey:", error)
+      throw new Error("Failed to save signed prekey")
+    }
+  }
+
+  async getSignedPreKey(preKeyId: string): Promise<SignedPreKey | null> {
+    try {
+      return await this.signedPreKeyStore.getItem(preKeyId)
+    } catch (error) {
+      console.error("Failed to get signed prekey:", error)
+      return null
+    }
+  }
+
+  async getAllSignedPreKeys(): Promise<SignedPreKey[]> {
+    try {
+      const preKeys: SignedPreKey[] = []
+      await this.signedPreKeyStore.iterate((value: SignedPreKey) => {
+        preKeys.push(value)
+      })
+      return preKeys.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    } catch (error) {
+      console.error("Failed to get signed prekeys:", error)
+      return []
+    }
+  }
+
+  async removeSignedPreKey(preKeyId: string): Promise<void> {
+    try {
+      await this.signedPreKeyStore.removeItem(preKeyId)
+    } catch (error) {
+      console.error("Failed to remove signed prekey:", error)
+      throw new Error("Failed to remove signed prekey")
+    }
+  }
+
+  async saveOneTimePreKeys(preKeys: OneTimePreKey[]): Promise<void> {
+    try {
+      for (const preKey of preKeys) {
+        await this.oneTimePreKeyStore.setItem(preKey.id, preKey)
+      }
+    } catch (error) {
+      console.error("Failed to save one-time prekeys:", error)
+      throw new Error("Failed to save one-time prekeys")
+    }
+  }
+
+  async getOneTimePreKey(preKeyId: string): Promise<OneTimePreKey | null> {
+    try {
+      return await this.oneTimePreKeyStore.getItem(preKeyId)
+    } catch (error) {
+      console.error("Failed to get one-time prekey:", error)
+      return null
+    }
+  }
+
+  async getAllOneTimePreKeys(): Promise<OneTimePreKey[]> {
+    try {
+      const preKeys: OneTimePreKey[] = []
+      await this.oneTimePreKeyStore.iterate((value: OneTimePreKey) => {
+        preKeys.push(value)
+      })
+      return preKeys
+    } catch (error) {
+      console.error("Failed to get one-time prekeys:", error)
+      return []
+    }
+  }
+
+  async removeOneTimePreKey(preKeyId: string): Promise<void> {
+    try {
+      await this.oneTimePreKeyStore.removeItem(preKeyId)
+    } catch (error) {
+      console.error("Failed to remove one-time prekey:", error)
+      throw new Error("Failed to remove one-time prekey")
+    }
+  }
+
+  // Contacts' prekey bundles, fetched while they were online
+  async savePreKeyBundle(bundle: PreKeyBundle): Promise<void> {
+    try {
+      await this.preKeyBundleStore.setItem(bundle.userId, bundle)
+    } catch (error) {
+      console.error("Failed to save prekey bundle:", error)
+      throw new Error("Failed to save prekey bundle")
+    }
+  }
+
+  async getPreKeyBundle(userId: string): Promise<PreKeyBundle | null> {
+    try {
+      return await this.preKeyBundleStore.getItem(userId)
+    } catch (error) {
+      console.error("Failed to get prekey bundle:", error)
+      return null
+    }
+  }
+
+  async removePreKeyBundle(userId: string): Promise<void> {
+    try {
+      await this.preKeyBundleStore.removeItem(userId)
+    } catch (error) {
+      console.error("Failed to remove prekey bundle:", error)
+      throw new Error("Failed to remove prekey bundle")
+    }
+  }
+
+  // Ids of received envelopes with their timestamp, for replay detection
+  async markEnvelopeSeen(envelopeId: string, timestamp: number): Promise<void> {
+    try {
+      await this.seenEnvelopeStore.setItem(envelopeId, timestamp)
+    } catch (error) {
+      console.error("Failed to mark envelope seen:", error)
+      throw new Error("Failed to mark envelope seen")
+    }
+  }
+
+  async hasSeenEnvelope(envelopeId: string): Promise<boolean> {
+    try {
+      return (await this.seenEnvelopeStore.getItem(envelopeId)) !== null
+    } catch (error) {
+      console.error("Failed to check seen envelope:", error)
+      return false
+    }
+  }
+
+  async pruneSeenEnvelopes(olderThan: number): Promise<number> {
+    try {
+      const expired: string[] = []
+      await this.seenEnvelopeStore.iterate((timestamp: number, envelopeId) => {
+        if (timestamp < olderThan) {
+          expired.push(envelopeId)
+        }
+      })
+
+      for (const envelopeId of expired) {
+        await this.seenEnvelopeStore.removeItem(envelopeId)
+      }
+
+      return expired.length
+    } catch (error) {
+      console.error("Failed to prune seen envelopes:", error)
+      return 0
+    }
+  }
+
+  // Group sender keys: ours by group, the members' by group and sender. Left out of backups like sessions.
+  async saveOwnSenderKey(senderKey: OwnSenderKey): Promise<void> {
+    try {
+      await this.ownSenderKeyStore.setItem(senderKey.distribution.groupId, senderKey)
+    } catch (error) {
+      console.error("Failed to save own sender key:", error)
+      throw new Error("Failed to save own sender key")
+    }
+  }
+
+  async getOwnSenderKey(groupId: string): Promise<OwnSenderKey | null> {
+    try {
+      return await this.ownSenderKeyStore.getItem(groupId)
+    } catch (error) {
+      console.error("Failed to get own sender key:", error)
+      return null
+    }
+  }
+
+  async saveSenderKeys(record: SenderKeyRecord): Promise<void> {
+    try {
+      await this.senderKeyStore.setItem(`${record.groupId}:${record.senderId}`, record)
+    } catch (error) {
+      console.error("Failed to save sender keys:", error)
+      throw new Error("Failed to save sender keys")
+    }
+  }
+
+  async getSenderKeys(groupId: string, senderId: string): Promise<SenderKeyRecord | null> {
+    try {
+      return await this.senderKeyStore.getItem(`${groupId}:${senderId}`)
+    } catch (error) {
+      console.error("Failed to get sender keys:", error)
+      return null
+    }
+  }
+
+  // Drops our key and the keys of everyone not in `keepSenderIds`, all keys when it is empty
+  private async removeSenderKeys(groupId: string, keepSenderIds: string[] = []): Promise<void> {
+    const keys = await this.senderKeyStore.keys()
+    const stale = keys.filter(
+      (key) => key.startsWith(`${groupId}:`) && !keepSenderIds.includes(key.slice(groupId.length + 1)),
+    )
+
+    await this.ownSenderKeyStore.removeItem(groupId)
+    await Promise.all(stale.map((key) => this.senderKeyStore.removeItem(key)))
+  }
+
   // Contact management
   async saveContact(contact: Contact): Promise<void> {
     try {
@@ -130,7 +445,19 @@ export class StorageManager {
   // Group management
   async saveGroup(group: Group): Promise<void> {
     try {
+      const previous = await this.groupStore.getItem<Group>(group.id)
       await this.groupStore.setItem(group.id, group)
+
+      // Any membership change retires our sender key and forgets removed members' keys,
+      // the next message goes out under a new key that only current members receive
+      const membersChanged =
+        previous &&
+        (previous.members.length !== group.members.length ||
+          previous.members.some((memberId) => !group.members.includes(memberId)))
+      if (membersChanged) {
+        await this.removeSenderKeys(group.id, group.members)
+      }
+
       await this.updateLastActivity()
     } catch (error) {
       console.error("Failed to save group:", error)
@@ -138,6 +465,66 @@ export class StorageManager {
     }
   }
 
+  // Invitations we received, by invite id
+  async saveGroupInvitation(invitation: GroupInvitation): Promise<void> {
+    try {
+      await this.groupInvitationStore.setItem(invitation.invite.id, invitation)
+    } catch (error) {
+      console.error("Failed to save group invitation:", error)
+      throw new Error("Failed to save group invitation")
+    }
+  }
+
+  async getGroupInvitation(inviteId: string): Promise<GroupInvitation | null> {
+    try {
+      return await this.groupInvitationStore.getItem(inviteId)
+    } catch (error) {
+      console.error("Failed to get group invitation:", error)
+      return null
+    }
+  }
+
+  async getAllGroupInvitations(): Promise<GroupInvitation[]> {
+    try {
+      const invitations: GroupInvitation[] = []
+      await this.groupInvitationStore.iterate((invitation: GroupInvitation) => {
+        invitations.push(invitation)
+      })
+      return invitations
+    } catch (error) {
+      console.error("Failed to get group invitations:", error)
+      return []
+    }
+  }
+
+  async removeGroupInvitation(inviteId: string): Promise<void> {
+    try {
+      await this.groupInvitationStore.removeItem(inviteId)
+    } catch (error) {
+      console.error("Failed to remove group invitation:", error)
+      throw new Error("Failed to remove group invitation")
+    }
+  }
+
+  // Operation logs by group id, see GroupManager
+  async saveGroupLog(groupId: string, log: GroupLog): Promise<void> {
+    try {
+      await this.groupLogStore.setItem(groupId, log)
+    } catch (error) {
+      console.error("Failed to save group log:", error)
+      throw new Error("Failed to save group log")
+    }
+  }
+
+  async getGroupLog(groupId: string): Promise<GroupLog | null> {
+    try {
+      return await this.groupLogStore.getItem(groupId)
+    } catch (error) {
+      console.error("Failed to get group log:", error)
+      return null
+    }
+  }
+
   async getGroup(groupId: string): Promise<Group | null> {
     try {
       return await this.groupStore.getItem(groupId)
@@ -163,9 +550,13 @@ export class StorageManager {
   async removeGroup(groupId: string): Promise<void> {
     try {
       await this.groupStore.removeItem(groupId)
-      const messages = await this.getAllMessages()
-      const groupMessages = messages.filter((m) => m.groupId === groupId)
+      await this.groupLogStore.removeItem(groupId)
+      await this.removeSenderKeys(groupId)
+      await this.removeChatClock(groupId)
+      const { messages: groupMessages } = await this.getMessagePage(groupId)
       await Promise.all(groupMessages.map((m) => this.messageStore.removeItem(m.id)))
+      await Promise.all(groupMessages.map((m) => this.searchIndex.update(m, null)))
+      await this.messageIndex.removeChat(groupId)
       await this.updateLastActivity()
     } catch (error) {
       console.error("Failed to remove group:", error)
@@ -174,9 +565,13 @@ export class StorageManager {
   }
 
   // Message management
+  // Keyed by the message id, saving a copy again replaces the message instead of adding one
   async saveMessage(message: Message): Promise<void> {
     try {
+      const previous = await this.messageStore.getItem<Message>(message.id)
       await this.messageStore.setItem(message.id, message)
+      await this.messageIndex.update(previous, message)
+      await this.searchIndex.update(previous, message)
       await this.updateLastActivity()
     } catch (error) {
       console.error("Failed to save message:", error)
@@ -193,21 +588,284 @@ export class StorageManager {
     }
   }
 
-  async getMessagesForChat(chatId: string): Promise<Message[]> {
+  async removeMessage(messageId: string): Promise<void> {
     try {
-      const messages: Message[] = []
-      await this.messageStore.iterate((message: Message) => {
-        if (message.recipientId === chatId || message.groupId === chatId || message.senderId === chatId) {
-          messages.push(message)
+      const message = await this.messageStore.getItem<Message>(messageId)
+      await this.messageStore.removeItem(messageId)
+      if (message) await this.messageIndex.remove([message])
+      await this.searchIndex.update(message, null)
+    } catch (error) {
+      console.error("Failed to remove message:", error)
+      throw new Error("Failed to remove message")
+    }
+  }
+
+  // Outgoing messages by message id, see MessageManager for the retry schedule
+  async saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.outboxStore.setItem(entry.messageId, entry)
+    } catch (error) {
+      console.error("Failed to save outbox entry:", error)
+      throw new Error("Failed to save outbox entry")
+    }
+  }
+
+  async getOutboxEntry(messageId: string): Promise<OutboxEntry | null> {
+    try {
+      return await this.outboxStore.getItem(messageId)
+    } catch (error) {
+      console.error("Failed to get outbox entry:", error)
+      return null
+    }
+  }
+
+  async getAllOutboxEntries(): Promise<OutboxEntry[]> {
+    try {
+      const entries: OutboxEntry[] = []
+      await this.outboxStore.iterate((entry: OutboxEntry) => {
+        entries.push(entry)
+      })
+      return entries
+    } catch (error) {
+      console.error("Failed to get outbox entries:", error)
+      return []
+    }
+  }
+
+  async removeOutboxEntry(messageId: string): Promise<void> {
+    try {
+      await this.outboxStore.removeItem(messageId)
+    } catch (error) {
+      console.error("Failed to remove outbox entry:", error)
+      throw new Error("Failed to remove outbox entry")
+    }
+  }
+
+  // Encrypted attachment chunks by `${senderId}:${attachmentId}:${index}`, see AttachmentManager. The sender picks
+  // the attachment id, so it is only unique per sender. The indexes stored so far are listed per attachment. Left
+  // out of backups.
+  async saveAttachmentChunk(senderId: string, attachmentId: string, index: number, chunk: string): Promise<void> {
+    const attachmentKey = `${senderId}:${attachmentId}`
+    try {
+      await this.attachmentChunkStore.setItem(`${attachmentKey}:${index}`, chunk)
+      await this.withLock(attachmentKey, async () => {
+        const indexes = (await this.attachmentChunkIndexStore.getItem<number[]>(attachmentKey)) ?? []
+        if (!indexes.includes(index)) {
+          await this.attachmentChunkIndexStore.setItem(attachmentKey, [...indexes, index])
+        }
+      })
+    } catch (error) {
+      console.error("Failed to save attachment chunk:", error)
+      throw new Error("Failed to save attachment chunk")
+    }
+  }
+
+  async getAttachmentChunk(senderId: string, attachmentId: string, index: number): Promise<string | null> {
+    try {
+      return await this.attachmentChunkStore.getItem(`${senderId}:${attachmentId}:${index}`)
+    } catch (error) {
+      console.error("Failed to get attachment chunk:", error)
+      return null
+    }
+  }
+
+  async getAttachmentChunkIndexes(senderId: string, attachmentId: string): Promise<number[]> {
+    try {
+      return (await this.attachmentChunkIndexStore.getItem<number[]>(`${senderId}:${attachmentId}`)) ?? []
+    } catch (error) {
+      console.error("Failed to get attachment chunks:", error)
+      return []
+    }
+  }
+
+  async removeAttachmentChunks(senderId: string, attachmentId: string): Promise<void> {
+    const attachmentKey = `${senderId}:${attachmentId}`
+    try {
+      await this.withLock(attachmentKey, async () => {
+        const indexes = (await this.attachmentChunkIndexStore.getItem<number[]>(attachmentKey)) ?? []
+        for (const index of indexes) {
+          await this.attachmentChunkStore.removeItem(`${attachmentKey}:${index}`)
+        }
+        await this.attachmentChunkIndexStore.removeItem(attachmentKey)
+      })
+    } catch (error) {
+      console.error("Failed to remove attachment chunks:", error)
+      throw new Error("Failed to remove attachment")
+    }
+  }
+
+  // Ids of received messages whose attachment is still being fetched, listed by sender id so the downloads from a
+  // sender resume when they come back online
+  async addPendingDownload(senderId: string, messageId: string): Promise<void> {
+    await this.updatePeerList(this.pendingDownloadStore, senderId, (ids) => [...ids, messageId])
+  }
+
+  async getPendingDownloads(senderId: string): Promise<string[]> {
+    try {
+      return (await this.pendingDownloadStore.getItem<string[]>(senderId)) ?? []
+    } catch (error) {
+      console.error("Failed to get pending downloads:", error)
+      return []
+    }
+  }
+
+  async removePendingDownload(senderId: string, messageId: string): Promise<void> {
+    await this.updatePeerList(this.pendingDownloadStore, senderId, (ids) => ids.filter((id) => id !== messageId))
+  }
+
+  // Ids of messages with edits, retractions or reactions of ours that a peer has not been sent yet, by peer id
+  async addPendingUpdate(peerId: string, messageId: string): Promise<void> {
+    await this.updatePeerList(this.pendingUpdateStore, peerId, (ids) => [...ids, messageId])
+  }
+
+  async getPendingUpdates(peerId: string): Promise<string[]> {
+    try {
+      return (await this.pendingUpdateStore.getItem<string[]>(peerId)) ?? []
+    } catch (error) {
+      console.error("Failed to get pending updates:", error)
+      return []
+    }
+  }
+
+  async removePendingUpdate(peerId: string, messageId: string): Promise<void> {
+    await this.updatePeerList(this.pendingUpdateStore, peerId, (ids) => ids.filter((id) => id !== messageId))
+  }
+
+  // Serialized group events a peer could not be sent, by peer id, in the order they were made
+  async addPendingGroupEvent(peerId: string, event: string): Promise<void> {
+    await this.updatePeerList(this.pendingGroupEventStore, peerId, (events) => [...events, event])
+  }
+
+  async getPendingGroupEvents(peerId: string): Promise<string[]> {
+    try {
+      return (await this.pendingGroupEventStore.getItem<string[]>(peerId)) ?? []
+    } catch (error) {
+      console.error("Failed to get pending group events:", error)
+      return []
+    }
+  }
+
+  async removePendingGroupEvent(peerId: string, event: string): Promise<void> {
+    await this.updatePeerList(this.pendingGroupEventStore, peerId, (events) => events.filter((item) => item !== event))
+  }
+
+  // Ids are kept once, an empty list removes the peer
+  private async updatePeerList(
+    store: LocalForage,
+    peerId: string,
+    change: (ids: string[]) => string[],
+  ): Promise<void> {
+    try {
+      await this.withLock(peerId, async () => {
+        const ids = (await store.getItem<string[]>(peerId)) ?? []
+        const updated = [...new Set(change(ids))]
+        if (updated.length === 0) {
+          await store.removeItem(peerId)
+        } else if (updated.join() !== ids.join()) {
+          await store.setItem(peerId, updated)
         }
       })
-      return messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
     } catch (error) {
-      console.error("Failed to get messages for chat:", error)
+      console.error("Failed to update pending work:", error)
+      throw new Error("Failed to update pending work")
+    }
+  }
+
+  // Logical clocks of each chat by chat id, see MessageClockManager. Left out of backups, they are rebuilt from
+  // the messages.
+  async saveChatClock(chatClock: ChatClock): Promise<void> {
+    try {
+      await this.chatClockStore.setItem(chatClock.chatId, chatClock)
+    } catch (error) {
+      console.error("Failed to save chat clock:", error)
+      throw new Error("Failed to save chat clock")
+    }
+  }
+
+  async getChatClock(chatId: string): Promise<ChatClock | null> {
+    try {
+      return await this.chatClockStore.getItem(chatId)
+    } catch (error) {
+      console.error("Failed to get chat clock:", error)
+      return null
+    }
+  }
+
+  async removeChatClock(chatId: string): Promise<void> {
+    try {
+      await this.chatClockStore.removeItem(chatId)
+    } catch (error) {
+      console.error("Failed to remove chat clock:", error)
+      throw new Error("Failed to remove chat clock")
+    }
+  }
+
+  // A page of a chat's history through the chat's index, newest page first. The index is built on the first read.
+  async getMessagePage(chatId: string, options: MessagePageOptions = {}): Promise<MessagePage> {
+    try {
+      await this.ensureMessageIndex()
+      const { entries, hasMore } = await this.messageIndex.getEntries(chatId, options)
+
+      const messages = await Promise.all(entries.map((entry) => this.messageStore.getItem<Message>(entry.id)))
+      return {
+        messages: messages.filter((message): message is Message => !!message).sort(compareMessages),
+        nextCursor: hasMore ? (entries[entries.length - 1] ?? options.since ?? null) : null,
+      }
+    } catch (error) {
+      console.error("Failed to get message page:", error)
+      return { messages: [], nextCursor: null }
+    }
+  }
+
+  async getMessagesForChat(chatId: string): Promise<Message[]> {
+    return (await this.getMessagePage(chatId)).messages
+  }
+
+  // Received messages of a chat not read yet, through the chat's unread list in the index
+  async getUnreadMessages(chatId: string): Promise<Message[]> {
+    try {
+      await this.ensureMessageIndex()
+      return await this.getIndexedMessages(await this.messageIndex.getUnread(chatId))
+    } catch (error) {
+      console.error("Failed to get unread messages:", error)
+      return []
+    }
+  }
+
+  // Messages replying directly to the message, through its reply list in the index
+  async getReplies(messageId: string): Promise<Message[]> {
+    try {
+      await this.ensureMessageIndex()
+      return await this.getIndexedMessages(await this.messageIndex.getReplies(messageId))
+    } catch (error) {
+      console.error("Failed to get replies:", error)
       return []
     }
   }
 
+  // Disappearing messages due by the time, through the index's expiry list, and when the next one is due
+  async getExpiredMessages(timestamp: number): Promise<{ messages: Message[]; nextExpiresAt: number | null }> {
+    try {
+      await this.ensureMessageIndex()
+      const { ids, nextExpiresAt } = await this.messageIndex.getExpiring(timestamp)
+      return { messages: await this.getIndexedMessages(ids), nextExpiresAt }
+    } catch (error) {
+      console.error("Failed to get expired messages:", error)
+      return { messages: [], nextExpiresAt: null }
+    }
+  }
+
+  private async getIndexedMessages(ids: string[]): Promise<Message[]> {
+    const messages = await Promise.all(ids.map((id) => this.messageStore.getItem<Message>(id)))
+    return messages.filter((message): message is Message => !!message)
+  }
+
+  private async ensureMessageIndex(): Promise<void> {
+    if (!(await this.messageIndex.isBuilt())) {
+      await this.messageIndex.build(() => this.getAllMessages())
+    }
+  }
+
   async getAllMessages(): Promise<Message[]> {
     try {
       const messages: Message[] = []
@@ -221,15 +879,64 @@ export class StorageManager {
     }
   }
 
+  // Messages matching a search box query, newest first. The index narrows them down to those with every word,
+  // phrases and filters are checked on the messages. The index is built on the first search.
+  async searchMessages(input: string): Promise<SearchResult[]> {
+    try {
+      const query = parseSearchQuery(input)
+      if (isSearchQueryEmpty(query)) return []
+
+      let candidates: Message[]
+      const tokens = getQueryTokens(query)
+      if (tokens.length > 0) {
+        if (!(await this.searchIndex.isBuilt())) {
+          await this.searchIndex.build(() => this.getAllMessages())
+        }
+        const ids = await this.searchIndex.lookup(tokens)
+        candidates = (await Promise.all(ids.map((id) => this.getMessage(id)))).filter(
+          (message): message is Message => !!message,
+        )
+      } else {
+        candidates = await this.getAllMessages()
+      }
+
+      const senderIds = query.from ? await this.findSenderIds(query.from) : undefined
+      return candidates
+        .filter((message) => matchesSearchQuery(message, query, senderIds))
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, MAX_SEARCH_RESULTS)
+        .map((message) => ({ message, snippet: getSnippet(getSearchableText(message), query) }))
+    } catch (error) {
+      console.error("Failed to search messages:", error)
+      throw new Error("Failed to search messages")
+    }
+  }
+
+  // "me", or contacts whose name starts with the text
+  private async findSenderIds(name: string): Promise<string[]> {
+    const user = await this.getCurrentUser()
+    const contacts = await this.getAllContacts()
+
+    return [
+      ...(user && (name === "me" || user.username.toLowerCase().startsWith(name)) ? [user.id] : []),
+      ...contacts.filter((contact) => contact.username.toLowerCase().startsWith(name)).map((contact) => contact.id),
+    ]
+  }
+
   async cleanupOldMessages(daysToKeep = 30): Promise<number> {
     try {
       const cutoffDate = new Date()
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep)
 
-      const messages = await this.getAllMessages()
-      const oldMessages = messages.filter((m) => m.timestamp < cutoffDate)
+      await this.ensureMessageIndex()
+      const entries = await this.messageIndex.getEntriesBefore(cutoffDate.getTime())
+      const oldMessages = (await Promise.all(entries.map((entry) => this.getMessage(entry.id)))).filter(
+        (message): message is Message => !!message,
+      )
 
       await Promise.all(oldMessages.map((m) => this.messageStore.removeItem(m.id)))
+      await Promise.all(oldMessages.map((m) => this.searchIndex.update(m, null)))
+      await this.messageIndex.remove(oldMessages)
 
       return oldMessages.length
     } catch (error) {
@@ -240,8 +947,8 @@ export class StorageManager {
 
   async getStorageStats(): Promise<StorageStats> {
     try {
-      const [messages, contacts, groups] = await Promise.all([
-        this.getAllMessages(),
+      const [totalMessages, contacts, groups] = await Promise.all([
+        this.messageStore.length(),
         this.getAllContacts(),
         this.getAllGroups(),
       ])
@@ -249,7 +956,7 @@ export class StorageManager {
       const lastBackup = await this.metaStore.getItem<Date>("lastBackup")
 
       return {
-        totalMessages: messages.length,
+        totalMessages,
         totalContacts: contacts.length,
         totalGroups: groups.length,
         storageSize: await this.calculateStorageSize(),
@@ -275,6 +982,24 @@ export class StorageManager {
         this.groupStore,
         this.messageStore,
         this.keyStore,
+        this.sessionStore,
+        this.signedPreKeyStore,
+        this.oneTimePreKeyStore,
+        this.preKeyBundleStore,
+        this.seenEnvelopeStore,
+        this.ownSenderKeyStore,
+        this.senderKeyStore,
+        this.groupInvitationStore,
+        this.groupLogStore,
+        this.outboxStore,
+        this.attachmentChunkStore,
+        this.attachmentChunkIndexStore,
+        this.pendingDownloadStore,
+        this.pendingUpdateStore,
+        this.pendingGroupEventStore,
+        this.chatClockStore,
+        this.searchIndexStore,
+        this.messageIndexStore,
         this.metaStore,
       ]
 
@@ -396,6 +1121,24 @@ export class StorageManager {
         this.groupStore.clear(),
         this.messageStore.clear(),
         this.keyStore.clear(),
+        this.sessionStore.clear(),
+        this.signedPreKeyStore.clear(),
+        this.oneTimePreKeyStore.clear(),
+        this.preKeyBundleStore.clear(),
+        this.seenEnvelopeStore.clear(),
+        this.ownSenderKeyStore.clear(),
+        this.senderKeyStore.clear(),
+        this.groupInvitationStore.clear(),
+        this.groupLogStore.clear(),
+        this.outboxStore.clear(),
+        this.attachmentChunkStore.clear(),
+        this.attachmentChunkIndexStore.clear(),
+        this.pendingDownloadStore.clear(),
+        this.pendingUpdateStore.clear(),
+        this.pendingGroupEventStore.clear(),
+        this.chatClockStore.clear(),
+        this.searchIndex.clear(),
+        this.messageIndex.clear(),
         this.metaStore.clear(),
       ])
     } catch (error) {
@@ -431,7 +1174,7 @@ export class StorageManager {
       // Check messages
       const messages = await this.getAllMessages()
       for (const message of messages) {
-        if (!message.id || !message.senderId || !message.content) {
+        if (!message.id || !message.senderId || typeof message.content !== "string") {
           errors.push(`Invalid message data: ${message.id || "Unknown"}`)
         }
       }
@@ -0,0 +1,223 @@
+import type { NetworkMessage } from "./p2p-network"
+import type { SignalingClient } from "./signaling"
+
+// Moves NetworkMessages between peers; everything above this layer is transport agnostic
+export interface Transport {
+  readonly name: string
+  start(localPeerId: string): Promise<void>
+  // Returns false when the peer is not reachable over this transport
+  send(peerId: string, message: NetworkMessage): boolean
+  // Returns the number of peers the message was handed to (broadcast media count as one)
+  broadcast(message: NetworkMessage): number
+  onFrame(handler: (message: NetworkMessage, peerId: string | null) => void): void
+  onPeerUp(handler: (peerId: string) => void): void
+  onPeerDown(handler: (peerId: string) => void): void
+  getPeers(): string[]
+  // Transports that negotiate connections out-of-band receive the active signaling client
+  useSignaling?(signaling: SignalingClient | null): void
+  close(): void
+}
+
+export abstract class BaseTransport implements Transport {
+  abstract readonly name: string
+  protected localPeerId: string | null = null
+  private frameHandlers: ((message: NetworkMessage, peerId: string | null) => void)[] = []
+  private peerUpHandlers: ((peerId: string) => void)[] = []
+  private peerDownHandlers: ((peerId: string) => void)[] = []
+
+  async start(localPeerId: string): Promise<void> {
+    this.localPeerId = localPeerId
+  }
+
+  abstract send(peerId: string, message: NetworkMessage): boolean
+  abstract broadcast(message: NetworkMessage): number
+  abstract getPeers(): string[]
+  abstract close(): void
+
+  onFrame(handler: (message: NetworkMessage, peerId: string | null) => void): void {
+    this.frameHandlers.push(handler)
+  }
+
+  onPeerUp(handler: (peerId: string) => void): void {
+    this.peerUpHandlers.push(handler)
+  }
+
+  onPeerDown(handler: (peerId: string) => void): void {
+    this.peerDownHandlers.push(handler)
+  }
+
+  protected emitFrame(message: NetworkMessage, peerId: string | null): void {
+    if (!message || message.senderId === this.localPeerId) return
+    this.frameHandlers.forEach((handler) => handler(message, peerId))
+  }
+
+  protected emitPeerUp(peerId: string): void {
+    this.peerUpHandlers.forEach((handler) => handler(peerId))
+  }
+
+  protected emitPeerDown(peerId: string): void {
+    this.peerDownHandlers.forEach((handler) => handler(peerId))
+  }
+}
+
+// Frames between tabs: network messages, and presence beats from which each tab learns which peers are open
+type CrossTabFrame =
+  | { type: "network_message"; message: NetworkMessage }
+  | { type: "presence"; peerId: string }
+  | { type: "leave"; peerId: string }
+
+const PRESENCE_INTERVAL = 5000
+const PEER_TIMEOUT = 3 * PRESENCE_INTERVAL
+
+// Tabs of the same browser see every frame; a peer is up from its first frame until it leaves or goes quiet
+abstract class CrossTabTransport extends BaseTransport {
+  private peersLastSeen: Map<string, number> = new Map()
+  private presenceInterval: ReturnType<typeof setInterval> | null = null
+
+  protected abstract post(frame: CrossTabFrame): boolean
+
+  async start(localPeerId: string): Promise<void> {
+    await super.start(localPeerId)
+
+    this.presenceInterval = setInterval(() => {
+      this.post({ type: "presence", peerId: localPeerId })
+      this.expirePeers()
+    }, PRESENCE_INTERVAL)
+  }
+
+  send(_peerId: string, message: NetworkMessage): boolean {
+    return this.broadcast(message) > 0
+  }
+
+  broadcast(message: NetworkMessage): number {
+    return this.post({ type: "network_message", message }) ? 1 : 0
+  }
+
+  getPeers(): string[] {
+    return Array.from(this.peersLastSeen.keys())
+  }
+
+  close(): void {
+    if (this.presenceInterval) {
+      clearInterval(this.presenceInterval)
+      this.presenceInterval = null
+    }
+    if (this.localPeerId) {
+      this.post({ type: "leave", peerId: this.localPeerId })
+    }
+    this.peersLastSeen.clear()
+  }
+
+  // Called by subclasses once their channel is open, tabs already open answer with their own presence
+  protected announce(): void {
+    if (this.localPeerId) {
+      this.post({ type: "presence", peerId: this.localPeerId })
+    }
+  }
+
+  protected receive(frame: CrossTabFrame): void {
+    if (frame?.type === "network_message") {
+      if (frame.message?.senderId) this.markPeerSeen(frame.message.senderId)
+      this.emitFrame(frame.message, null)
+    } else if (frame?.type === "presence" && typeof frame.peerId === "string") {
+      if (this.markPeerSeen(frame.peerId)) this.announce()
+    } else if (frame?.type === "leave" && this.peersLastSeen.delete(frame.peerId)) {
+      this.emitPeerDown(frame.peerId)
+    }
+  }
+
+  // Returns whether the peer is new
+  private markPeerSeen(peerId: string): boolean {
+    if (peerId === this.localPeerId) return false
+
+    const isNew = !this.peersLastSeen.has(peerId)
+    this.peersLastSeen.set(peerId, Date.now())
+    if (isNew) this.emitPeerUp(peerId)
+    return isNew
+  }
+
+  private expirePeers(): void {
+    const now = Date.now()
+    for (const [peerId, lastSeen] of Array.from(this.peersLastSeen)) {
+      if (now - lastSeen > PEER_TIMEOUT) {
+        this.peersLastSeen.delete(peerId)
+        this.emitPeerDown(peerId)
+      }
+    }
+  }
+}
+
+// Relay between tabs of the same browser
+export class BroadcastChannelTransport extends CrossTabTransport {
+  readonly name = "broadcast-channel"
+  private channel: BroadcastChannel | null = null
+
+  constructor(private channelName = "p2p-chat-demo") {
+    super()
+  }
+
+  async start(localPeerId: string): Promise<void> {
+    await super.start(localPeerId)
+
+    this.channel = new BroadcastChannel(this.channelName)
+    this.channel.onmessage = (event) => this.receive(event.data)
+    this.announce()
+  }
+
+  close(): void {
+    super.close()
+    this.channel?.close()
+    this.channel = null
+  }
+
+  protected post(frame: CrossTabFrame): boolean {
+    if (!this.channel) return false
+
+    this.channel.postMessage(frame)
+    return true
+  }
+}
+
+// Fallback for browsers without BroadcastChannel, relays through storage events
+export class LocalStorageTransport extends CrossTabTransport {
+  readonly name = "local-storage"
+  private storageEventListener: ((event: StorageEvent) => void) | null = null
+
+  constructor(private storageKey = "p2p-chat-messages") {
+    super()
+  }
+
+  async start(localPeerId: string): Promise<void> {
+    await super.start(localPeerId)
+
+    this.storageEventListener = (event) => {
+      if (event.key === this.storageKey && event.newValue) {
+        try {
+          this.receive(JSON.parse(event.newValue))
+        } catch (error) {
+          console.error("Error parsing cross-tab message:", error)
+        }
+      }
+    }
+    window.addEventListener("storage", this.storageEventListener)
+    this.announce()
+  }
+
+  close(): void {
+    super.close()
+    if (this.storageEventListener) {
+      window.removeEventListener("storage", this.storageEventListener)
+      this.storageEventListener = null
+    }
+  }
+
+  protected post(frame: CrossTabFrame): boolean {
+    if (!this.storageEventListener) return false
+
+    localStorage.setItem(this.storageKey, JSON.stringify(frame))
+    setTimeout(() => {
+      localStorage.removeItem(this.storageKey)
+    }, 100)
+    return true
+  }
+}
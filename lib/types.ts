@@ -7,11 +7,16 @@ export interface User {
   lastSeen: Date
 }
 
+export type PresenceState = "online" | "away" | "offline"
+
 export interface Contact extends User {
   isBlocked: boolean
   addedAt: Date
   isVerified?: boolean // Identity verification status
   verificationCode?: string // QR code for verification
+  presence?: PresenceState // As last announced by the contact, isOnline is true unless "offline"
+  messageTTL?: number // Disappearing message timer of the chat in milliseconds, the latest either side set
+  messageTTLUpdatedAt?: number
 }
 
 export interface Message {
@@ -27,6 +32,82 @@ export interface Message {
   expiresAt?: Date
   signature?: string // Message signature for authenticity
   hash?: string // Message integrity hash
+  // Ours: how far it got, from the outbox and receipts. Received: "delivered" until we read it.
+  status?: "sending" | "sent" | "delivered" | "read" | "failed"
+  receipts?: Record<string, "delivered" | "read"> // Our group messages, per member
+  attachment?: Attachment // With messageType "file" or "voice", the content is an optional caption
+  replyTo?: string // Id of the message this one replies to, in the same chat
+  clock?: VectorClock // Messages of each member the sender had seen in the chat, this one included
+  hasMissingPredecessors?: boolean // Arrived before a message it came after, until that one arrives
+  edit?: MessageEdit // The latest edit, the content is its text
+  revisions?: MessageRevision[] // Texts the edits replaced, oldest first
+  retraction?: MessageRetraction // Deleted for everyone, the message is a tombstone without its content
+  reactions?: ReactionState[] // The latest state of each member's reaction with each emoji
+}
+
+// A new text for a message, signed by the message's sender; edits by anyone else are rejected
+export interface MessageEdit {
+  messageId: string
+  content: string
+  editedAt: number
+  signature: string
+}
+
+// Deletes a message for everyone, signed by the message's sender like an edit
+export interface MessageRetraction {
+  messageId: string
+  retractedAt: number
+  signature: string
+}
+
+// An emoji added to or removed from a message; the later change of a member's reaction wins
+export interface MessageReaction {
+  messageId: string
+  emoji: string
+  isActive: boolean
+  updatedAt: number
+}
+
+export interface ReactionState {
+  userId: string
+  emoji: string
+  isActive: boolean // Removed reactions are kept so an older add arriving late cannot bring them back
+  updatedAt: number
+}
+
+export interface MessageRevision {
+  content: string
+  timestamp: number // When this text was written
+}
+
+// Number of messages from each member, by user id
+export type VectorClock = Record<string, number>
+
+// A file sent with a message. The key travels inside the encrypted message, the encrypted chunks are fetched
+// from the sender separately and checked against their hashes.
+export interface Attachment {
+  id: string
+  name: string
+  mimeType: string
+  size: number // Bytes before encryption
+  key: string
+  chunkSize: number
+  chunkHashes: string[] // Hash of each encrypted chunk, in order
+  duration?: number // Voice notes: length in seconds and peak levels from 0 to 1 to draw before playing
+  waveform?: number[]
+}
+
+// One of our messages on its way out. Direct messages wait for their recipient, group messages for any member.
+export interface OutboxEntry {
+  messageId: string
+  recipientId?: string
+  groupId?: string
+  pendingMemberIds?: string[] // Group members still without a copy, the entry stays pending until there are none
+  state: "pending" | "sent" | "delivered" | "failed" // Delivered once the recipient acknowledges it
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  createdAt: number
 }
 
 export interface Group {
@@ -34,12 +115,65 @@ export interface Group {
   name: string
   description?: string
   publicKey: string // Group's public identifier
-  symmetricKey: string // Encrypted symmetric key for group messages
+  symmetricKey?: string // Legacy shared key, only used to read messages from clients without sender keys
   members: string[] // Array of user IDs
   createdBy: string
   createdAt: Date
-  isPrivate: boolean
-  requiresInvite?: boolean
+  isPrivate: boolean // Private groups only admit contacts invited by name, never by invite code
+  requiresInvite?: boolean // Invite-only: only admins may add members
+  roles?: Record<string, GroupRole> // Members without an entry are plain members, the creator owns groups without roles
+  version?: number // Number of operations applied, an operation made on a later one means we missed some
+  messageTTL?: number // Disappearing message timer in milliseconds, set by an admin
+}
+
+export type GroupRole = "owner" | "admin" | "member"
+
+export type GroupOperationType =
+  | "add"
+  | "remove"
+  | "promote"
+  | "demote"
+  | "rename"
+  | "set_description"
+  | "set_invite_only"
+  | "set_private"
+  | "set_message_ttl"
+
+// A change to a group, signed by the member making it. Every member checks it against its own role table.
+export interface GroupOperation {
+  id: string
+  groupId: string
+  actorId: string
+  type: GroupOperationType
+  targetId?: string // The member added, removed, promoted or demoted
+  value?: string | boolean | number // The new name, description or setting
+  version: number // Group version the actor applied it to
+  timestamp: number
+  signature: string
+}
+
+// The group as it was created, or as we first had it, and the operations applied to it since. Every member
+// replays the same operations in the same order, see GroupManager.
+export interface GroupLog {
+  base: Group
+  operations: GroupOperation[]
+}
+
+// Signed by the inviter, the inviter admits whoever presents it before it expires
+export interface GroupInvite {
+  id: string
+  groupId: string
+  groupName: string
+  inviterId: string
+  inviteeId?: string // Invite codes have no invitee, any contact of the inviter may use them
+  expiresAt: number
+  signature: string
+}
+
+export interface GroupInvitation {
+  invite: GroupInvite
+  status: "pending" | "accepted" | "declined"
+  receivedAt: Date
 }
 
 export interface KeyPair {
@@ -50,6 +184,32 @@ export interface KeyPair {
   salt?: string // For password-based encryption
 }
 
+// X3DH prekeys: a medium-term signed prekey and single-use prekeys, so contacts can start a session while we are offline
+export interface SignedPreKey {
+  id: string
+  publicKey: string
+  privateKey: string
+  signature: string // Made with the identity signing key over the public key
+  createdAt: Date
+}
+
+export interface OneTimePreKey {
+  id: string
+  publicKey: string
+  privateKey: string
+  createdAt: Date
+  issuedTo?: string // Contact the public half was handed to, each key goes to one contact only
+}
+
+// Public half of our prekeys as handed to a contact
+export interface PreKeyBundle {
+  userId: string
+  identityKey: string
+  signedPreKey: { id: string; publicKey: string; signature: string }
+  oneTimePreKey?: { id: string; publicKey: string }
+  timestamp: number
+}
+
 export interface ChatState {
   currentUser: User | null
   contacts: Contact[]
@@ -76,7 +236,7 @@ export interface MessageVerification {
 
 export interface SecurityAlert {
   id: string
-  type: "key_compromise" | "message_tampering" | "identity_verification" | "backup_restore"
+  type: "key_compromise" | "message_tampering" | "replay_attack" | "identity_verification" | "backup_restore"
   message: string
   timestamp: Date
   severity: "low" | "medium" | "high" | "critical"
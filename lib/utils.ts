@@ -4,3 +4,50 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Deterministic JSON with sorted object keys, used wherever bytes are signed
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value)
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString())
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+
+  return `{${entries.join(",")}}`
+}
+
+// The items with the incoming ones added, an incoming item replacing the one with its id in place
+export function mergeById<T extends { id: string }>(items: T[], incoming: T[]): T[] {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]))
+  const merged = items.map((item) => incomingById.get(item.id) ?? item)
+  const existingIds = new Set(items.map((item) => item.id))
+  return [...merged, ...[...incomingById.values()].filter((item) => !existingIds.has(item.id))]
+}
+
+export type Lock = <T>(key: string, task: () => Promise<T>) => Promise<T>
+
+// Runs the tasks for a key one after another, for state that is read, changed and written back so no update is
+// lost. A failed task does not hold up the next one.
+export function createLock(): Lock {
+  const tails = new Map<string, Promise<unknown>>()
+
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const result = (tails.get(key) ?? Promise.resolve()).then(task)
+    const tail = result.catch(() => undefined)
+    tails.set(key, tail)
+    // Keys with nothing left to run are forgotten
+    tail.then(() => tails.get(key) === tail && tails.delete(key))
+    return result
+  }
+}
@@ -0,0 +1,90 @@
+import type { AttachmentFile } from "./attachment-manager"
+
+// The parts of a Web Audio AudioBuffer the pipeline reads, so it runs on buffers built without a microphone
+export type AudioBufferLike = Pick<
+  AudioBuffer,
+  "duration" | "sampleRate" | "numberOfChannels" | "length" | "getChannelData"
+>
+
+export const WAVEFORM_BARS = 48
+export const MAX_VOICE_NOTE_DURATION = 5 * 60 // Seconds
+
+// Peak level of each bar from 0 to 1, relative to the loudest bar so quiet recordings still show a shape
+export function computeWaveform(buffer: AudioBufferLike, bars = WAVEFORM_BARS): number[] {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+  const samplesPerBar = Math.max(1, Math.floor(buffer.length / bars))
+  const peaks: number[] = []
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0
+    const end = Math.min(buffer.length, (bar + 1) * samplesPerBar)
+    for (let i = bar * samplesPerBar; i < end; i++) {
+      for (const samples of channels) {
+        peak = Math.max(peak, Math.abs(samples[i]))
+      }
+    }
+    peaks.push(peak)
+  }
+
+  const loudest = Math.max(...peaks)
+  return peaks.map((peak) => (loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0))
+}
+
+// 16-bit PCM WAV of the buffer's channels
+export function encodeWav(buffer: AudioBufferLike): Uint8Array {
+  const channels = buffer.numberOfChannels
+  const dataSize = buffer.length * channels * 2
+  const view = new DataView(new ArrayBuffer(44 + dataSize))
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, "RIFF")
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, "WAVE")
+  writeString(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * channels * 2, true)
+  view.setUint16(32, channels * 2, true)
+  view.setUint16(34, 16, true)
+  writeString(36, "data")
+  view.setUint32(40, dataSize, true)
+
+  const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel))
+  let offset = 44
+  for (let i = 0; i < buffer.length; i++) {
+    for (const samples of channelData) {
+      const sample = Math.max(-1, Math.min(1, samples[i]))
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += 2
+    }
+  }
+
+  return new Uint8Array(view.buffer)
+}
+
+// A voice note ready for MessageManager.sendAttachment. The recording as MediaRecorder encoded it when there is one,
+// a WAV of the buffer otherwise; the duration and waveform always come from the decoded buffer.
+export function createVoiceNote(
+  buffer: AudioBufferLike,
+  recording?: { data: Uint8Array; mimeType: string },
+): AttachmentFile {
+  if (buffer.duration > MAX_VOICE_NOTE_DURATION) {
+    throw new Error(`Voice notes are limited to ${MAX_VOICE_NOTE_DURATION / 60} minutes`)
+  }
+
+  const mimeType = recording?.mimeType.split(";")[0] || "audio/wav"
+  const extension = mimeType.split("/")[1] ?? "wav"
+
+  return {
+    name: `voice-note-${new Date().toISOString().replace(/[:.]/g, "-")}.${extension}`,
+    mimeType,
+    data: recording?.data ?? encodeWav(buffer),
+    duration: Math.round(buffer.duration * 10) / 10,
+    waveform: computeWaveform(buffer),
+  }
+}
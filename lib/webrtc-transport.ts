@@ -0,0 +1,303 @@
+import type { NetworkMessage } from "./p2p-network"
+import type { PeerPresence, SignalingClient } from "./signaling"
+import { BaseTransport } from "./transport"
+
+export interface PeerConnection {
+  id: string
+  connection: RTCPeerConnection
+  dataChannel?: RTCDataChannel
+  isConnected: boolean
+  pendingCandidates: RTCIceCandidateInit[]
+  fragments: string[] // Of the frame being received, see FrameFragment
+}
+
+// Offer/answer and ICE candidates exchanged out-of-band before a data channel exists
+export type WebRTCSignal =
+  | { type: "offer"; sdp: RTCSessionDescriptionInit }
+  | { type: "answer"; sdp: RTCSessionDescriptionInit }
+  | { type: "candidate"; candidate: RTCIceCandidateInit }
+
+// Part of a frame too long for one data channel message. The channel is ordered, the parts of a frame arrive one
+// after another.
+interface FrameFragment {
+  fragment: { index: number; count: number }
+  data: string
+}
+
+const DATA_CHANNEL_LABEL = "p2p-chat"
+// Data channel messages stay under the 16 KiB every browser exchanges: characters of a frame per fragment, with
+// room for JSON escaping and multi-byte characters
+const MAX_FRAGMENT_LENGTH = 4 * 1024
+const MAX_FRAGMENTS = 256
+
+export class WebRTCTransport extends BaseTransport {
+  readonly name = "webrtc"
+  private peers: Map<string, PeerConnection> = new Map()
+  private signaling: SignalingClient | null = null
+
+  constructor(
+    private configuration: RTCConfiguration = {
+      iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
+    },
+  ) {
+    super()
+  }
+
+  useSignaling(signaling: SignalingClient | null): void {
+    this.signaling = signaling
+    if (!signaling) return
+
+    signaling.onPresence((presence) => {
+      if (this.signaling === signaling) this.handlePeerDiscovery(presence)
+    })
+    signaling.onSignal((peerId, signal) => {
+      if (this.signaling === signaling) this.handleSignal(peerId, signal)
+    })
+  }
+
+  send(peerId: string, message: NetworkMessage): boolean {
+    const peer = this.peers.get(peerId)
+    return peer ? this.sendOverDataChannel(peer, message) : false
+  }
+
+  broadcast(message: NetworkMessage): number {
+    let sentCount = 0
+    this.peers.forEach((peer) => {
+      if (this.sendOverDataChannel(peer, message)) sentCount++
+    })
+    return sentCount
+  }
+
+  getPeers(): string[] {
+    return Array.from(this.peers.values())
+      .filter((peer) => peer.isConnected && peer.dataChannel?.readyState === "open")
+      .map((peer) => peer.id)
+  }
+
+  close(): void {
+    this.peers.forEach((peer) => {
+      peer.dataChannel?.close()
+      peer.connection.close()
+    })
+    this.peers.clear()
+    this.signaling = null
+  }
+
+  private handlePeerDiscovery(presence: PeerPresence): void {
+    const peerId = presence.userId
+    if (this.peers.has(peerId) || !this.localPeerId) return
+
+    console.log("[v0] Discovered peer:", peerId)
+
+    // Only one side may create the offer, otherwise both peers end up with crossed offers.
+    // The peer with the lower ID initiates; the other waits for the offer to arrive.
+    if (this.localPeerId < peerId) {
+      this.connectToPeer(peerId).catch((error) => {
+        console.error(`Failed to connect to peer ${peerId}:`, error)
+        this.removePeer(peerId)
+      })
+    }
+  }
+
+  private async connectToPeer(peerId: string): Promise<void> {
+    const peer = this.createPeer(peerId)
+    const dataChannel = peer.connection.createDataChannel(DATA_CHANNEL_LABEL, { ordered: true })
+    this.setupDataChannel(peer, dataChannel)
+
+    const offer = await peer.connection.createOffer()
+    await peer.connection.setLocalDescription(offer)
+    this.sendSignal(peerId, { type: "offer", sdp: peer.connection.localDescription?.toJSON() ?? offer })
+  }
+
+  private async handleSignal(peerId: string, signal: WebRTCSignal): Promise<void> {
+    try {
+      if (signal.type === "offer" && signal.sdp) {
+        // A fresh offer replaces whatever half-open connection we had with this peer
+        this.removePeer(peerId)
+        const peer = this.createPeer(peerId)
+
+        await peer.connection.setRemoteDescription(signal.sdp)
+        await this.flushPendingCandidates(peer)
+
+        const answer = await peer.connection.createAnswer()
+        await peer.connection.setLocalDescription(answer)
+        this.sendSignal(peerId, { type: "answer", sdp: peer.connection.localDescription?.toJSON() ?? answer })
+      } else if (signal.type === "answer" && signal.sdp) {
+        const peer = this.peers.get(peerId)
+        if (!peer || peer.connection.signalingState !== "have-local-offer") return
+
+        await peer.connection.setRemoteDescription(signal.sdp)
+        await this.flushPendingCandidates(peer)
+      } else if (signal.type === "candidate" && signal.candidate) {
+        const peer = this.peers.get(peerId)
+        if (!peer) return
+
+        // Candidates can overtake the offer/answer, keep them until the remote description is set
+        if (!peer.connection.remoteDescription) {
+          peer.pendingCandidates.push(signal.candidate)
+          return
+        }
+
+        await peer.connection.addIceCandidate(signal.candidate)
+      }
+    } catch (error) {
+      console.error(`Error handling ${signal.type} signal from ${peerId}:`, error)
+    }
+  }
+
+  private async flushPendingCandidates(peer: PeerConnection): Promise<void> {
+    const candidates = peer.pendingCandidates.splice(0)
+    for (const candidate of candidates) {
+      await peer.connection.addIceCandidate(candidate)
+    }
+  }
+
+  private sendSignal(peerId: string, signal: WebRTCSignal): void {
+    this.signaling?.sendSignal(peerId, signal)
+  }
+
+  private createPeer(peerId: string): PeerConnection {
+    const peer: PeerConnection = {
+      id: peerId,
+      connection: this.createPeerConnection(peerId),
+      isConnected: false,
+      pendingCandidates: [],
+      fragments: [],
+    }
+
+    peer.connection.ondatachannel = (event) => {
+      if (event.channel.label === DATA_CHANNEL_LABEL) {
+        this.setupDataChannel(peer, event.channel)
+      }
+    }
+
+    this.peers.set(peerId, peer)
+    return peer
+  }
+
+  private createPeerConnection(peerId: string): RTCPeerConnection {
+    const peerConnection = new RTCPeerConnection(this.configuration)
+
+    peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.sendSignal(peerId, { type: "candidate", candidate: event.candidate.toJSON() })
+      }
+    }
+
+    peerConnection.oniceconnectionstatechange = () => {
+      console.log(`ICE connection state for ${peerId}:`, peerConnection.iceConnectionState)
+
+      // Peer status is driven by the data channel; here we only tear down dead connections
+      if (peerConnection.iceConnectionState === "failed" || peerConnection.iceConnectionState === "closed") {
+        if (this.peers.get(peerId)?.connection === peerConnection) {
+          this.removePeer(peerId)
+        }
+      }
+    }
+
+    return peerConnection
+  }
+
+  private setupDataChannel(peer: PeerConnection, dataChannel: RTCDataChannel): void {
+    peer.dataChannel = dataChannel
+
+    dataChannel.onopen = () => {
+      if (this.peers.get(peer.id) !== peer) return
+
+      peer.isConnected = true
+      this.emitPeerUp(peer.id)
+      console.log("[v0] Data channel open with peer:", peer.id)
+    }
+
+    dataChannel.onclose = () => {
+      if (this.peers.get(peer.id) !== peer) return
+
+      console.log("[v0] Data channel closed with peer:", peer.id)
+      this.removePeer(peer.id)
+    }
+
+    dataChannel.onmessage = (event) => {
+      try {
+        const parsed: NetworkMessage | FrameFragment = JSON.parse(event.data)
+        let message: NetworkMessage
+        if ("fragment" in parsed) {
+          const frame = this.reassemble(peer, parsed)
+          if (!frame) return
+          message = JSON.parse(frame)
+        } else {
+          message = parsed
+        }
+
+        // The data channel is authenticated by DTLS, a peer may only speak for itself
+        if (message.senderId !== peer.id) {
+          console.warn("[v0] Dropping message with spoofed sender from peer:", peer.id)
+          return
+        }
+
+        this.emitFrame(message, peer.id)
+      } catch (error) {
+        console.error("Error parsing data channel message:", error)
+      }
+    }
+  }
+
+  // The whole frame once its last fragment is in, null until then or when fragments went missing
+  private reassemble(peer: PeerConnection, { fragment, data }: FrameFragment): string | null {
+    if (fragment.index === 0) {
+      peer.fragments = []
+    }
+    if (fragment.count > MAX_FRAGMENTS || fragment.index !== peer.fragments.length) {
+      console.warn("[v0] Dropping an incomplete frame from peer:", peer.id)
+      peer.fragments = []
+      return null
+    }
+
+    peer.fragments.push(data)
+    if (peer.fragments.length < fragment.count) return null
+
+    const frame = peer.fragments.join("")
+    peer.fragments = []
+    return frame
+  }
+
+  private sendOverDataChannel(peer: PeerConnection, message: NetworkMessage): boolean {
+    if (!peer.isConnected || peer.dataChannel?.readyState !== "open") return false
+
+    const frame = JSON.stringify(message)
+    const count = Math.ceil(frame.length / MAX_FRAGMENT_LENGTH)
+    if (count > MAX_FRAGMENTS) {
+      console.error(`Frame too long for the data channel to ${peer.id}:`, frame.length)
+      return false
+    }
+
+    try {
+      if (count === 1) {
+        peer.dataChannel.send(frame)
+      } else {
+        for (let index = 0; index < count; index++) {
+          const data = frame.slice(index * MAX_FRAGMENT_LENGTH, (index + 1) * MAX_FRAGMENT_LENGTH)
+          const fragment: FrameFragment = { fragment: { index, count }, data }
+          peer.dataChannel.send(JSON.stringify(fragment))
+        }
+      }
+      return true
+    } catch (error) {
+      console.error(`Failed to send over data channel to ${peer.id}:`, error)
+      return false
+    }
+  }
+
+  private removePeer(peerId: string): void {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+
+    this.peers.delete(peerId)
+    peer.dataChannel?.close()
+    peer.connection.close()
+
+    if (peer.isConnected) {
+      peer.isConnected = false
+      this.emitPeerDown(peerId)
+    }
+  }
+}
@@ -0,0 +1,674 @@
+// End-to-end run of several users in one Node process over the in-memory network.
+//
+//   npm run simulate
+//   SIM_LOSS=0.2 SIM_SEED=42 npm run simulate
+
+import { CryptoManager } from "../lib/crypto"
+import { GroupManager, getMemberRole } from "../lib/group-manager"
+import { getSignedEditData } from "../lib/message-edit"
+import { getSignedRetractionData } from "../lib/message-retraction"
+import { getReactionSummary } from "../lib/message-reactions"
+import { compareMessages, getLogicalTime, MessageClockManager } from "../lib/message-clock"
+import { getSignedEnvelopeData, type NetworkMessage } from "../lib/p2p-network"
+import type { MessagePageOptions } from "../lib/message-index"
+import type { Message, MessageEdit, MessageRetraction, VectorClock } from "../lib/types"
+import { createVoiceNote, type AudioBufferLike } from "../lib/voice-note"
+import { NetworkSimulator, type SimulatedPeer } from "../lib/simulator"
+
+let failures = 0
+
+function check(description: string, condition: boolean): void {
+  console.log(`${condition ? "PASS" : "FAIL"}  ${description}`)
+  if (!condition) failures++
+}
+
+function hasReceived(peer: SimulatedPeer, content: string): boolean {
+  return peer.received.some((message) => message.content === content)
+}
+
+async function main(): Promise<void> {
+  const lossRate = Number(process.env.SIM_LOSS ?? 0)
+  const simulator = new NetworkSimulator({
+    latency: { min: 1, max: 15 },
+    lossRate,
+    reorderRate: 0.2,
+    seed: Number(process.env.SIM_SEED ?? 1),
+  })
+
+  // Keep the run readable, the managers log every frame
+  const log = console.log
+  console.log = () => {}
+
+  try {
+    const [alice, bob, carol] = await simulator.addPeers("alice", "bob", "carol")
+    await simulator.connectAll()
+
+    await alice.messageManager.sendDirectMessage(bob.user.id, "hi bob")
+    await simulator.settle()
+    const directDelivered = hasReceived(bob, "hi bob")
+
+    const group = await simulator.createGroup("team", [alice, bob, carol])
+    await bob.messageManager.sendGroupMessage(group.id, "hello team")
+    await simulator.settle()
+    const groupDelivered = hasReceived(alice, "hello team") && hasReceived(carol, "hello team")
+
+    // Receipts: delivery from every recipient, read only from those who did not opt out
+    const findOwn = async (peer: SimulatedPeer, content: string) =>
+      (await peer.storage.getAllMessages()).find((message) => message.content === content)!
+    const deliveredBeforeRead =
+      (await findOwn(alice, "hi bob")).status === "delivered" && (await findOwn(bob, "hello team")).status === "delivered"
+    await carol.messageManager.updateSecuritySettings({ sendReadReceipts: false })
+    const unreadBeforeRead = (await bob.storage.getUnreadMessages(alice.user.id)).map((message) => message.content)
+    await bob.messageManager.markChatRead(alice.user.id)
+    await alice.messageManager.markChatRead(group.id)
+    await carol.messageManager.markChatRead(group.id)
+    await simulator.settle()
+    const teamMessage = await findOwn(bob, "hello team")
+    const receiptsTracked =
+      deliveredBeforeRead &&
+      unreadBeforeRead.join() === "hi bob" &&
+      (await bob.storage.getUnreadMessages(alice.user.id)).length === 0 &&
+      (await findOwn(alice, "hi bob")).status === "read" &&
+      teamMessage.status === "delivered" &&
+      teamMessage.receipts?.[alice.user.id] === "read" &&
+      teamMessage.receipts?.[carol.user.id] === "delivered"
+    await carol.messageManager.updateSecuritySettings({ sendReadReceipts: true })
+
+    // Typing and presence: encrypted status messages that change nothing but the contact and typing state
+    await alice.messageManager.setTyping(bob.user.id, true)
+    await bob.messageManager.setTyping(group.id, true)
+    await simulator.settle()
+    const typingSeen =
+      bob.messageManager.getTypingUsers(alice.user.id).includes(alice.user.id) &&
+      carol.messageManager.getTypingUsers(group.id).includes(bob.user.id)
+    await alice.messageManager.setTyping(bob.user.id, false)
+    alice.messageManager.setPresence("away")
+    await simulator.settle()
+    const typingAndPresence =
+      typingSeen &&
+      bob.messageManager.getTypingUsers(alice.user.id).length === 0 &&
+      (await bob.storage.getContact(alice.user.id))?.presence === "away"
+
+    // Disappearing messages: the timer reaches the contact, both sides' expiry timers delete the message once it
+    // expires, without a sweep of every message
+    await alice.messageManager.setChatTimer(bob.user.id, 300)
+    await simulator.settle()
+    const timerAgreed = (await bob.storage.getContact(alice.user.id))?.messageTTL === 300
+    await bob.messageManager.sendDirectMessage(alice.user.id, "gone soon")
+    await simulator.settle()
+    const ephemeralReceived = hasReceived(alice, "gone soon") && !!(await findOwn(alice, "gone soon"))?.isEphemeral
+    await new Promise((resolve) => setTimeout(resolve, 500))
+    await simulator.settle()
+    const messagesExpired =
+      timerAgreed &&
+      ephemeralReceived &&
+      !(await alice.storage.getAllMessages()).some((message) => message.content === "gone soon") &&
+      !(await bob.storage.getAllMessages()).some((message) => message.content === "gone soon")
+    await bob.messageManager.setChatTimer(alice.user.id, 0)
+    await simulator.settle()
+
+    // Attachments: recipients fetch the encrypted chunks from the sender and check each against its hash
+    const fileData = new Uint8Array(150 * 1024).map((_, i) => (i * 31) % 251)
+    const hasFile = async (peer: SimulatedPeer, messageId: string) => {
+      const message = await peer.storage.getMessage(messageId)
+      const attachment = message?.attachment
+      const data = attachment && (await peer.messageManager.getAttachmentData(message.senderId, attachment))
+      return !!data && data.length === fileData.length && data.every((byte, i) => byte === fileData[i])
+    }
+    const file = { name: "notes.bin", mimeType: "application/octet-stream", data: fileData }
+    const directFile = await alice.messageManager.sendAttachment(bob.user.id, file, "the notes")
+    const groupFile = await bob.messageManager.sendAttachment(group.id, file)
+    await simulator.settle()
+    const attachmentsTransferred =
+      (await hasFile(bob, directFile.id)) &&
+      (await hasFile(alice, groupFile.id)) &&
+      (await hasFile(carol, groupFile.id)) &&
+      (await bob.storage.getPendingDownloads(alice.user.id)).length === 0 &&
+      (await carol.storage.getPendingDownloads(bob.user.id)).length === 0
+
+    // Voice notes: a tone that swells over 1.5 seconds, standing in for a recording
+    const sampleRate = 8000
+    const samples = new Float32Array(sampleRate * 1.5).map((_, i) => Math.sin(i / 4) * (i / (sampleRate * 1.5)))
+    const tone: AudioBufferLike = {
+      duration: 1.5,
+      sampleRate,
+      numberOfChannels: 1,
+      length: samples.length,
+      getChannelData: () => samples,
+    }
+    const voiceNote = createVoiceNote(tone)
+    const sentVoiceNote = await alice.messageManager.sendAttachment(bob.user.id, voiceNote)
+    await simulator.settle()
+    const receivedVoiceNote = await bob.storage.getMessage(sentVoiceNote.id)
+    const voiceAttachment = receivedVoiceNote?.attachment
+    const voiceData = voiceAttachment && (await bob.messageManager.getAttachmentData(alice.user.id, voiceAttachment))
+    const waveform = voiceAttachment?.waveform ?? []
+    const voiceNoteDelivered =
+      receivedVoiceNote?.messageType === "voice" &&
+      voiceAttachment?.duration === 1.5 &&
+      waveform[waveform.length - 1] === 1 &&
+      waveform[0] < 0.1 &&
+      !!voiceData &&
+      new TextDecoder().decode(voiceData.subarray(0, 4)) === "RIFF" &&
+      voiceData.length === 44 + samples.length * 2
+
+    // Edits: the sender's signed edit replaces the text and keeps the old one, an edit by anyone else is refused
+    const hiBob = await findOwn(alice, "hi bob")
+    const teamGreeting = await findOwn(bob, "hello team")
+    await alice.messageManager.editMessage(hiBob.id, "hi bob, edited")
+    await bob.messageManager.editMessage(teamGreeting.id, "hello everyone")
+    await simulator.settle()
+    const bobsHiBob = await bob.storage.getMessage(hiBob.id)
+    const editsApplied =
+      bobsHiBob?.content === "hi bob, edited" &&
+      bobsHiBob.revisions?.[0]?.content === "hi bob" &&
+      (await carol.storage.getMessage(teamGreeting.id))?.content === "hello everyone"
+
+    const cryptoManager = CryptoManager.getInstance()
+    const forgedEdit: MessageEdit = {
+      messageId: teamGreeting.id,
+      content: "carol was here",
+      editedAt: Date.now(),
+      signature: "",
+    }
+    forgedEdit.signature = cryptoManager.signMessage(getSignedEditData(forgedEdit), carol.keyPair.signingPrivateKey!)
+    const forgedEnvelope: NetworkMessage = {
+      type: "message_edit",
+      senderId: carol.user.id,
+      recipientId: alice.user.id,
+      content: cryptoManager.encryptDirectMessage(
+        JSON.stringify(forgedEdit),
+        alice.user.publicKey,
+        carol.keyPair.privateKey,
+      ),
+      timestamp: Date.now(),
+    }
+    forgedEnvelope.signature = cryptoManager.signMessage(
+      getSignedEnvelopeData(forgedEnvelope),
+      carol.keyPair.signingPrivateKey!,
+    )
+    alice.transport.handleFrame(forgedEnvelope, carol.user.id)
+    await simulator.settle()
+    const forgedEditRejected =
+      (await alice.storage.getMessage(teamGreeting.id))?.content === "hello everyone" &&
+      alice.messageManager.getSecurityAlerts().some((alert) => alert.type === "message_tampering")
+
+    // Deletes: a signed retraction leaves a tombstone everywhere, unless the recipient's time limit has passed
+    await alice.messageManager.deleteMessageForEveryone(sentVoiceNote.id)
+    await simulator.settle()
+    const bobsVoiceNote = await bob.storage.getMessage(sentVoiceNote.id)
+    const tombstoned =
+      !!bobsVoiceNote?.retraction &&
+      !bobsVoiceNote.attachment &&
+      (await bob.storage.getAttachmentChunkIndexes(alice.user.id, voiceAttachment!.id)).length === 0 &&
+      !!(await alice.storage.getMessage(sentVoiceNote.id))?.retraction
+
+    await bob.messageManager.updateSecuritySettings({ deleteForEveryoneWindow: 0 })
+    await alice.messageManager.deleteMessageForEveryone(directFile.id)
+    await simulator.settle()
+    const lateDeleteIgnored = !(await bob.storage.getMessage(directFile.id))?.retraction
+
+    // A retraction signed with a time set back to the message's own is judged by when it arrives
+    const settled = await alice.messageManager.sendDirectMessage(bob.user.id, "settled by now")
+    await simulator.settle()
+    const backdated: MessageRetraction = {
+      messageId: settled.id,
+      retractedAt: new Date((await bob.storage.getMessage(settled.id))!.timestamp).getTime(),
+      signature: "",
+    }
+    backdated.signature = cryptoManager.signMessage(getSignedRetractionData(backdated), alice.keyPair.signingPrivateKey!)
+    const backdatedEnvelope: NetworkMessage = {
+      type: "message_retraction",
+      senderId: alice.user.id,
+      recipientId: bob.user.id,
+      content: cryptoManager.encryptDirectMessage(JSON.stringify(backdated), bob.user.publicKey, alice.keyPair.privateKey),
+      timestamp: Date.now(),
+    }
+    backdatedEnvelope.signature = cryptoManager.signMessage(
+      getSignedEnvelopeData(backdatedEnvelope),
+      alice.keyPair.signingPrivateKey!,
+    )
+    bob.transport.handleFrame(backdatedEnvelope, alice.user.id)
+    await simulator.settle()
+    const backdatedDeleteIgnored = !(await bob.storage.getMessage(settled.id))?.retraction
+    await bob.messageManager.updateSecuritySettings({ deleteForEveryoneWindow: 24 * 60 * 60 * 1000 })
+
+    await carol.messageManager.deleteMessage(groupFile.id)
+    const deletedLocally =
+      !(await carol.storage.getMessage(groupFile.id)) && !!(await alice.storage.getMessage(groupFile.id))
+
+    // Replies: the parent travels inside the encrypted payload, nested replies gather under the thread's root
+    const reply = await carol.messageManager.sendGroupMessage(group.id, "good to see you", undefined, teamGreeting.id)
+    await simulator.settle()
+    const nestedReply = await alice.messageManager.sendGroupMessage(group.id, "hi carol", undefined, reply.id)
+    await simulator.settle()
+    const bobsThread = await bob.messageManager.getThread(teamGreeting.id)
+    const repliesThreaded =
+      (await bob.storage.getMessage(nestedReply.id))?.replyTo === reply.id &&
+      bobsThread.map((message) => message.id).join() === [reply.id, nestedReply.id].join() &&
+      (await bob.messageManager.sendDirectMessage(alice.user.id, "wrong chat", undefined, reply.id).then(
+        () => false,
+        () => true,
+      ))
+
+    // Reactions: toggled per member and emoji, aggregated on every member's copy of the message
+    await alice.messageManager.toggleReaction(teamGreeting.id, "👍")
+    await carol.messageManager.toggleReaction(teamGreeting.id, "👍")
+    await alice.messageManager.toggleReaction(teamGreeting.id, "❤️")
+    await simulator.settle()
+    await alice.messageManager.toggleReaction(teamGreeting.id, "❤️")
+    await simulator.settle()
+    const reactionsByMember = await Promise.all(
+      [alice, bob, carol].map(async (member) => {
+        const summary = getReactionSummary((await member.storage.getMessage(teamGreeting.id))!)
+        return summary.map(({ emoji, userIds }) => `${emoji}:${userIds.length}`).join()
+      }),
+    )
+    const reactionsAggregated = reactionsByMember.every((summary) => summary === "👍:2")
+
+    // Causal order: every group message carries a clock, and none sorts before a message it had seen
+    const happenedBefore = (a: VectorClock, b: VectorClock) =>
+      getLogicalTime(a) < getLogicalTime(b) &&
+      Object.entries(a).every(([memberId, count]) => count <= (b[memberId] ?? 0))
+    const bobsTeamChat = await bob.messageManager.getMessagesForChat(group.id)
+    const causallySorted =
+      bobsTeamChat.every((message) => !!message.clock) &&
+      bobsTeamChat.every((message, i) =>
+        bobsTeamChat.slice(i + 1).every((later) => !happenedBefore(later.clock!, message.clock!)),
+      )
+
+    // A message that overtakes its predecessor is marked until the predecessor arrives, whatever the wall clocks say
+    const clocks = new MessageClockManager(bob.storage)
+    const clocked = (id: string, senderId: string, clock: VectorClock, secondsAgo: number): Message => ({
+      id,
+      senderId,
+      groupId: "clock-test",
+      content: id,
+      timestamp: new Date(Date.now() - secondsAgo * 1000),
+      isEncrypted: true,
+      messageType: "text",
+      clock,
+    })
+    const first = clocked("first", alice.user.id, { [alice.user.id]: 1 }, 10)
+    const second = clocked("second", alice.user.id, { [alice.user.id]: 2 }, 20)
+    const answer = clocked("answer", carol.user.id, { [alice.user.id]: 2, [carol.user.id]: 1 }, 30)
+    const firstArrival = await clocks.receive("clock-test", first)
+    const answerArrival = await clocks.receive("clock-test", answer)
+    const secondArrival = await clocks.receive("clock-test", second)
+    const earlyMarked =
+      !firstArrival.isEarly &&
+      answerArrival.isEarly &&
+      !secondArrival.isEarly &&
+      secondArrival.completedIds.join() === "answer" &&
+      [answer, second, first].sort(compareMessages).map((message) => message.id).join() === "first,second,answer"
+
+    // Search: words without accents, phrases and filters, kept up to date on edits, and nothing readable at rest
+    const lunch = await alice.messageManager.sendDirectMessage(bob.user.id, "Lunch at the Café Lumière on Friday?")
+    await simulator.settle()
+    const [lunchResult] = await bob.messageManager.searchMessages("cafe lumiere")
+    const foundBeforeEdit =
+      lunchResult?.message.id === lunch.id &&
+      lunchResult.chatId === alice.user.id &&
+      lunchResult.snippet.filter((part) => part.isMatch).map((part) => part.text).join() === "Café,Lumière" &&
+      (await bob.messageManager.searchMessages('"lumiere on friday" from:alice')).length === 1 &&
+      (await bob.messageManager.searchMessages("cafe from:carol")).length === 0 &&
+      (await bob.messageManager.searchMessages("cafe before:2000-01-01")).length === 0
+    await alice.messageManager.editMessage(lunch.id, "Lunch on Saturday instead")
+    await simulator.settle()
+    const indexEntries: string[] = []
+    await bob.storage["searchIndexStore"].iterate((value: unknown, key: string) => {
+      indexEntries.push(key, JSON.stringify(value))
+    })
+    const searchIndexed =
+      foundBeforeEdit &&
+      (await bob.messageManager.searchMessages("cafe")).length === 0 &&
+      (await bob.messageManager.searchMessages("saturday"))[0]?.message.id === lunch.id &&
+      !indexEntries.some((entry) => /saturday|lunch/i.test(entry))
+
+    // Ids are random: messages sent at once stay apart, and resent copies of one are kept once
+    const bobsFrames: NetworkMessage[] = []
+    bob.transport.onFrame((message) => bobsFrames.push(message))
+    await Promise.all([
+      alice.messageManager.sendDirectMessage(bob.user.id, "twice at once"),
+      alice.messageManager.sendDirectMessage(bob.user.id, "twice at once"),
+    ])
+    await simulator.settle()
+    const resend = (original: NetworkMessage, delay: number) => {
+      const copy: NetworkMessage = { ...original, timestamp: original.timestamp + delay, queued: true }
+      copy.signature = cryptoManager.signMessage(getSignedEnvelopeData(copy), alice.keyPair.signingPrivateKey!)
+      bob.transport.handleFrame(copy, alice.user.id)
+    }
+    for (const original of bobsFrames.filter((message) => message.type === "direct_message")) {
+      resend(original, 1)
+      resend(original, 2)
+    }
+    await simulator.settle()
+    const bobsCopies = (await bob.storage.getAllMessages()).filter((message) => message.content === "twice at once")
+    const deduplicated =
+      bobsCopies.length === 2 &&
+      bobsCopies[0].id !== bobsCopies[1].id &&
+      bob.received.filter((message) => message.content === "twice at once").length === 2
+
+    // Paged history: a chat's messages come a page at a time through its index, across days, and old ones are
+    // cleaned up through it
+    const pagedChat = "page-test"
+    for (let i = 0; i < 120; i++) {
+      await bob.storage.saveMessage({
+        id: `paged-${i}`,
+        senderId: carol.user.id,
+        groupId: pagedChat,
+        content: `page message ${i}`,
+        timestamp: new Date(Date.now() - (120 - i) * 60 * 60 * 1000 + 30 * 60 * 1000),
+        isEncrypted: true,
+        messageType: "text",
+      })
+    }
+    const pages: Message[][] = []
+    let pageOptions: MessagePageOptions = { limit: 50 }
+    for (let page = await bob.storage.getMessagePage(pagedChat, pageOptions); ; ) {
+      pages.push(page.messages)
+      if (!page.nextCursor) break
+      pageOptions = { before: page.nextCursor, limit: 50 }
+      page = await bob.storage.getMessagePage(pagedChat, pageOptions)
+    }
+    const pagedIds = pages.reverse().flat().map((message) => message.id)
+    const sinceCursor = { timestamp: Date.now() - 10 * 60 * 60 * 1000, id: "" }
+    const recentPage = await bob.storage.getMessagePage(pagedChat, { since: sinceCursor })
+    const messageIndexEntries: string[] = []
+    await bob.storage["messageIndexStore"].iterate((value: unknown, key: string) => {
+      messageIndexEntries.push(key, JSON.stringify(value))
+    })
+    const cleanedUp = await bob.storage.cleanupOldMessages(3)
+    const keptAfterCleanup = await bob.storage.getMessagesForChat(pagedChat)
+    await bob.storage.removeGroup(pagedChat)
+    const historyPaged =
+      pages.map((page) => page.length).join() === "20,50,50" &&
+      !messageIndexEntries.some((entry) => entry.includes(pagedChat) || entry.includes("paged-")) &&
+      pagedIds.join() === Array.from({ length: 120 }, (_, i) => `paged-${i}`).join() &&
+      recentPage.messages.length === 10 &&
+      recentPage.nextCursor?.id === "paged-110" &&
+      cleanedUp === 48 &&
+      keptAfterCleanup.length === 72 &&
+      (await bob.storage.getMessagePage(pagedChat)).messages.length === 0 &&
+      !(await bob.storage.getMessage("paged-119"))
+
+    simulator.partition([alice, bob], [carol])
+    await alice.messageManager.sendDirectMessage(carol.user.id, "are you there?")
+    await simulator.settle()
+    const partitionBlocked = !hasReceived(carol, "are you there?")
+
+    simulator.heal()
+    await alice.messageManager.sendDirectMessage(carol.user.id, "back again")
+    await simulator.settle()
+    const healedDelivered = hasReceived(carol, "back again")
+    const queuedDelivered =
+      hasReceived(carol, "are you there?") &&
+      (await alice.messageManager.getOutbox()).every((entry) => entry.state === "delivered")
+
+    // Group outbox: a member offline during the send keeps the entry pending until it is back and has a copy.
+    // A reaction made meanwhile waits in the pending updates and follows the message.
+    simulator.partition([alice, bob], [carol])
+    const whileAway = await bob.messageManager.sendGroupMessage(group.id, "while carol was away")
+    await simulator.settle()
+    await alice.messageManager.toggleReaction(whileAway.id, "🎉")
+    const awayEntry = (await bob.messageManager.getOutbox()).find((entry) => entry.messageId === whileAway.id)
+    const heldForCarol =
+      hasReceived(alice, "while carol was away") &&
+      !hasReceived(carol, "while carol was away") &&
+      awayEntry?.state === "pending" &&
+      awayEntry.pendingMemberIds?.join() === carol.user.id &&
+      (await alice.storage.getPendingUpdates(carol.user.id)).join() === whileAway.id &&
+      (await bob.storage.getMessage(whileAway.id))?.status === "sent"
+    simulator.heal()
+    await simulator.settle()
+    const doneEntry = (await bob.messageManager.getOutbox()).find((entry) => entry.messageId === whileAway.id)
+    const groupOutboxCompleted =
+      heldForCarol &&
+      carol.received.filter((message) => message.content === "while carol was away").length === 1 &&
+      alice.received.filter((message) => message.content === "while carol was away").length === 1 &&
+      doneEntry?.state === "delivered" &&
+      doneEntry.pendingMemberIds?.length === 0 &&
+      getReactionSummary((await carol.storage.getMessage(whileAway.id))!)[0]?.emoji === "🎉" &&
+      (await alice.storage.getPendingUpdates(carol.user.id)).length === 0
+
+    // Forward secrecy: a ratchet session per contact, both sides starting at once, with reordering
+    await alice.messageManager.updateSecuritySettings({ enableForwardSecrecy: true })
+    await carol.messageManager.updateSecuritySettings({ enableForwardSecrecy: true })
+    const ratchetSent: string[] = []
+    for (let i = 0; i < 5; i++) {
+      ratchetSent.push(`alice secret ${i}`, `carol secret ${i}`)
+      await alice.messageManager.sendDirectMessage(carol.user.id, `alice secret ${i}`)
+      await carol.messageManager.sendDirectMessage(alice.user.id, `carol secret ${i}`)
+    }
+    await simulator.settle()
+    await alice.messageManager.sendDirectMessage(carol.user.id, "after the ratchet turned")
+    await simulator.settle()
+    const ratchetDelivered =
+      ratchetSent.every((content) => hasReceived(content.startsWith("alice") ? carol : alice, content)) &&
+      hasReceived(carol, "after the ratchet turned")
+
+    // X3DH: alice fetches bob's prekey bundle and starts a session from it, using up one one-time prekey
+    await bob.messageManager.updateSecuritySettings({ enableForwardSecrecy: true })
+    await alice.messageManager.requestPreKeyBundle(bob.user.id)
+    await simulator.settle()
+    const fetchedBundle = await alice.storage.getPreKeyBundle(bob.user.id)
+    const oneTimePreKeysBefore = (await bob.storage.getAllOneTimePreKeys()).length
+    await alice.messageManager.sendDirectMessage(bob.user.id, "hello from a prekey")
+    await simulator.settle()
+    await bob.messageManager.sendDirectMessage(alice.user.id, "prekey session works")
+    await simulator.settle()
+    const oneTimePreKeysAfter = (await bob.storage.getAllOneTimePreKeys()).length
+    const preKeySessionDelivered =
+      !!fetchedBundle?.oneTimePreKey &&
+      hasReceived(bob, "hello from a prekey") &&
+      hasReceived(alice, "prekey session works") &&
+      oneTimePreKeysAfter === oneTimePreKeysBefore - 1
+
+    // Envelope signing: a forged message claiming to come from alice is dropped and raises an alert
+    bob.transport.handleFrame(
+      {
+        type: "direct_message",
+        senderId: alice.user.id,
+        recipientId: bob.user.id,
+        content: "forged",
+        timestamp: Date.now(),
+        signature: "00".repeat(64),
+      },
+      alice.user.id,
+    )
+    await simulator.settle()
+    const forgeryDropped =
+      !hasReceived(bob, "forged") &&
+      bob.messageManager.getSecurityAlerts().some((alert) => alert.type === "message_tampering")
+
+    // Replay protection: a captured envelope is accepted once, a validly signed stale one not at all
+    const captured: NetworkMessage[] = []
+    carol.transport.onFrame((message) => captured.push(message))
+    await alice.messageManager.sendDirectMessage(carol.user.id, "only once")
+    await simulator.settle()
+    carol.transport.handleFrame(captured[captured.length - 1], alice.user.id)
+
+    const stale: NetworkMessage = {
+      ...captured[captured.length - 1],
+      timestamp: Date.now() - 10 * 60 * 1000,
+    }
+    stale.signature = CryptoManager.getInstance().signMessage(
+      getSignedEnvelopeData(stale),
+      alice.keyPair.signingPrivateKey!,
+    )
+    carol.transport.handleFrame(stale, alice.user.id)
+    await simulator.settle()
+
+    const replayAlerts = carol.messageManager.getSecurityAlerts().filter((alert) => alert.type === "replay_attack")
+    const replaysDropped =
+      carol.received.filter((message) => message.content === "only once").length === 1 && replayAlerts.length === 2
+
+    // Sender keys: removing a member rotates the remaining members' keys, re-adding hands out fresh ones
+    const withoutCarol = { ...group, members: [alice.user.id, bob.user.id] }
+    await alice.storage.saveGroup(withoutCarol)
+    await bob.storage.saveGroup(withoutCarol)
+    await bob.messageManager.sendGroupMessage(group.id, "carol is gone")
+    await simulator.settle()
+    const removedMemberLockedOut = hasReceived(alice, "carol is gone") && !hasReceived(carol, "carol is gone")
+
+    for (const member of [alice, bob, carol]) {
+      await member.storage.saveGroup(group)
+    }
+    await alice.messageManager.sendGroupMessage(group.id, "welcome back carol")
+    await simulator.settle()
+    const readdedMemberReads = hasReceived(carol, "welcome back carol") && hasReceived(bob, "welcome back carol")
+
+    // Group lifecycle: create, invite and accept, join by code with a member we do not know, leave
+    const club = await alice.messageManager.createGroup("club")
+    await alice.messageManager.inviteToGroup(club.id, bob.user.id)
+    await simulator.settle()
+    const [invitation] = await bob.messageManager.getGroupInvitations()
+    await bob.messageManager.respondToInvitation(invitation.invite.id, true)
+    await simulator.settle()
+
+    const dave = await simulator.addPeer("dave")
+    await simulator.connect(alice, dave)
+    await dave.messageManager.joinGroupWithCode(await alice.messageManager.createInviteCode(club.id))
+    await simulator.settle()
+    await dave.messageManager.sendGroupMessage(club.id, "hi club")
+    await simulator.settle()
+    // Bob was introduced to dave by alice, dave's signing key came from dave
+    const joinedMembersTalk =
+      hasReceived(alice, "hi club") &&
+      hasReceived(bob, "hi club") &&
+      (await bob.storage.getContact(dave.user.id))?.signingPublicKey === dave.keyPair.signingPublicKey
+
+    // Roles: the owner makes dave an admin who may rename, a plain member's signed removal is refused
+    await alice.messageManager.changeGroup(club.id, { type: "promote", targetId: dave.user.id })
+    await simulator.settle()
+    await dave.messageManager.changeGroup(club.id, { type: "rename", value: "book club" })
+    await simulator.settle()
+
+    const bobsClub = (await bob.storage.getGroup(club.id))!
+    const bobsRemoval = new GroupManager(CryptoManager.getInstance(), bob.storage).createOperation(
+      bobsClub,
+      bob.user,
+      bob.keyPair,
+      { type: "remove", targetId: dave.user.id },
+    )
+    const refusedAtAlice = !(await new GroupManager(CryptoManager.getInstance(), alice.storage).applyOperation(
+      bobsRemoval,
+      bob.keyPair.signingPublicKey!,
+      alice.user,
+    ))
+    const refusedAtBob = await bob.messageManager.changeGroup(club.id, { type: "rename", value: "bob's club" }).then(
+      () => false,
+      () => true,
+    )
+    const rolesEnforced =
+      refusedAtAlice &&
+      refusedAtBob &&
+      getMemberRole((await alice.storage.getGroup(club.id))!, dave.user.id) === "admin" &&
+      (await alice.storage.getGroup(club.id))!.members.includes(dave.user.id) &&
+      (await bob.storage.getGroup(club.id))!.name === "book club"
+
+    // A member offline while carol joins gets the change once back, and then takes carol's messages
+    simulator.partition([alice, carol, dave], [bob])
+    await carol.messageManager.joinGroupWithCode(await alice.messageManager.createInviteCode(club.id))
+    await simulator.settle()
+    const heldForBob =
+      !(await bob.storage.getGroup(club.id))!.members.includes(carol.user.id) &&
+      (await alice.storage.getPendingGroupEvents(bob.user.id)).length === 1
+    simulator.heal()
+    await simulator.settle()
+    await carol.messageManager.sendGroupMessage(club.id, "carol joined the club")
+    await simulator.settle()
+    const missedChangeReceived =
+      heldForBob &&
+      (await bob.storage.getGroup(club.id))!.members.includes(carol.user.id) &&
+      (await alice.storage.getPendingGroupEvents(bob.user.id)).length === 0 &&
+      hasReceived(bob, "carol joined the club") &&
+      hasReceived(dave, "carol joined the club")
+
+    // Two admins rename the club at once while apart, and alice's changes never reach bob directly: every member
+    // fetches what it missed, replays the renames in the order of their actors' ids and ends with the same club
+    simulator.partition([alice, carol], [dave, bob])
+    await alice.messageManager.changeGroup(club.id, { type: "rename", value: "alice's club" })
+    await dave.messageManager.changeGroup(club.id, { type: "rename", value: "dave's club" })
+    await alice.messageManager.changeGroup(club.id, { type: "set_description", value: "we read" })
+    for (const event of await alice.storage.getPendingGroupEvents(bob.user.id)) {
+      await alice.storage.removePendingGroupEvent(bob.user.id, event)
+    }
+    simulator.heal()
+    await simulator.settle()
+    const lastRenamer = [alice, dave].sort((a, b) => (a.user.id < b.user.id ? -1 : 1))[1]
+    const clubs = await Promise.all([alice, bob, carol, dave].map((member) => member.storage.getGroup(club.id)))
+    const concurrentChangesConverged = clubs.every(
+      (copy) =>
+        copy?.name === `${lastRenamer.user.username}'s club` &&
+        copy.description === "we read" &&
+        copy.version === clubs[0]?.version,
+    )
+
+    await bob.messageManager.leaveGroup(club.id)
+    await simulator.settle()
+    await alice.messageManager.sendGroupMessage(club.id, "bob left")
+    await simulator.settle()
+    const leftMemberGone =
+      hasReceived(dave, "bob left") &&
+      !hasReceived(bob, "bob left") &&
+      !(await alice.storage.getGroup(club.id))!.members.includes(bob.user.id)
+
+    console.log = log
+
+    if (lossRate === 0) {
+      check("direct message reaches the recipient", directDelivered)
+      check("group message reaches every other member", groupDelivered)
+      check("delivery and read receipts track each recipient", receiptsTracked)
+      check("typing and presence signals reach contacts", typingAndPresence)
+      check("disappearing messages expire on both sides", messagesExpired)
+      check("attachments arrive intact in chunks", attachmentsTransferred)
+      check("voice note arrives with its duration and waveform", voiceNoteDelivered)
+      check("signed edits replace the text and keep the revision", editsApplied)
+      check("edits by anyone but the sender are rejected", forgedEditRejected)
+      check("messages deleted for everyone leave tombstones on both sides", tombstoned)
+      check(
+        "late and backdated deletions are ignored and delete for me stays local",
+        lateDeleteIgnored && backdatedDeleteIgnored && deletedLocally,
+      )
+      check("replies carry their parent and gather into threads", repliesThreaded)
+      check("reactions toggle and aggregate per message for every member", reactionsAggregated)
+      check("messages carry logical clocks and sort causally", causallySorted)
+      check("early messages are marked until their predecessors arrive", earlyMarked)
+      check("search finds words, phrases and senders and follows edits in an encrypted index", searchIndexed)
+      check("messages sent at once get distinct ids and resent copies are kept once", deduplicated)
+      check("chat history is paged through an encrypted index and old messages are cleaned up", historyPaged)
+      check("partitioned peer is unreachable", partitionBlocked)
+      check("healed peer is reachable again", healedDelivered)
+      check("message queued during the partition is delivered after healing", queuedDelivered)
+      check("group message and reactions to it wait for the member who was offline", groupOutboxCompleted)
+      check("forward secret messages are delivered both ways", ratchetDelivered)
+      check("prekey bundle starts a session and its one-time prekey is used up", preKeySessionDelivered)
+      check("forged envelope is dropped with a tampering alert", forgeryDropped)
+      check("replayed and stale envelopes are dropped with alerts", replaysDropped)
+      check("removed group member cannot read new messages", removedMemberLockedOut)
+      check("re-added group member reads messages under the new keys", readdedMemberReads)
+      check("invited and code-joined members exchange group messages", joinedMembersTalk)
+      check("group change made while a member was offline reaches it once it is back", missedChangeReceived)
+      check("concurrent and missed group changes leave every member with the same group", concurrentChangesConverged)
+      check("member who left no longer receives group messages", leftMemberGone)
+      check("group operations are checked against the role table", rolesEnforced)
+    } else {
+      console.log(`Loss rate ${lossRate}: checks skipped, delivery is best effort`)
+    }
+
+    console.log("Network stats:", simulator.network.getStats())
+  } finally {
+    console.log = log
+    await simulator.shutdown()
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -0,0 +1,184 @@
+// Minimal signaling server for SecureChat P2P.
+//
+// It only relays signed presence announcements and WebRTC offers/answers/ICE candidates
+// between registered clients. It never sees message content and cannot forge frames:
+// every frame is signed by its author and verified again by the receiving client.
+//
+//   SIGNALING_PORT=8787 SIGNALING_HOST=0.0.0.0 node server/signaling-server.mjs
+
+import { WebSocketServer } from "ws"
+import sodium from "libsodium-wrappers"
+
+const PORT = Number(process.env.SIGNALING_PORT || 8787)
+const HOST = process.env.SIGNALING_HOST || "0.0.0.0"
+const MAX_FRAME_AGE = 60 * 1000
+const HEARTBEAT_INTERVAL = 30 * 1000
+
+// userId -> { socket, signingPublicKey, announcement }
+const clients = new Map()
+
+// Must stay in sync with canonicalJson in lib/utils.ts
+function canonicalJson(value) {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value)
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+
+  return `{${entries.join(",")}}`
+}
+
+function verifyFrame(frame, signingPublicKey) {
+  try {
+    const data = canonicalJson({
+      type: frame.type,
+      from: frame.from,
+      to: frame.to,
+      payload: frame.payload,
+      timestamp: frame.timestamp,
+    })
+    return sodium.crypto_sign_verify_detached(
+      sodium.from_hex(frame.signature),
+      sodium.from_string(data),
+      sodium.from_hex(signingPublicKey),
+    )
+  } catch {
+    return false
+  }
+}
+
+function isFresh(frame) {
+  return typeof frame.timestamp === "number" && Math.abs(Date.now() - frame.timestamp) <= MAX_FRAME_AGE
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message))
+  }
+}
+
+function broadcast(message, exceptUserId) {
+  for (const [userId, client] of clients) {
+    if (userId !== exceptUserId) {
+      send(client.socket, message)
+    }
+  }
+}
+
+function handleAnnounce(socket, frame) {
+  const presence = frame.payload
+  if (!presence || presence.userId !== frame.from || !presence.publicKey || !presence.signingPublicKey) {
+    return send(socket, { kind: "error", message: "Malformed announcement" })
+  }
+
+  // The user ID is the hash of the identity key, nobody can register someone else's ID
+  const expectedId = sodium.to_hex(sodium.crypto_generichash(32, sodium.from_hex(presence.publicKey)))
+  if (expectedId !== frame.from || !isFresh(frame) || !verifyFrame(frame, presence.signingPublicKey)) {
+    return send(socket, { kind: "error", message: "Announcement rejected" })
+  }
+
+  const existing = clients.get(frame.from)
+  if (existing && existing.signingPublicKey !== presence.signingPublicKey) {
+    return send(socket, { kind: "error", message: "User ID is registered with a different signing key" })
+  }
+
+  if (existing && existing.socket !== socket) {
+    // Same identity reconnected from a new socket, the old one is stale
+    existing.socket.close()
+  }
+
+  const isNewRegistration = socket.userId !== frame.from
+  socket.userId = frame.from
+  clients.set(frame.from, { socket, signingPublicKey: presence.signingPublicKey, announcement: frame })
+
+  if (isNewRegistration) {
+    const frames = Array.from(clients.entries())
+      .filter(([userId]) => userId !== frame.from)
+      .map(([, client]) => client.announcement)
+    send(socket, { kind: "peers", frames })
+  }
+
+  broadcast({ kind: "presence", frame }, frame.from)
+}
+
+function handleSignal(socket, frame) {
+  const sender = clients.get(frame.from)
+  if (!sender || sender.socket !== socket) {
+    return send(socket, { kind: "error", message: "Announce before sending signals" })
+  }
+
+  if (!isFresh(frame) || !verifyFrame(frame, sender.signingPublicKey)) {
+    return send(socket, { kind: "error", message: "Signal rejected" })
+  }
+
+  const recipient = clients.get(frame.to)
+  if (!recipient) {
+    return send(socket, { kind: "error", message: `Peer ${String(frame.to).slice(0, 8)} is not connected` })
+  }
+
+  send(recipient.socket, { kind: "signal", frame })
+}
+
+await sodium.ready
+
+const server = new WebSocketServer({ port: PORT, host: HOST })
+
+server.on("connection", (socket) => {
+  socket.isAlive = true
+  socket.on("pong", () => {
+    socket.isAlive = true
+  })
+
+  socket.on("message", (data) => {
+    let message
+    try {
+      message = JSON.parse(data.toString())
+    } catch {
+      return send(socket, { kind: "error", message: "Invalid JSON" })
+    }
+
+    if (!message || !message.frame) return
+
+    if (message.kind === "announce") {
+      handleAnnounce(socket, message.frame)
+    } else if (message.kind === "signal") {
+      handleSignal(socket, message.frame)
+    }
+  })
+
+  socket.on("close", () => {
+    const userId = socket.userId
+    if (userId && clients.get(userId)?.socket === socket) {
+      clients.delete(userId)
+      broadcast({ kind: "peer_left", userId })
+    }
+  })
+})
+
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!socket.isAlive) {
+      socket.terminate()
+      continue
+    }
+
+    socket.isAlive = false
+    socket.ping()
+  }
+}, HEARTBEAT_INTERVAL)
+
+server.on("close", () => clearInterval(heartbeat))
+
+process.on("SIGINT", () => {
+  server.close()
+  process.exit(0)
+})
+
+console.log(`Signaling server listening on ws://${HOST}:${PORT}`)